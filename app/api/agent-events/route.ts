@@ -1,18 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { claimSession, issueEventsTicket } from '@/lib/sessionAuth'
+import { getRequestUser } from '@/lib/authSession'
 
 const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
 
 /**
- * Agent Events WebSocket Credentials API
+ * Agent Events Ticket API
  * 
- * Returns WebSocket credentials for agent activity monitoring.
- * API key is kept secure on the server and never exposed in the client bundle.
+ * Issues a short-lived ticket for GET /api/agent-events/stream, which relays
+ * the Lyzr session WebSocket from the server. The API key never leaves the server.
  * 
- * The client fetches credentials at runtime (not build time), which is more
- * secure than using NEXT_PUBLIC_* environment variables.
+ * A session belongs to the first signed-in user that uses it; other users are refused
+ * so they cannot subscribe to someone else's session.
  */
 export async function POST(request: NextRequest) {
   try {
+    const user = getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 })
+    }
+
     const body = await request.json()
     const { session_id } = body
 
@@ -36,10 +43,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!(await claimSession(session_id, user.id))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Session belongs to another user',
+        },
+        { status: 403 }
+      )
+    }
+
+    const ticket = issueEventsTicket(session_id, user.id)
+
     return NextResponse.json({
       success: true,
-      apiKey: LYZR_API_KEY,
-      wsUrl: `wss://metrics.studio.lyzr.ai/session/${session_id}`,
+      ticket,
+      streamUrl: `/api/agent-events/stream?session_id=${encodeURIComponent(session_id)}&ticket=${encodeURIComponent(ticket)}`,
     })
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : 'Server error'
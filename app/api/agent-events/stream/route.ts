@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyEventsTicket } from '@/lib/sessionAuth'
+import { getRequestUser } from '@/lib/authSession'
+import { subscribeToSession } from '@/lib/agentEventsRelay'
+import { encodeSSE } from '@/lib/sse'
+
+export const dynamic = 'force-dynamic'
+
+const HEARTBEAT_INTERVAL_MS = 15000
+
+/**
+ * Agent Events Stream
+ * 
+ * GET /api/agent-events/stream?session_id=&ticket=
+ * 
+ * Server-Sent Events relay of the Lyzr session WebSocket:
+ *   event: status       → { connected }   upstream connection state
+ *   event: agent_event  → raw Lyzr event JSON
+ *
+ * The ticket only works for the signed-in user it was issued to.
+ */
+export async function GET(request: NextRequest) {
+  const user = getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const sessionId = searchParams.get('session_id')
+  const ticket = searchParams.get('ticket')
+
+  if (!sessionId || !ticket) {
+    return NextResponse.json(
+      { success: false, error: 'session_id and ticket are required' },
+      { status: 400 }
+    )
+  }
+
+  let ticketUser: string | null
+  try {
+    ticketUser = await verifyEventsTicket(ticket, sessionId)
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+  if (!ticketUser) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid or expired ticket' },
+      { status: 401 }
+    )
+  }
+
+  // A leaked stream URL must not let another account read the session's events
+  if (ticketUser !== user.id) {
+    return NextResponse.json(
+      { success: false, error: 'Ticket was issued to another user' },
+      { status: 403 }
+    )
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup: () => void = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      const write = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      const unsubscribe = subscribeToSession(sessionId, {
+        onEvent: (data) => write(encodeSSE('agent_event', data)),
+        onStatus: (connected) => write(encodeSSE('status', { connected })),
+      })
+
+      // Keep proxies from closing an idle stream
+      const heartbeat = setInterval(() => write(': keepalive\n\n'), HEARTBEAT_INTERVAL_MS)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(heartbeat)
+        unsubscribe()
+        try {
+          controller.close()
+        } catch {}
+      }
+
+      request.signal.addEventListener('abort', () => cleanup())
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
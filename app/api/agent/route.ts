@@ -1,256 +1,155 @@
 import { NextRequest, NextResponse } from 'next/server'
-import parseLLMJson from '@/lib/jsonParser'
-
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
-const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
-
-// Types
-interface ArtifactFile {
-  file_url: string
-  name: string
-  format_type: string
-}
-
-interface ModuleOutputs {
-  artifact_files?: ArtifactFile[]
-  [key: string]: any
-}
-
-interface NormalizedAgentResponse {
-  status: 'success' | 'error'
-  result: Record<string, any>
-  message?: string
-  metadata?: {
-    agent_name?: string
-    timestamp?: string
-    [key: string]: any
-  }
-}
+import { encodeSSE } from '@/lib/sse'
+import { claimSession } from '@/lib/sessionAuth'
+import { getRequestUser } from '@/lib/authSession'
+import { generateUUID } from '@/lib/utils'
+import { upstreamErrorStatus } from '@/lib/resilientFetch'
+import { getAgentProvider, type ProviderStream, type ReplyStream } from '@/lib/agentProviders'
+import {
+  AGENT_STREAM_IDLE_TIMEOUT_MS,
+  AGENT_TIMEOUT_MS,
+  buildSuccessPayload,
+  callAgentUpstream,
+  cancelledPayload,
+  configErrorPayload,
+  createDeadline,
+  errorPayload,
+  repairAgentResponse,
+  timeoutPayload,
+  type AgentUpstreamRequest,
+  type Deadline,
+} from '@/lib/agentUpstream'
+
+/**
+ * Re-emit the provider's token stream as SSE:
+ *   event: delta  → { text }             for every upstream chunk
+ *   event: done   → AIAgentResponse      once the stream completes
+ *   event: error  → AIAgentResponse      if the upstream fails mid-stream
+ *
+ * With `repair`, a final response that fails schema validation is re-asked
+ * once (buffered) and `done` carries the repaired response instead.
+ *
+ * The deadline is re-armed with AGENT_STREAM_IDLE_TIMEOUT_MS on every chunk,
+ * so a stalled upstream ends with an `error` event carrying
+ * `error_code: 'timeout'` and whatever text arrived so far.
+ */
+function streamAgentResponse(
+  upstream: ReplyStream,
+  request: AgentUpstreamRequest,
+  options: { repair: boolean; signal?: AbortSignal; deadline: Deadline }
+): Response {
+  const { deadline } = options
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let rawText = ''
+      try {
+        deadline.extend(AGENT_STREAM_IDLE_TIMEOUT_MS)
+        for await (const text of upstream.deltas) {
+          deadline.extend()
+          rawText += text
+          controller.enqueue(encoder.encode(encodeSSE('delta', { text })))
+        }
+        deadline.clear()
+        let result = buildSuccessPayload(upstream.finish(rawText), request)
+        if (options.repair) {
+          result = await repairAgentResponse(request, result, { signal: options.signal })
+        }
+        controller.enqueue(encoder.encode(encodeSSE('done', result)))
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Stream error'
+        const payload = deadline.timedOut
+          ? timeoutPayload(deadline.ms, rawText)
+          : options.signal?.aborted
+            ? cancelledPayload(rawText)
+            : errorPayload(errorMsg, rawText)
+        // Enqueue fails once the client has gone away; nothing is left to tell
+        try {
+          controller.enqueue(encoder.encode(encodeSSE('error', payload)))
+        } catch {}
+      } finally {
+        deadline.clear()
+        try {
+          controller.close()
+        } catch {}
+      }
+    },
+    cancel() {
+      deadline.clear()
+      upstream.cancel()
+    },
+  })
 
-function generateUUID(): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
-    const r = (Math.random() * 16) | 0
-    const v = c === 'x' ? r : (r & 0x3) | 0x8
-    return v.toString(16)
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
   })
 }
 
-function normalizeResponse(parsed: any): NormalizedAgentResponse {
-  if (!parsed) {
-    return {
-      status: 'error',
-      result: {},
-      message: 'Empty response from agent',
-    }
-  }
-
-  if (typeof parsed === 'string') {
-    return {
-      status: 'success',
-      result: { text: parsed },
-      message: parsed,
-    }
-  }
-
-  if (typeof parsed !== 'object') {
-    return {
-      status: 'success',
-      result: { value: parsed },
-      message: String(parsed),
+export async function POST(request: NextRequest) {
+  try {
+    const user = getRequestUser(request)
+    if (!user) {
+      return NextResponse.json(errorPayload('Sign in required'), { status: 401 })
     }
-  }
 
-  if ('status' in parsed && 'result' in parsed) {
-    return {
-      status: parsed.status === 'error' ? 'error' : 'success',
-      result: parsed.result || {},
-      message: parsed.message,
-      metadata: parsed.metadata,
+    // Any user_id in the body is ignored; calls always run as the signed-in user
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(errorPayload('Request body must be a JSON object'), { status: 400 })
     }
-  }
+    const { message, agent_id, session_id, assets, stream } = body
+    // A schema repair re-ask is a second upstream call, so callers opt in
+    const repair = body.repair === true
 
-  if ('status' in parsed) {
-    const { status, message, metadata, ...rest } = parsed
-    return {
-      status: status === 'error' ? 'error' : 'success',
-      result: Object.keys(rest).length > 0 ? rest : {},
-      message,
-      metadata,
+    if (!message || !agent_id) {
+      return NextResponse.json(errorPayload('message and agent_id are required'), { status: 400 })
     }
-  }
 
-  if ('result' in parsed) {
-    const r = parsed.result
-    const msg = parsed.message
-      ?? (typeof r === 'string' ? r : null)
-      ?? (r && typeof r === 'object'
-          ? (r.text ?? r.message ?? r.response ?? r.answer ?? r.summary ?? r.content)
-          : null)
-    return {
-      status: 'success',
-      result: typeof r === 'string' ? { text: r } : (r || {}),
-      message: typeof msg === 'string' ? msg : undefined,
-      metadata: parsed.metadata,
+    const provider = getAgentProvider(agent_id)
+    const configError = provider.configError()
+    if (configError) {
+      return NextResponse.json(configErrorPayload(configError), { status: 500 })
     }
-  }
 
-  if ('message' in parsed && typeof parsed.message === 'string') {
-    return {
-      status: 'success',
-      result: { text: parsed.message },
-      message: parsed.message,
+    const finalSessionId = session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+    // Bind the session to its caller so its agent events stay private
+    if (!(await claimSession(finalSessionId, user.id))) {
+      return NextResponse.json(errorPayload('Session belongs to another user'), { status: 403 })
     }
-  }
-
-  if ('response' in parsed) {
-    return normalizeResponse(parsed.response)
-  }
 
-  return {
-    status: 'success',
-    result: parsed,
-    message: undefined,
-    metadata: undefined,
-  }
-}
+    const upstreamRequest: AgentUpstreamRequest = { message, agent_id, user_id: user.id, session_id: finalSessionId, assets }
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json()
-    const { message, agent_id, user_id, session_id, assets } = body
-
-    if (!message || !agent_id) {
-      return NextResponse.json(
-        {
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: 'message and agent_id are required',
-          },
-          error: 'message and agent_id are required',
-        },
-        { status: 400 }
-      )
+    if (!stream) {
+      const { status, body: result } = await callAgentUpstream(upstreamRequest, { repair, signal: request.signal })
+      return NextResponse.json(result, { status })
     }
 
-    if (!LYZR_API_KEY) {
-      return NextResponse.json(
-        {
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: 'LYZR_API_KEY not configured',
-          },
-          error: 'LYZR_API_KEY not configured on server',
-        },
-        { status: 500 }
-      )
+    // Lets a client-side cancel tear down the upstream stream, and bounds the
+    // wait for the first byte; the stream re-arms it per chunk
+    const deadline = createDeadline(AGENT_TIMEOUT_MS, request.signal)
+    let upstream: ProviderStream
+    try {
+      upstream = await provider.stream(upstreamRequest, deadline.signal)
+    } catch (error) {
+      deadline.clear()
+      if (deadline.timedOut) return NextResponse.json(timeoutPayload(deadline.ms), { status: 504 })
+      if (request.signal.aborted) return NextResponse.json(cancelledPayload(), { status: 499 })
+      throw error
     }
 
-    const finalUserId = user_id || `user-${generateUUID()}`
-    const finalSessionId = session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
-
-    const payload: Record<string, any> = {
-      message,
-      agent_id,
-      user_id: finalUserId,
-      session_id: finalSessionId,
+    if ('deltas' in upstream) {
+      return streamAgentResponse(upstream, upstreamRequest, { repair, signal: request.signal, deadline })
     }
 
-    if (assets && assets.length > 0) {
-      payload.assets = assets
-    }
-
-    const response = await fetch(LYZR_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: JSON.stringify(payload),
-    })
-
-    const rawText = await response.text()
-
-    if (response.ok) {
-      // Parse the Lyzr API envelope first to extract module_outputs
-      // before parseLLMJson unwraps through the "response" key and loses siblings
-      let moduleOutputs: ModuleOutputs | undefined
-      let agentResponseRaw: any = rawText
-
-      try {
-        const envelope = JSON.parse(rawText)
-        if (envelope && typeof envelope === 'object' && 'response' in envelope) {
-          moduleOutputs = envelope.module_outputs
-          agentResponseRaw = envelope.response
-        }
-      } catch {
-        // Not standard JSON envelope, fall through — parseLLMJson will handle it
-      }
-
-      // Now parse only the agent's response with LLM JSON recovery
-      const parsed = parseLLMJson(agentResponseRaw)
-
-      // If parseLLMJson couldn't find JSON, the agent returned plain text — that's valid.
-      // Pass the raw agent response to normalizeResponse which handles strings.
-      const toNormalize =
-        parsed && typeof parsed === 'object' && parsed.success === false && parsed.data === null
-          ? agentResponseRaw
-          : parsed
-
-      const normalized = normalizeResponse(toNormalize)
-
-      return NextResponse.json({
-        success: true,
-        response: normalized,
-        module_outputs: moduleOutputs,
-        agent_id,
-        user_id: finalUserId,
-        session_id: finalSessionId,
-        timestamp: new Date().toISOString(),
-        raw_response: rawText,
-      })
-    } else {
-      let errorMsg = `API returned status ${response.status}`
-      try {
-        const errorData = JSON.parse(rawText)
-        errorMsg = errorData?.detail || errorData?.error || errorData?.message || errorMsg
-      } catch {
-        try {
-          const errorData = parseLLMJson(rawText)
-          errorMsg = errorData?.error || errorData?.message || errorMsg
-        } catch {}
-      }
-
-      return NextResponse.json(
-        {
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: errorMsg,
-          },
-          error: errorMsg,
-          raw_response: rawText,
-        },
-        { status: response.status }
-      )
-    }
+    deadline.clear()
+    return NextResponse.json(errorPayload(upstream.error, upstream.raw), { status: upstream.status })
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : 'Server error'
-    return NextResponse.json(
-      {
-        success: false,
-        response: {
-          status: 'error',
-          result: {},
-          message: errorMsg,
-        },
-        error: errorMsg,
-      },
-      { status: 500 }
-    )
+    return NextResponse.json(errorPayload(errorMsg), { status: upstreamErrorStatus(error) })
   }
 }
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { setSessionCookie } from '@/lib/authSession'
+import { MIN_PASSWORD_LENGTH, getUserStore, normalizeUsername } from '@/lib/userStore'
+
+export const dynamic = 'force-dynamic'
+
+// ---------------------------------------------------------------------------
+// POST — create an account and sign in   { username, password }
+//
+// Disabled when AUTH_ALLOW_SIGNUP is "false".
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.AUTH_ALLOW_SIGNUP === 'false') {
+      return NextResponse.json({ success: false, error: 'Sign-up is disabled' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const username = normalizeUsername(body?.username)
+    const password = typeof body?.password === 'string' ? body.password : ''
+
+    if (!username) {
+      return NextResponse.json(
+        { success: false, error: "Usernames are 3–32 letters, digits, '.', '_' or '-'" },
+        { status: 400 }
+      )
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const user = await getUserStore().create(username, password)
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'That username is taken' }, { status: 409 })
+    }
+    return await setSessionCookie(NextResponse.json({ success: true, user }, { status: 201 }), user)
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE, sessionCookieOptions, setSessionCookie, verifySession } from '@/lib/authSession'
+import { getUserStore, normalizeUsername } from '@/lib/userStore'
+
+export const dynamic = 'force-dynamic'
+
+// ---------------------------------------------------------------------------
+// GET — the signed-in user, or 401
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  const user = await verifySession(request.cookies.get(SESSION_COOKIE)?.value)
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'Not signed in' }, { status: 401 })
+  }
+  return NextResponse.json({ success: true, user })
+}
+
+// ---------------------------------------------------------------------------
+// POST — sign in   { username, password }
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const username = normalizeUsername(body?.username)
+    const password = typeof body?.password === 'string' ? body.password : ''
+
+    if (!username || !password) {
+      return NextResponse.json({ success: false, error: 'username and password are required' }, { status: 400 })
+    }
+
+    const user = await getUserStore().authenticate(username, password)
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Incorrect username or password' }, { status: 401 })
+    }
+    return await setSessionCookie(NextResponse.json({ success: true, user }), user)
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — sign out
+// ---------------------------------------------------------------------------
+export function DELETE() {
+  const response = NextResponse.json({ success: true })
+  response.cookies.set(SESSION_COOKIE, '', sessionCookieOptions(0))
+  return response
+}
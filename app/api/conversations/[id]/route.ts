@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getConversationStore } from '@/lib/conversationStore'
+import { isConversation } from '@/lib/conversations'
+import { getRequestUser } from '@/lib/authSession'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// ---------------------------------------------------------------------------
+// GET — fetch one conversation
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 })
+    }
+
+    const conversation = await getConversationStore().get(user.id, params.id)
+    if (!conversation) {
+      return NextResponse.json({ success: false, error: 'Conversation not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, conversation })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PUT — create or update   { conversation }
+//
+// Responds with the stored copy; if the server already had a newer version
+// that version is returned and `conflict` is true.
+// ---------------------------------------------------------------------------
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { conversation } = body
+
+    if (!isConversation(conversation)) {
+      return NextResponse.json({ success: false, error: 'A valid conversation is required' }, { status: 400 })
+    }
+
+    if (conversation.id !== params.id) {
+      return NextResponse.json(
+        { success: false, error: 'conversation.id does not match the URL' },
+        { status: 400 }
+      )
+    }
+
+    const stored = await getConversationStore().put(user.id, conversation)
+    if (!stored) {
+      return NextResponse.json({ success: false, error: 'Conversation was deleted' }, { status: 410 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      conversation: stored,
+      conflict: stored.updatedAt !== conversation.updatedAt,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — remove a conversation
+// ---------------------------------------------------------------------------
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 })
+    }
+
+    await getConversationStore().delete(user.id, params.id)
+    return NextResponse.json({ success: true, id: params.id })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getConversationStore } from '@/lib/conversationStore'
+import { Conversation, isConversation } from '@/lib/conversations'
+import { getRequestUser } from '@/lib/authSession'
+
+export const dynamic = 'force-dynamic'
+
+// ---------------------------------------------------------------------------
+// GET — list the signed-in user's conversations
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const user = getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 })
+    }
+
+    const conversations = await getConversationStore().list(user.id)
+    return NextResponse.json({ success: true, conversations })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — sync   { conversations: Conversation[] }
+//
+// Upserts every conversation (newer updatedAt wins) and returns the user's
+// full merged list. Used for the initial localStorage migration and on load.
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const user = getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { conversations } = body
+
+    if (!Array.isArray(conversations)) {
+      return NextResponse.json({ success: false, error: 'conversations array is required' }, { status: 400 })
+    }
+
+    const invalid = conversations.filter((c: unknown) => !isConversation(c))
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `${invalid.length} conversation(s) are malformed` },
+        { status: 400 }
+      )
+    }
+
+    const store = getConversationStore()
+    for (const convo of conversations as Conversation[]) {
+      await store.put(user.id, convo)
+    }
+
+    return NextResponse.json({ success: true, conversations: await store.list(user.id) })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,8 @@
 /**
  * Server-side RAG Knowledge Base API Route
  *
- * This route proxies requests to the Lyzr RAG API v3 (https://rag-prod.studio.lyzr.ai)
+ * This route proxies requests to the Lyzr RAG API v3 (https://rag-prod.studio.lyzr.ai,
+ * or LYZR_RAG_BASE_URL)
  * Full API spec: https://rag-prod.studio.lyzr.ai/docs
  *
  * CRITICAL API SPECIFICATIONS:
@@ -24,12 +25,37 @@
  *    - Headers: x-api-key, Content-Type: application/json
  *
  * NEVER expose LYZR_API_KEY to client — always proxy through this route.
+ *
+ * Every action requires a signed-in user; a knowledge base belongs to the
+ * first user that uses it and is refused to everyone else.
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { resilientFetch, upstreamErrorStatus } from "@/lib/resilientFetch";
+import { getRequestUser, type AuthUser } from "@/lib/authSession";
+import { claimKnowledgeBase } from "@/lib/sessionAuth";
+import { LYZR_RAG_BASE_URL, RAG_CRAWL_BASE_URL } from "@/lib/lyzrEndpoints";
 
-const LYZR_RAG_BASE_URL = "https://rag-prod.studio.lyzr.ai/v3";
+const RAG_API_URL = `${LYZR_RAG_BASE_URL}/v3`;
 const LYZR_API_KEY = process.env.LYZR_API_KEY || "";
+const RAG_UPSTREAM = "Lyzr RAG API";
+const CRAWL_UPSTREAM = "RAG crawler API";
+
+async function ownershipCheck(ragId: string, user: AuthUser | null) {
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: "Sign in required" },
+      { status: 401 }
+    );
+  }
+  if (!(await claimKnowledgeBase(ragId, user.id))) {
+    return NextResponse.json(
+      { success: false, error: "Knowledge base belongs to another user" },
+      { status: 403 }
+    );
+  }
+  return null;
+}
 
 const FILE_TYPE_MAP: Record<string, "pdf" | "docx" | "txt"> = {
   "application/pdf": "pdf",
@@ -68,15 +94,19 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      const response = await fetch(
-        `${LYZR_RAG_BASE_URL}/rag/documents/${encodeURIComponent(ragId)}/`,
+      const ownership = await ownershipCheck(ragId, getRequestUser(request));
+      if (ownership) return ownership;
+
+      const response = await resilientFetch(
+        `${RAG_API_URL}/rag/documents/${encodeURIComponent(ragId)}/`,
         {
           method: "GET",
           headers: {
             accept: "application/json",
             "x-api-key": LYZR_API_KEY,
           },
-        }
+        },
+        { upstream: RAG_UPSTREAM }
       );
 
       if (response.ok) {
@@ -138,6 +168,9 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      const ownership = await ownershipCheck(ragId, getRequestUser(request));
+      if (ownership) return ownership;
+
       const fileType = FILE_TYPE_MAP[file.type];
       if (!fileType) {
         return NextResponse.json(
@@ -157,8 +190,8 @@ export async function POST(request: NextRequest) {
       trainFormData.append("chunk_overlap", "100");
       trainFormData.append("extra_info", "{}");
 
-      const trainResponse = await fetch(
-        `${LYZR_RAG_BASE_URL}/train/${fileType}/?rag_id=${encodeURIComponent(
+      const trainResponse = await resilientFetch(
+        `${RAG_API_URL}/train/${fileType}/?rag_id=${encodeURIComponent(
           ragId
         )}`,
         {
@@ -168,7 +201,8 @@ export async function POST(request: NextRequest) {
             accept: "application/json",
           },
           body: trainFormData,
-        }
+        },
+        { upstream: RAG_UPSTREAM, idempotent: false }
       );
 
       if (!trainResponse.ok) {
@@ -201,7 +235,7 @@ export async function POST(request: NextRequest) {
         success: false,
         error: error instanceof Error ? error.message : "Server error",
       },
-      { status: 500 }
+      { status: upstreamErrorStatus(error) }
     );
   }
 }
@@ -232,14 +266,21 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    const response = await fetch(`https://api.beta.architect.new/api/v1/rag/crawl`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": LYZR_API_KEY,
+    const ownership = await ownershipCheck(ragId, getRequestUser(request));
+    if (ownership) return ownership;
+
+    const response = await resilientFetch(
+      `${RAG_CRAWL_BASE_URL}/api/v1/rag/crawl`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": LYZR_API_KEY,
+        },
+        body: JSON.stringify({ url, rag_id: ragId }),
       },
-      body: JSON.stringify({ url, rag_id: ragId }),
-    });
+      { upstream: CRAWL_UPSTREAM, idempotent: false }
+    );
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -267,7 +308,7 @@ export async function PATCH(request: NextRequest) {
         success: false,
         error: error instanceof Error ? error.message : "Server error",
       },
-      { status: 500 }
+      { status: upstreamErrorStatus(error) }
     );
   }
 }
@@ -298,8 +339,11 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const response = await fetch(
-      `${LYZR_RAG_BASE_URL}/rag/${encodeURIComponent(ragId)}/docs/`,
+    const ownership = await ownershipCheck(ragId, getRequestUser(request));
+    if (ownership) return ownership;
+
+    const response = await resilientFetch(
+      `${RAG_API_URL}/rag/${encodeURIComponent(ragId)}/docs/`,
       {
         method: "DELETE",
         headers: {
@@ -308,7 +352,8 @@ export async function DELETE(request: NextRequest) {
           "x-api-key": LYZR_API_KEY,
         },
         body: JSON.stringify(documentNames),
-      }
+      },
+      { upstream: RAG_UPSTREAM }
     );
 
     if (response.ok) {
@@ -336,7 +381,7 @@ export async function DELETE(request: NextRequest) {
         success: false,
         error: error instanceof Error ? error.message : "Server error",
       },
-      { status: 500 }
+      { status: upstreamErrorStatus(error) }
     );
   }
 }
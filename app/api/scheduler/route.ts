@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { resilientFetch, upstreamErrorStatus } from '@/lib/resilientFetch'
+import { getRequestUser, type AuthUser } from '@/lib/authSession'
+import { LYZR_SCHEDULER_BASE_URL as SCHEDULER_BASE_URL } from '@/lib/lyzrEndpoints'
 
-const SCHEDULER_BASE_URL = 'https://scheduler.studio.lyzr.ai'
 const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+const SCHEDULER_UPSTREAM = 'Lyzr scheduler API'
 
 function getHeaders() {
   return {
@@ -21,12 +24,57 @@ function apiKeyCheck() {
   return null
 }
 
+function signInRequired() {
+  return NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 })
+}
+
+/**
+ * The upstream URL of one schedule. Actions append to it, so the schedule that
+ * passed the ownership check is the one they act on.
+ */
+function scheduleUrl(scheduleId: string): string {
+  return `${SCHEDULER_BASE_URL}/schedules/${encodeURIComponent(scheduleId)}`
+}
+
+/**
+ * Schedules are created with the signed-in user's id as `user_id`. Load the one
+ * at `url` (from scheduleUrl) and confirm it belongs to `user`; someone else's
+ * schedule reads as missing.
+ */
+async function fetchOwnedSchedule(
+  url: string,
+  user: AuthUser
+): Promise<{ schedule: Record<string, any> } | { response: NextResponse }> {
+  const response = await resilientFetch(
+    url,
+    { headers: getHeaders() },
+    { upstream: SCHEDULER_UPSTREAM }
+  )
+  if (response.ok) {
+    const schedule = await response.json()
+    if (schedule?.user_id === user.id) return { schedule }
+  } else if (response.status !== 404) {
+    const errorText = await response.text()
+    return {
+      response: NextResponse.json(
+        { success: false, error: `Scheduler API error: ${response.status}`, details: errorText },
+        { status: response.status }
+      ),
+    }
+  }
+  return { response: NextResponse.json({ success: false, error: 'Schedule not found' }, { status: 404 }) }
+}
+
+const ownedBy = (user: AuthUser) => (item: { user_id?: string }) => item?.user_id === user.id
+
 // ---------------------------------------------------------------------------
-// GET — list | get | by-agent | logs | recent
+// GET — list | get | by-agent | logs | recent   (the signed-in user's only)
 // ---------------------------------------------------------------------------
 export async function GET(request: NextRequest) {
   const check = apiKeyCheck()
   if (check) return check
+  const user = getRequestUser(request)
+  if (!user) return signInRequired()
 
   try {
     const { searchParams } = new URL(request.url)
@@ -42,8 +90,9 @@ export async function GET(request: NextRequest) {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}`
-        break
+        const owned = await fetchOwnedSchedule(scheduleUrl(scheduleId), user)
+        if ('response' in owned) return owned.response
+        return NextResponse.json({ success: true, ...owned.schedule })
       }
 
       // GET /schedules/by-agent/{agent_id}
@@ -51,7 +100,7 @@ export async function GET(request: NextRequest) {
         if (!agentId) {
           return NextResponse.json({ success: false, error: 'agentId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/by-agent/${agentId}`
+        url = `${SCHEDULER_BASE_URL}/schedules/by-agent/${encodeURIComponent(agentId)}`
         break
       }
 
@@ -60,11 +109,14 @@ export async function GET(request: NextRequest) {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
+        const scheduleResource = scheduleUrl(scheduleId)
+        const owned = await fetchOwnedSchedule(scheduleResource, user)
+        if ('response' in owned) return owned.response
         const logsQuery = new URLSearchParams()
         if (searchParams.get('skip')) logsQuery.set('skip', searchParams.get('skip')!)
         if (searchParams.get('limit')) logsQuery.set('limit', searchParams.get('limit')!)
         const logsQs = logsQuery.toString() ? `?${logsQuery}` : ''
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/logs${logsQs}`
+        url = `${scheduleResource}/logs${logsQs}`
         break
       }
 
@@ -86,7 +138,7 @@ export async function GET(request: NextRequest) {
       case 'list':
       default: {
         const listQuery = new URLSearchParams()
-        listQuery.set('user_id', LYZR_API_KEY)
+        listQuery.set('user_id', user.id)
         if (agentId) listQuery.set('agent_id', agentId)
         if (searchParams.get('is_active')) listQuery.set('is_active', searchParams.get('is_active')!)
         if (searchParams.get('skip')) listQuery.set('skip', searchParams.get('skip')!)
@@ -96,7 +148,7 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    const response = await fetch(url, { headers: getHeaders() })
+    const response = await resilientFetch(url, { headers: getHeaders() }, { upstream: SCHEDULER_UPSTREAM })
 
     if (!response.ok) {
       const errorText = await response.text()
@@ -107,11 +159,21 @@ export async function GET(request: NextRequest) {
     }
 
     const data = await response.json()
+
+    // These span every user of the API key; keep only the caller's entries
+    if (action === 'by-agent') {
+      data.schedules = (data.schedules || []).filter(ownedBy(user))
+      data.webhooks = (data.webhooks || []).filter(ownedBy(user))
+    } else if (action === 'recent') {
+      data.executions = (data.executions || []).filter(ownedBy(user))
+      data.total = data.executions.length
+    }
+
     return NextResponse.json({ success: true, ...data })
   } catch (error) {
     return NextResponse.json(
       { success: false, error: error instanceof Error ? error.message : 'Server error' },
-      { status: 500 }
+      { status: upstreamErrorStatus(error) }
     )
   }
 }
@@ -122,6 +184,8 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   const check = apiKeyCheck()
   if (check) return check
+  const user = getRequestUser(request)
+  if (!user) return signInRequired()
 
   try {
     const body = await request.json()
@@ -129,32 +193,21 @@ export async function POST(request: NextRequest) {
 
     let url: string
     let fetchBody: string | undefined
+    /** Set for actions on an existing schedule, which must be the caller's */
+    let scheduleResource: string | null = null
 
     switch (action) {
       // POST /schedules/{schedule_id}/trigger  → 202 Accepted
-      case 'trigger': {
-        if (!scheduleId) {
-          return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
-        }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/trigger`
-        break
-      }
-
-      // POST /schedules/{schedule_id}/pause  → 200 with updated schedule
-      case 'pause': {
-        if (!scheduleId) {
-          return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
-        }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/pause`
-        break
-      }
-
-      // POST /schedules/{schedule_id}/resume  → 200 with updated schedule
+      // POST /schedules/{schedule_id}/pause    → 200 with updated schedule
+      // POST /schedules/{schedule_id}/resume   → 200 with updated schedule
+      case 'trigger':
+      case 'pause':
       case 'resume': {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/resume`
+        scheduleResource = scheduleUrl(scheduleId)
+        url = `${scheduleResource}/${action}`
         break
       }
 
@@ -173,7 +226,7 @@ export async function POST(request: NextRequest) {
           cron_expression: params.cron_expression,
           message: params.message,
           timezone: params.timezone || 'UTC',
-          user_id: LYZR_API_KEY,
+          user_id: user.id,
           max_retries: params.max_retries ?? 3,
           retry_delay: params.retry_delay ?? 300,
         })
@@ -181,11 +234,21 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: getHeaders(),
-      ...(fetchBody && { body: fetchBody }),
-    })
+    if (scheduleResource) {
+      const owned = await fetchOwnedSchedule(scheduleResource, user)
+      if ('response' in owned) return owned.response
+    }
+
+    // Creating or triggering twice would duplicate work; pause and resume are safe to repeat
+    const response = await resilientFetch(
+      url,
+      {
+        method: 'POST',
+        headers: getHeaders(),
+        ...(fetchBody && { body: fetchBody }),
+      },
+      { upstream: SCHEDULER_UPSTREAM, idempotent: action === 'pause' || action === 'resume' }
+    )
 
     // Trigger returns 202 Accepted with a string body
     if (action === 'trigger') {
@@ -212,7 +275,7 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     return NextResponse.json(
       { success: false, error: error instanceof Error ? error.message : 'Server error' },
-      { status: 500 }
+      { status: upstreamErrorStatus(error) }
     )
   }
 }
@@ -223,6 +286,8 @@ export async function POST(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   const check = apiKeyCheck()
   if (check) return check
+  const user = getRequestUser(request)
+  if (!user) return signInRequired()
 
   try {
     const body = await request.json()
@@ -232,10 +297,18 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
     }
 
-    const response = await fetch(`${SCHEDULER_BASE_URL}/schedules/${scheduleId}`, {
-      method: 'DELETE',
-      headers: getHeaders(),
-    })
+    const scheduleResource = scheduleUrl(scheduleId)
+    const owned = await fetchOwnedSchedule(scheduleResource, user)
+    if ('response' in owned) return owned.response
+
+    const response = await resilientFetch(
+      scheduleResource,
+      {
+        method: 'DELETE',
+        headers: getHeaders(),
+      },
+      { upstream: SCHEDULER_UPSTREAM }
+    )
 
     // Upstream returns 204 No Content on success
     if (response.status === 204 || response.ok) {
@@ -254,7 +327,7 @@ export async function DELETE(request: NextRequest) {
   } catch (error) {
     return NextResponse.json(
       { success: false, error: error instanceof Error ? error.message : 'Server error' },
-      { status: 500 }
+      { status: upstreamErrorStatus(error) }
     )
   }
 }
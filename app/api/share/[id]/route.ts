@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getShareStore, isShareExpired } from '@/lib/shareStore'
+import { getRequestUser } from '@/lib/authSession'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// ---------------------------------------------------------------------------
+// GET — public read of a shared snapshot (no sign-in needed)
+// ---------------------------------------------------------------------------
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const share = await getShareStore().get(params.id)
+    if (!share) {
+      return NextResponse.json({ success: false, error: 'Share not found' }, { status: 404 })
+    }
+    if (isShareExpired(share)) {
+      return NextResponse.json({ success: false, error: 'This link has expired' }, { status: 410 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      conversation: share.conversation,
+      createdAt: share.createdAt,
+      expiresAt: share.expiresAt,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — revoke one of the signed-in user's links
+// ---------------------------------------------------------------------------
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 })
+    }
+
+    // Someone else's share reads as missing so ids cannot be probed
+    const revoked = await getShareStore().revoke(user.id, params.id)
+    if (!revoked) {
+      return NextResponse.json({ success: false, error: 'Share not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
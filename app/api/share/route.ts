@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getShareStore, toShareSummary } from '@/lib/shareStore'
+import { isConversation } from '@/lib/conversations'
+import { getRequestUser } from '@/lib/authSession'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_EXPIRY_DAYS = 365
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ---------------------------------------------------------------------------
+// GET — list the signed-in user's links for one conversation   ?conversation_id=
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const user = getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 })
+    }
+
+    const conversationId = new URL(request.url).searchParams.get('conversation_id')
+    if (!conversationId) {
+      return NextResponse.json({ success: false, error: 'conversation_id is required' }, { status: 400 })
+    }
+
+    const shares = await getShareStore().list(user.id, conversationId)
+    return NextResponse.json({ success: true, shares })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — snapshot a conversation   { conversation, expires_in_days? }
+//
+// Omit expires_in_days (or send null) for a link that never expires.
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const user = getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { conversation, expires_in_days } = body
+
+    // Also rejects messages whose parent links loop or point nowhere
+    if (!isConversation(conversation)) {
+      return NextResponse.json({ success: false, error: 'A valid conversation is required' }, { status: 400 })
+    }
+
+    if (
+      expires_in_days != null &&
+      (typeof expires_in_days !== 'number' || !(expires_in_days > 0) || expires_in_days > MAX_EXPIRY_DAYS)
+    ) {
+      return NextResponse.json(
+        { success: false, error: `expires_in_days must be between 0 and ${MAX_EXPIRY_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    const expiresAt = expires_in_days != null ? Date.now() + expires_in_days * DAY_MS : null
+    const share = await getShareStore().create(user.id, conversation, expiresAt)
+    return NextResponse.json({ success: true, share: toShareSummary(share) })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
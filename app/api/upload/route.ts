@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { resilientFetch, upstreamErrorStatus } from '@/lib/resilientFetch'
+import { LYZR_AGENT_BASE_URL } from '@/lib/lyzrEndpoints'
 
-const LYZR_UPLOAD_URL = 'https://agent-prod.studio.lyzr.ai/v3/assets/upload'
+const LYZR_UPLOAD_URL = `${LYZR_AGENT_BASE_URL}/v3/assets/upload`
 const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
 
 export async function POST(request: NextRequest) {
@@ -50,13 +52,17 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const response = await fetch(LYZR_UPLOAD_URL, {
-      method: 'POST',
-      headers: {
-        'x-api-key': LYZR_API_KEY,
+    const response = await resilientFetch(
+      LYZR_UPLOAD_URL,
+      {
+        method: 'POST',
+        headers: {
+          'x-api-key': LYZR_API_KEY,
+        },
+        body: uploadFormData,
       },
-      body: uploadFormData,
-    })
+      { upstream: 'Lyzr upload API', idempotent: false }
+    )
 
     if (response.ok) {
       const data = await response.json()
@@ -116,7 +122,7 @@ export async function POST(request: NextRequest) {
         timestamp: new Date().toISOString(),
         error: error instanceof Error ? error.message : String(error),
       },
-      { status: 500 }
+      { status: upstreamErrorStatus(error) }
     )
   }
 }
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAgentProvider } from '@/lib/agentProviders'
+import { claimSession } from '@/lib/sessionAuth'
+import { getRequestUser } from '@/lib/authSession'
+import {
+  defaultWorkflow,
+  MAX_WORKFLOW_AGENT_NODES,
+  MAX_WORKFLOW_NODES,
+  nodeSessionId,
+  runWorkflow,
+  WorkflowDefinition,
+  WorkflowError,
+} from '@/lib/workflowRunner'
+
+export const dynamic = 'force-dynamic'
+
+function isWorkflowDefinition(value: any): value is WorkflowDefinition {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    Array.isArray(value.nodes) &&
+    Array.isArray(value.edges) &&
+    value.nodes.every((n: any) => n && typeof n.id === 'string' && typeof n.type === 'string') &&
+    value.edges.every((e: any) => e && typeof e.source === 'string' && typeof e.target === 'string')
+  )
+}
+
+/** Why a posted graph is too large to run, or null when it is within the limits. */
+function workflowSizeError(workflow: WorkflowDefinition): string | null {
+  if (workflow.nodes.length > MAX_WORKFLOW_NODES) {
+    return `workflow may have at most ${MAX_WORKFLOW_NODES} nodes`
+  }
+  const agentNodes = workflow.nodes.filter((node) => node.type === 'Agent').length
+  if (agentNodes > MAX_WORKFLOW_AGENT_NODES) {
+    return `workflow may have at most ${MAX_WORKFLOW_AGENT_NODES} Agent nodes`
+  }
+  return null
+}
+
+/**
+ * Why a posted graph's edge conditions cannot run, or null. Client-supplied
+ * regular expressions could backtrack for a very long time, so `matches` is
+ * reserved for the bundled workflow.json.
+ */
+function workflowConditionError(workflow: WorkflowDefinition): string | null {
+  const usesMatches = workflow.edges.some((edge) => edge.condition?.operator === 'matches')
+  return usesMatches ? 'the matches operator is only available in the bundled workflow' : null
+}
+
+/** The first configuration problem among the providers of the workflow's agents. */
+function providerConfigError(workflow: WorkflowDefinition): string | null {
+  for (const node of workflow.nodes) {
+    const error = node.agent_id ? getAgentProvider(node.agent_id).configError() : null
+    if (error) return error
+  }
+  return null
+}
+
+// ---------------------------------------------------------------------------
+// POST — run a workflow as the signed-in user   { message, session_id?, workflow? }
+//
+// Runs workflow.json (or the supplied graph) end to end and returns the
+// per-node results and timings in workflow_state shape.
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const user = getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { message, session_id, workflow } = body
+
+    if (!message) {
+      return NextResponse.json({ success: false, error: 'message is required' }, { status: 400 })
+    }
+
+    if (workflow !== undefined && !isWorkflowDefinition(workflow)) {
+      return NextResponse.json({ success: false, error: 'workflow must have nodes and edges arrays' }, { status: 400 })
+    }
+
+    const graphError = workflow ? workflowSizeError(workflow) ?? workflowConditionError(workflow) : null
+    if (graphError) {
+      return NextResponse.json({ success: false, error: graphError }, { status: 400 })
+    }
+
+    const configError = providerConfigError(workflow ?? defaultWorkflow)
+    if (configError) {
+      return NextResponse.json({ success: false, error: `${configError} on server` }, { status: 500 })
+    }
+
+    if (session_id !== undefined && (typeof session_id !== 'string' || !session_id)) {
+      return NextResponse.json({ success: false, error: 'session_id must be a non-empty string' }, { status: 400 })
+    }
+
+    // Agent nodes run under ids derived from session_id, so those are claimed too;
+    // otherwise a chosen session_id and node id could land on another user's session
+    if (session_id) {
+      const agentNodes = (workflow ?? defaultWorkflow).nodes.filter((node) => node.type === 'Agent')
+      const sessionIds = [session_id, ...agentNodes.map((node) => nodeSessionId(session_id, node.id))]
+      for (const id of sessionIds) {
+        if (!(await claimSession(id, user.id))) {
+          return NextResponse.json({ success: false, error: 'Session belongs to another user' }, { status: 403 })
+        }
+      }
+    }
+
+    const state = await runWorkflow(message, { workflow, user_id: user.id, session_id })
+    return NextResponse.json({ success: state.run.status === 'success', state })
+  } catch (error) {
+    if (error instanceof WorkflowError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
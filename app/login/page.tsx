@@ -0,0 +1,103 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Loader2 } from 'lucide-react'
+import { safeNextPath, signIn, signUp } from '@/lib/authClient'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+function LoginForm() {
+  const router = useRouter()
+  const next = safeNextPath(useSearchParams().get('next'))
+  const [mode, setMode] = React.useState<'sign-in' | 'sign-up'>('sign-in')
+  const [username, setUsername] = React.useState('')
+  const [password, setPassword] = React.useState('')
+  const [error, setError] = React.useState<string | null>(null)
+  const [submitting, setSubmitting] = React.useState(false)
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    const result = mode === 'sign-in' ? await signIn(username, password) : await signUp(username, password)
+    if (!result.success) {
+      setError(result.error || 'Something went wrong. Please try again.')
+      setSubmitting(false)
+      return
+    }
+    router.replace(next)
+    router.refresh()
+  }
+
+  return (
+    <form onSubmit={submit} className="w-full max-w-sm space-y-5 rounded-2xl border border-border bg-card p-6">
+      <div className="space-y-1">
+        <h1 className="font-serif text-2xl font-bold text-foreground">
+          {mode === 'sign-in' ? 'Sign in to SimpleChat' : 'Create your account'}
+        </h1>
+        <p className="text-sm text-muted-foreground font-sans">
+          {mode === 'sign-in' ? 'Your conversations follow your account.' : 'Pick a username and a password.'}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="username">Username</Label>
+        <Input
+          id="username"
+          autoComplete="username"
+          autoFocus
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </div>
+
+      {error && <p className="text-xs text-destructive font-sans">{error}</p>}
+
+      <Button
+        type="submit"
+        disabled={submitting || !username.trim() || !password}
+        className="w-full bg-accent text-accent-foreground hover:bg-accent/80"
+      >
+        {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {mode === 'sign-in' ? 'Sign in' : 'Create account'}
+      </Button>
+
+      <p className="text-center text-xs text-muted-foreground font-sans">
+        {mode === 'sign-in' ? 'New here?' : 'Already have an account?'}{' '}
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === 'sign-in' ? 'sign-up' : 'sign-in')
+            setError(null)
+          }}
+          className="text-accent underline hover:no-underline"
+        >
+          {mode === 'sign-in' ? 'Create an account' : 'Sign in'}
+        </button>
+      </p>
+    </form>
+  )
+}
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      {/* useSearchParams needs a suspense boundary to prerender */}
+      <React.Suspense>
+        <LoginForm />
+      </React.Suspense>
+    </div>
+  )
+}
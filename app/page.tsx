@@ -1,52 +1,67 @@
 'use client'
 
-import { useState, useEffect, useRef, useCallback } from 'react'
-import { callAIAgent, extractText } from '@/lib/aiAgent'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import Link from 'next/link'
+import { streamAIAgent, extractText, extractStreamingText, type ArtifactFile } from '@/lib/aiAgent'
+import { toTypedResponse } from '@/lib/typedAgent'
+import { isChatAgentResult } from '@/lib/agentClients.generated'
 import { useLyzrAgentEvents } from '@/lib/lyzrAgentEvents'
+import {
+  ChatMessage,
+  Conversation,
+  MessageAttachment,
+  mergeConversations,
+  getActivePath,
+  getActiveLeafId,
+  getSiblings,
+  getLatestLeaf,
+} from '@/lib/conversations'
+import { getCurrentUser, redirectToSignIn, signOut, type AuthUser } from '@/lib/authClient'
+import { syncConversations, saveConversation, deleteConversation as deleteStoredConversation } from '@/lib/conversationSync'
 import { AgentActivityPanel } from '@/components/AgentActivityPanel'
+import { MessageBubble, QueuedMessageBubble } from '@/components/MessageBubble'
+import { AttachmentTray } from '@/components/ChatAttachments'
+import { SearchPalette, SearchResultList } from '@/components/ConversationSearch'
+import { ExportMenu, ImportConversationsInput } from '@/components/ConversationTransfer'
+import { ShareDialog } from '@/components/ShareDialog'
+import { QuotaNotice } from '@/components/QuotaNotice'
+import { ConversationList } from '@/components/ConversationList'
+import { mergeImported } from '@/lib/conversationExport'
+import { needsSummary, summarizeConversation, summaryPatch } from '@/lib/conversationSummary'
+import { createSearchIndex, type SearchResult } from '@/lib/searchIndex'
+import { useAttachments } from '@/hooks/useAttachments'
+import { useMessageQueue } from '@/hooks/useMessageQueue'
+import { AGENTS, DEFAULT_AGENT_ID, getAgent, describeCapabilities } from '@/lib/agentRegistry'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { Separator } from '@/components/ui/separator'
 import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import {
-  RiRobot2Line,
-  RiUserLine,
-  RiAddLine,
-  RiSendPlaneFill,
-  RiMenuLine,
-  RiCloseLine,
-  RiDeleteBinLine,
-  RiChat1Line,
-  RiRefreshLine,
-  RiAlertLine,
-  RiSignalWifiLine,
-  RiSignalWifiOffLine,
-} from 'react-icons/ri'
+  Bot,
+  CalendarClock,
+  Download,
+  LogOut,
+  Menu,
+  Paperclip,
+  Plus,
+  Search,
+  Send,
+  Share2,
+  Square,
+  Upload,
+  User,
+  Wifi,
+  WifiOff,
+  X,
+} from 'lucide-react'
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
-const CHAT_AGENT_ID = '69942cebc194d78a6a0240a4'
 const LS_CONVERSATIONS_KEY = 'simplechat_conversations'
-const LS_USER_ID_KEY = 'simplechat_user_id'
-
-// ─── Types ────────────────────────────────────────────────────────────────────
-
-interface ChatMessage {
-  id: string
-  role: 'user' | 'assistant'
-  content: string
-  timestamp: number
-  error?: boolean
-}
-
-interface Conversation {
-  id: string
-  title: string
-  sessionId: string
-  messages: ChatMessage[]
-  createdAt: number
-  updatedAt: number
-}
+// Before sign-in existed: a random per-browser id and one unscoped history
+const LS_LEGACY_USER_ID_KEY = 'simplechat_user_id'
+const SYNC_DEBOUNCE_MS = 1000
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -57,119 +72,34 @@ function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).slice(2, 10)
 }
 
+/** Text sent to the agent; a message with only attachments still needs a prompt. */
+function agentMessageText(message: ChatMessage): string {
+  if (message.content) return message.content
+  const names = (message.attachments ?? []).map((a) => a.name).join(', ')
+  return names ? `See the attached file(s): ${names}` : ''
+}
+
 function truncateText(text: string, max: number): string {
   if (text.length <= max) return text
   return text.slice(0, max) + '...'
 }
 
-function formatTime(ts: number): string {
-  const d = new Date(ts)
-  const now = new Date()
-  const diffMs = now.getTime() - d.getTime()
-  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24))
-  if (diffDays === 0) {
-    return d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
-  }
-  if (diffDays === 1) return 'Yesterday'
-  if (diffDays < 7) {
-    return d.toLocaleDateString('en-US', { weekday: 'short' })
-  }
-  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
-}
-
-// ─── Markdown Renderer ───────────────────────────────────────────────────────
-
-function formatInline(text: string): React.ReactNode {
-  // Handle **bold** first
-  const boldParts = text.split(/\*\*(.*?)\*\*/g)
-  if (boldParts.length > 1) {
-    return boldParts.map((part, i) =>
-      i % 2 === 1 ? (
-        <strong key={i} className="font-semibold">
-          {part}
-        </strong>
-      ) : (
-        <span key={i}>{formatInlineCode(part)}</span>
-      )
-    )
-  }
-  return formatInlineCode(text)
-}
-
-function formatInlineCode(text: string): React.ReactNode {
-  const codeParts = text.split(/`([^`]+)`/g)
-  if (codeParts.length === 1) return text
-  return codeParts.map((part, i) =>
-    i % 2 === 1 ? (
-      <code key={i} className="px-1.5 py-0.5 rounded bg-muted text-accent-foreground font-mono text-xs">
-        {part}
-      </code>
-    ) : (
-      <span key={i}>{part}</span>
-    )
-  )
+/** Each signed-in user keeps their own local copy of their history. */
+function conversationsKey(userId: string): string {
+  return `${LS_CONVERSATIONS_KEY}:${userId}`
 }
 
-function renderMarkdown(text: string): React.ReactNode {
-  if (!text) return null
-  let inCodeBlock = false
-  let codeBlockLines: string[] = []
-  const elements: React.ReactNode[] = []
-  let keyIdx = 0
-
-  const lines = text.split('\n')
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]
-
-    if (line.startsWith('```')) {
-      if (!inCodeBlock) {
-        inCodeBlock = true
-        codeBlockLines = []
-        continue
-      } else {
-        inCodeBlock = false
-        elements.push(
-          <pre key={keyIdx++} className="p-3 rounded-lg bg-muted overflow-x-auto my-2">
-            <code className="text-xs font-mono text-foreground leading-relaxed">{codeBlockLines.join('\n')}</code>
-          </pre>
-        )
-        continue
-      }
-    }
-
-    if (inCodeBlock) {
-      codeBlockLines.push(line)
-      continue
-    }
-
-    if (line.startsWith('### ')) {
-      elements.push(<h4 key={keyIdx++} className="font-semibold text-sm mt-3 mb-1 text-foreground">{line.slice(4)}</h4>)
-    } else if (line.startsWith('## ')) {
-      elements.push(<h3 key={keyIdx++} className="font-semibold text-base mt-3 mb-1 text-foreground">{line.slice(3)}</h3>)
-    } else if (line.startsWith('# ')) {
-      elements.push(<h2 key={keyIdx++} className="font-bold text-lg mt-4 mb-2 text-foreground">{line.slice(2)}</h2>)
-    } else if (line.startsWith('- ') || line.startsWith('* ')) {
-      elements.push(<li key={keyIdx++} className="ml-4 list-disc text-sm leading-relaxed">{formatInline(line.slice(2))}</li>)
-    } else if (/^\d+\.\s/.test(line)) {
-      elements.push(<li key={keyIdx++} className="ml-4 list-decimal text-sm leading-relaxed">{formatInline(line.replace(/^\d+\.\s/, ''))}</li>)
-    } else if (!line.trim()) {
-      elements.push(<div key={keyIdx++} className="h-2" />)
-    } else {
-      elements.push(<p key={keyIdx++} className="text-sm leading-relaxed">{formatInline(line)}</p>)
-    }
-  }
-
-  // Handle unclosed code block
-  if (inCodeBlock && codeBlockLines.length > 0) {
-    elements.push(
-      <pre key={keyIdx++} className="p-3 rounded-lg bg-muted overflow-x-auto my-2">
-        <code className="text-xs font-mono text-foreground leading-relaxed">{codeBlockLines.join('\n')}</code>
-      </pre>
-    )
-  }
-
-  return <div className="space-y-1">{elements}</div>
+/**
+ * The stored history of `userId`. The unscoped pre-sign-in history is handed
+ * to the first user who signs in on this browser, then removed.
+ */
+function readLocalConversations(userId: string): string | null {
+  const stored = localStorage.getItem(conversationsKey(userId))
+  if (stored) return stored
+  const legacy = localStorage.getItem(LS_CONVERSATIONS_KEY)
+  localStorage.removeItem(LS_CONVERSATIONS_KEY)
+  localStorage.removeItem(LS_LEGACY_USER_ID_KEY)
+  return legacy
 }
 
 // ─── Typing Indicator ─────────────────────────────────────────────────────────
@@ -178,7 +108,7 @@ function TypingIndicator() {
   return (
     <div className="flex items-end gap-3 max-w-[80%]">
       <div className="flex-shrink-0 w-8 h-8 rounded-full bg-accent flex items-center justify-center">
-        <RiRobot2Line className="w-4 h-4 text-accent-foreground" />
+        <Bot className="w-4 h-4 text-accent-foreground" />
       </div>
       <div className="bg-secondary rounded-2xl rounded-bl-md px-4 py-3">
         <div className="flex items-center gap-1.5">
@@ -204,7 +134,7 @@ function WelcomeScreen({ onSendStarter }: { onSendStarter: (msg: string) => void
     <div className="flex-1 flex items-center justify-center p-6">
       <div className="text-center max-w-md space-y-6">
         <div className="mx-auto w-16 h-16 rounded-2xl bg-accent/20 flex items-center justify-center">
-          <RiRobot2Line className="w-8 h-8 text-accent" />
+          <Bot className="w-8 h-8 text-accent" />
         </div>
         <div className="space-y-2">
           <h2 className="font-serif text-2xl font-bold tracking-wide text-foreground">Welcome to SimpleChat</h2>
@@ -229,102 +159,15 @@ function WelcomeScreen({ onSendStarter }: { onSendStarter: (msg: string) => void
   )
 }
 
-// ─── Chat Message Bubble ──────────────────────────────────────────────────────
-
-function MessageBubble({ message, onRetry }: { message: ChatMessage; onRetry?: () => void }) {
-  const isUser = message.role === 'user'
-
-  return (
-    <div className={cn('flex items-end gap-3 max-w-[80%]', isUser ? 'ml-auto flex-row-reverse' : '')}>
-      {!isUser && (
-        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-accent flex items-center justify-center">
-          <RiRobot2Line className="w-4 h-4 text-accent-foreground" />
-        </div>
-      )}
-      {isUser && (
-        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted flex items-center justify-center">
-          <RiUserLine className="w-4 h-4 text-muted-foreground" />
-        </div>
-      )}
-      <div
-        className={cn(
-          'rounded-2xl px-4 py-3',
-          isUser ? 'bg-accent text-accent-foreground rounded-br-md' : 'bg-secondary text-secondary-foreground rounded-bl-md',
-          message.error ? 'border border-destructive/50' : ''
-        )}
-      >
-        {isUser ? (
-          <p className="text-sm whitespace-pre-wrap leading-relaxed font-sans">{message.content}</p>
-        ) : (
-          <div className="text-sm text-secondary-foreground font-sans">{renderMarkdown(message.content)}</div>
-        )}
-        {message.error && onRetry && (
-          <div className="mt-2 flex items-center gap-2">
-            <RiAlertLine className="w-3.5 h-3.5 text-destructive" />
-            <span className="text-xs text-destructive">Failed to send.</span>
-            <button onClick={onRetry} className="text-xs text-accent underline hover:no-underline flex items-center gap-1">
-              <RiRefreshLine className="w-3 h-3" />
-              Retry
-            </button>
-          </div>
-        )}
-      </div>
-    </div>
-  )
-}
-
-// ─── Sidebar Conversation Item ────────────────────────────────────────────────
-
-function ConversationItem({
-  conversation,
-  isActive,
-  onClick,
-  onDelete,
-}: {
-  conversation: Conversation
-  isActive: boolean
-  onClick: () => void
-  onDelete: (e: React.MouseEvent) => void
-}) {
-  const preview =
-    conversation.messages.length > 0 ? truncateText(conversation.messages[0].content, 50) : 'New conversation'
-
-  return (
-    <button
-      onClick={onClick}
-      className={cn(
-        'w-full text-left px-3 py-3 rounded-lg transition-all duration-200 group relative',
-        isActive ? 'bg-sidebar-accent border border-sidebar-border' : 'hover:bg-sidebar-accent/50'
-      )}
-    >
-      <div className="flex items-start gap-2.5">
-        <RiChat1Line className={cn('w-4 h-4 mt-0.5 flex-shrink-0', isActive ? 'text-sidebar-primary' : 'text-muted-foreground')} />
-        <div className="flex-1 min-w-0">
-          <p className={cn('text-sm font-medium truncate', isActive ? 'text-sidebar-foreground' : 'text-sidebar-foreground/80')}>{conversation.title}</p>
-          <p className="text-xs text-muted-foreground truncate mt-0.5">{preview}</p>
-        </div>
-        <span className="text-[10px] text-muted-foreground flex-shrink-0 mt-0.5">{formatTime(conversation.updatedAt)}</span>
-      </div>
-      <button
-        onClick={onDelete}
-        className="absolute top-2 right-2 p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-destructive/20 transition-opacity"
-        title="Delete conversation"
-      >
-        <RiDeleteBinLine className="w-3.5 h-3.5 text-muted-foreground hover:text-destructive" />
-      </button>
-    </button>
-  )
-}
-
 // ─── Agent Info Footer ────────────────────────────────────────────────────────
 
-function AgentInfoFooter({ isActive }: { isActive: boolean }) {
+function AgentInfoFooter({ isActive, agentName }: { isActive: boolean; agentName: string }) {
   return (
     <div className="px-3 py-3 border-t border-sidebar-border">
       <div className="flex items-center gap-2">
         <div className={cn('w-2 h-2 rounded-full', isActive ? 'bg-accent animate-pulse' : 'bg-muted-foreground/40')} />
         <div className="flex-1 min-w-0">
-          <p className="text-xs font-medium text-sidebar-foreground truncate">Chat Agent</p>
+          <p className="text-xs font-medium text-sidebar-foreground truncate">{agentName}</p>
           <p className="text-[10px] text-muted-foreground truncate">{isActive ? 'Processing...' : 'Ready'}</p>
         </div>
         <Badge variant="outline" className="text-[9px] px-1.5 py-0 h-4 border-sidebar-border text-muted-foreground">
@@ -335,6 +178,39 @@ function AgentInfoFooter({ isActive }: { isActive: boolean }) {
   )
 }
 
+// ─── Agent Picker ─────────────────────────────────────────────────────────────
+
+function AgentPicker({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string
+  onChange: (agentId: string) => void
+  disabled?: boolean
+}) {
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled || AGENTS.length === 0}>
+      <SelectTrigger className="h-8 w-[180px] text-xs font-sans" title="Agent for this conversation">
+        <SelectValue placeholder="Select agent" />
+      </SelectTrigger>
+      <SelectContent>
+        {AGENTS.map((agent) => {
+          const capabilities = describeCapabilities(agent.capabilities)
+          return (
+            <SelectItem key={agent.id} value={agent.id} className="text-xs">
+              <span className="font-medium">{agent.name}</span>
+              {capabilities.length > 0 && (
+                <span className="ml-2 text-[10px] text-muted-foreground">{capabilities.join(' · ')}</span>
+              )}
+            </SelectItem>
+          )
+        })}
+      </SelectContent>
+    </Select>
+  )
+}
+
 // ─── Main Page Component ──────────────────────────────────────────────────────
 
 export default function Page() {
@@ -342,16 +218,38 @@ export default function Page() {
   const [conversations, setConversations] = useState<Conversation[]>([])
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null)
   const [inputValue, setInputValue] = useState('')
-  const [isLoading, setIsLoading] = useState(false)
-  const [userId, setUserId] = useState<string>('')
+  // Conversations waiting for a reply; requests in different conversations run concurrently
+  const [busyConversationIds, setBusyConversationIds] = useState<Set<string>>(new Set())
+  const [user, setUser] = useState<AuthUser | null>(null)
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const [showActivityPanel, setShowActivityPanel] = useState(false)
-  const [retryMessage, setRetryMessage] = useState<string | null>(null)
   const [mounted, setMounted] = useState(false)
+  const [syncReady, setSyncReady] = useState(false)
+  // Agent for the next new conversation (follows the last one picked)
+  const [preferredAgentId, setPreferredAgentId] = useState(DEFAULT_AGENT_ID)
 
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const attachments = useAttachments()
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [paletteOpen, setPaletteOpen] = useState(false)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
+  const [importStatus, setImportStatus] = useState<{ text: string; error: boolean } | null>(null)
+  // When the server's daily message quota allows sending again
+  const [quotaRetryAt, setQuotaRetryAt] = useState<number | null>(null)
+  const importInputRef = useRef<{ open: () => void }>(null)
   const conversationsRef = useRef<Conversation[]>([])
+  // Mirrors busyConversationIds synchronously so back-to-back sends see the latest state
+  const busyRef = useRef<Set<string>>(new Set())
+  // conversation id → controller of its in-flight request
+  const abortControllersRef = useRef<Map<string, AbortController>>(new Map())
+  const messageQueue = useMessageQueue()
+  // conversation id → branch length last sent for summarizing
+  const summaryAttemptsRef = useRef<Map<string, number>>(new Map())
+  // conversation id → updatedAt last confirmed by the server
+  const syncedVersionsRef = useRef<Map<string, number>>(new Map())
 
   // Keep ref in sync
   useEffect(() => {
@@ -359,65 +257,170 @@ export default function Page() {
   }, [conversations])
 
   // ── Derived ─────────────────────────────────────────────────────────────────
+  const userId = user?.id ?? ''
   const activeConversation = conversations.find((c) => c.id === activeConversationId) ?? null
   const activeSessionId = activeConversation?.sessionId ?? null
-  const messages = activeConversation?.messages ?? []
+  const activeAgentId = activeConversation?.agentId ?? (activeConversation ? DEFAULT_AGENT_ID : preferredAgentId)
+  const activeAgent = getAgent(activeAgentId)
+  const messages = activeConversation ? getActivePath(activeConversation) : []
+  const lastMessageContent = messages[messages.length - 1]?.content
+  const isLoading = activeConversationId !== null && busyConversationIds.has(activeConversationId)
+  const queuedMessages = (activeConversationId && messageQueue.queues[activeConversationId]) || []
 
   // ── Agent Activity Monitoring ───────────────────────────────────────────────
-  const agentActivity = useLyzrAgentEvents(activeSessionId)
+  const agentActivity = useLyzrAgentEvents(activeSessionId, userId)
+  const { setProcessing: setAgentProcessing } = agentActivity
+
+  // Events follow the active conversation's session, so does the processing flag
+  useEffect(() => {
+    setAgentProcessing(isLoading)
+  }, [isLoading, setAgentProcessing])
 
   // ── Mount & Init ────────────────────────────────────────────────────────────
   useEffect(() => {
     setMounted(true)
 
-    // Load or create user_id
-    let storedUserId = ''
-    try {
-      storedUserId = localStorage.getItem(LS_USER_ID_KEY) ?? ''
-    } catch {
-      // localStorage unavailable
-    }
-    if (!storedUserId) {
-      storedUserId = generateId()
+    getCurrentUser().then((auth) => {
+      if (!auth.success || !auth.user) {
+        redirectToSignIn()
+        return
+      }
+      const signedIn = auth.user
+      setUser(signedIn)
+
+      // Load conversations
+      let localConversations: Conversation[] = []
       try {
-        localStorage.setItem(LS_USER_ID_KEY, storedUserId)
+        const stored = readLocalConversations(signedIn.id)
+        if (stored) {
+          const parsed = JSON.parse(stored)
+          if (Array.isArray(parsed) && parsed.length > 0) {
+            // A reload mid-stream leaves the partial reply flagged as streaming
+            localConversations = parsed.map((c: Conversation) => ({
+              ...c,
+              messages: c.messages.map((m) => (m.streaming ? { ...m, streaming: false } : m)),
+            }))
+            setConversations(localConversations)
+            setActiveConversationId(localConversations[0].id)
+          }
+        }
       } catch {
         // ignore
       }
-    }
-    setUserId(storedUserId)
 
-    // Load conversations
-    try {
-      const stored = localStorage.getItem(LS_CONVERSATIONS_KEY)
-      if (stored) {
-        const parsed = JSON.parse(stored)
-        if (Array.isArray(parsed) && parsed.length > 0) {
-          setConversations(parsed)
-          setActiveConversationId(parsed[0].id)
+      // Merge with server-side history (migrates localStorage on first run)
+      syncConversations(localConversations).then((result) => {
+        if (result.success) {
+          result.conversations.forEach((c) => syncedVersionsRef.current.set(c.id, c.updatedAt))
+          setConversations((prev) => mergeConversations(prev, result.conversations))
+          setActiveConversationId((prev) => prev ?? result.conversations[0]?.id ?? null)
         }
-      }
-    } catch {
-      // ignore
-    }
+        setSyncReady(true)
+      })
+    })
   }, [])
 
   // ── Persist conversations ───────────────────────────────────────────────────
   useEffect(() => {
-    if (!mounted) return
+    if (!mounted || !userId) return
     try {
-      localStorage.setItem(LS_CONVERSATIONS_KEY, JSON.stringify(conversations))
+      localStorage.setItem(conversationsKey(userId), JSON.stringify(conversations))
     } catch {
       // ignore
     }
-  }, [conversations, mounted])
+  }, [conversations, mounted, userId])
+
+  // ── Sync changed conversations to the server ────────────────────────────────
+  useEffect(() => {
+    if (!syncReady || !userId) return
+    const timer = setTimeout(() => {
+      for (const convo of conversations) {
+        if (convo.messages.some((m) => m.streaming)) continue
+        if (syncedVersionsRef.current.get(convo.id) === convo.updatedAt) continue
+
+        syncedVersionsRef.current.set(convo.id, convo.updatedAt)
+        saveConversation(convo).then((result) => {
+          if (!result.success) {
+            // Retry with the next change
+            syncedVersionsRef.current.delete(convo.id)
+            return
+          }
+          const stored = result.conversation
+          if (result.conflict && stored) {
+            // Another device saved a newer version
+            syncedVersionsRef.current.set(stored.id, stored.updatedAt)
+            setConversations((prev) =>
+              prev.map((c) => (c.id === stored.id && c.updatedAt < stored.updatedAt ? stored : c))
+            )
+          }
+        })
+      }
+    }, SYNC_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [conversations, syncReady, userId])
 
   // ── Auto-scroll ─────────────────────────────────────────────────────────────
   useEffect(() => {
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' })
     }
-  }, [messages.length, isLoading])
+  }, [messages.length, lastMessageContent, isLoading])
+
+  // ── Search ──────────────────────────────────────────────────────────────────
+  // The index catches up with `conversations` lazily, only when a search runs
+  const searchIndex = useMemo(() => createSearchIndex(), [])
+  const searchMessages = useCallback(
+    (query: string, limit?: number) => {
+      searchIndex.update(conversations)
+      return searchIndex.search(query, limit)
+    },
+    [searchIndex, conversations]
+  )
+  const sidebarResults = useMemo(
+    () => (searchQuery.trim() ? searchMessages(searchQuery) : []),
+    [searchMessages, searchQuery]
+  )
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        setPaletteOpen((open) => !open)
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [])
+
+  // Scroll a jumped-to message into view (after the bottom auto-scroll) and flash it
+  useEffect(() => {
+    if (!highlightedMessageId) return
+    const frame = requestAnimationFrame(() => {
+      document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    })
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500)
+    return () => {
+      cancelAnimationFrame(frame)
+      clearTimeout(timer)
+    }
+  }, [highlightedMessageId, activeConversationId])
+
+  // ── Generate a title and summary after exchanges ────────────────────────────
+  useEffect(() => {
+    if (!userId || isLoading || !activeConversation || !needsSummary(activeConversation)) return
+    const convo = activeConversation
+    const messageCount = getActivePath(convo).length
+    // One attempt per branch length; a failure is retried after the next exchange
+    if (summaryAttemptsRef.current.get(convo.id) === messageCount) return
+    summaryAttemptsRef.current.set(convo.id, messageCount)
+
+    summarizeConversation(convo).then((result) => {
+      if (!result.success) return
+      setConversations((prev) =>
+        prev.map((c) => (c.id === convo.id ? { ...c, ...summaryPatch(c, result, messageCount), updatedAt: Date.now() } : c))
+      )
+    })
+  }, [activeConversation, isLoading, userId])
 
   // ── Create a new conversation ───────────────────────────────────────────────
   const createNewConversation = useCallback((): Conversation => {
@@ -429,74 +432,104 @@ export default function Page() {
       messages: [],
       createdAt: now,
       updatedAt: now,
+      agentId: preferredAgentId,
     }
     setConversations((prev) => [newConvo, ...prev])
     setActiveConversationId(newConvo.id)
     setSidebarOpen(false)
     return newConvo
-  }, [])
-
-  // ── Send message to agent ───────────────────────────────────────────────────
-  const sendMessage = useCallback(
-    async (messageText: string, conversationOverride?: Conversation) => {
-      const trimmed = messageText.trim()
-      if (!trimmed || isLoading) return
-
-      setRetryMessage(null)
+  }, [preferredAgentId])
 
-      // Determine which conversation to use
-      let targetConvo = conversationOverride ?? activeConversation
-      if (!targetConvo) {
-        targetConvo = createNewConversation()
-      }
+  // ── Track which conversations are waiting for a reply ───────────────────────
+  const setConversationBusy = useCallback((convoId: string, busy: boolean) => {
+    if (busy) busyRef.current.add(convoId)
+    else busyRef.current.delete(convoId)
+    setBusyConversationIds(new Set(busyRef.current))
+  }, [])
 
+  // ── Stream an assistant reply to a user message ─────────────────────────────
+  const requestReply = useCallback(
+    async (targetConvo: Conversation, userMsg: ChatMessage) => {
       const targetConvoId = targetConvo.id
-      const targetSessionId = targetConvo.sessionId
-
-      const userMsg: ChatMessage = {
-        id: generateId(),
-        role: 'user',
-        content: trimmed,
+      setConversationBusy(targetConvoId, true)
+
+      // Placeholder assistant message that tokens are streamed into
+      const assistantId = generateId()
+      const assistantPlaceholder: ChatMessage = {
+        id: assistantId,
+        role: 'assistant',
+        content: '',
         timestamp: Date.now(),
+        streaming: true,
+        parentId: userMsg.id,
       }
-
-      // Derive title from first user message
-      const isFirstMessage = targetConvo.messages.length === 0
-      const newTitle = isFirstMessage ? truncateText(trimmed, 40) : targetConvo.title
-
-      // Add user message to conversation
       setConversations((prev) =>
         prev.map((c) =>
           c.id === targetConvoId
-            ? { ...c, title: newTitle, messages: [...c.messages, userMsg], updatedAt: Date.now() }
+            ? { ...c, messages: [...c.messages, assistantPlaceholder], activeLeafId: assistantId }
             : c
         )
       )
 
-      setInputValue('')
-      setIsLoading(true)
-      agentActivity.setProcessing(true)
-
-      // Reset textarea height
-      if (inputRef.current) {
-        inputRef.current.style.height = 'auto'
+      const updateAssistant = (patch: Partial<ChatMessage>) => {
+        setConversations((prev) =>
+          prev.map((c) =>
+            c.id === targetConvoId
+              ? {
+                  ...c,
+                  messages: c.messages.map((m) => (m.id === assistantId ? { ...m, ...patch } : m)),
+                  updatedAt: Date.now(),
+                }
+              : c
+          )
+        )
       }
 
+      const controller = new AbortController()
+      abortControllersRef.current.set(targetConvoId, controller)
+      let streamedText = ''
+
       try {
-        const result = await callAIAgent(trimmed, CHAT_AGENT_ID, {
-          user_id: userId,
-          session_id: targetSessionId,
+        const result = await streamAIAgent(agentMessageText(userMsg), targetConvo.agentId ?? DEFAULT_AGENT_ID, {
+          session_id: targetConvo.sessionId,
+          assets: userMsg.attachments?.map((a) => a.assetId),
+          signal: controller.signal,
+          onToken: (_chunk, accumulated) => {
+            streamedText = extractStreamingText(accumulated)
+            updateAssistant({ content: streamedText })
+          },
         })
 
+        if (controller.signal.aborted || result.error_code === 'cancelled') {
+          updateAssistant({ content: streamedText, streaming: false, stopReason: 'cancelled' })
+          return
+        }
+
+        // Keep whatever arrived before the agent went quiet
+        if (result.error_code === 'timeout') {
+          updateAssistant({ content: streamedText, timestamp: Date.now(), error: true, streaming: false, stopReason: 'timeout' })
+          return
+        }
+
+        // The server's explanation is friendlier than the generic failure text
+        if (result.error_code === 'rate_limited' || result.error_code === 'quota_exceeded') {
+          updateAssistant({ content: result.error || '', timestamp: Date.now(), error: true, streaming: false })
+          if (result.error_code === 'quota_exceeded' && result.retry_at) setQuotaRetryAt(result.retry_at)
+          return
+        }
+
         let responseText = ''
 
         if (result.success) {
-          // Try extractText first (handles many edge cases)
-          responseText = extractText(result.response)
+          // A payload matching the chat agent's declared schema is authoritative
+          const typed = toTypedResponse(result, isChatAgentResult)
+          if (typed.data) {
+            responseText = typed.data.response
+          }
 
-          // Fallback: direct accessor for this agent's schema
-          if (!responseText && result.response?.result?.response) {
-            responseText = result.response.result.response
+          // Otherwise fall back to extractText (handles many edge cases)
+          if (!responseText) {
+            responseText = extractText(result.response)
           }
 
           // Final fallback
@@ -505,79 +538,282 @@ export default function Page() {
           }
         }
 
-        const assistantMsg: ChatMessage = {
-          id: generateId(),
-          role: 'assistant',
+        // Coerce to the stored shape so a loose upstream entry cannot fail conversation validation
+        const artifacts: ArtifactFile[] = result.success
+          ? (result.module_outputs?.artifact_files ?? [])
+              .filter((a) => a && typeof a.file_url === 'string')
+              .map((a) => ({ file_url: a.file_url, name: a.name || '', format_type: a.format_type || '' }))
+          : []
+
+        updateAssistant({
           content: responseText || 'Something went wrong. Please try again.',
           timestamp: Date.now(),
           error: !result.success,
-        }
-
-        if (!result.success) {
-          setRetryMessage(trimmed)
-        }
-
-        setConversations((prev) =>
-          prev.map((c) =>
-            c.id === targetConvoId ? { ...c, messages: [...c.messages, assistantMsg], updatedAt: Date.now() } : c
-          )
-        )
+          streaming: false,
+          ...(artifacts.length > 0 && { artifacts }),
+        })
       } catch {
-        const errorMsg: ChatMessage = {
-          id: generateId(),
-          role: 'assistant',
+        updateAssistant({
           content: 'A network error occurred. Please check your connection and try again.',
           timestamp: Date.now(),
           error: true,
+          streaming: false,
+        })
+      } finally {
+        abortControllersRef.current.delete(targetConvoId)
+        setConversationBusy(targetConvoId, false)
+      }
+    },
+    [setConversationBusy]
+  )
+
+  // ── Send message to agent ───────────────────────────────────────────────────
+  const sendMessage = useCallback(
+    async (
+      messageText: string,
+      options?: {
+        conversation?: Conversation
+        /** Branch point for an edited message; defaults to the end of the active branch */
+        parentId?: string | null
+        attachments?: MessageAttachment[]
+      }
+    ) => {
+      const trimmed = messageText.trim()
+      const attachments = options?.attachments ?? []
+      if (!trimmed && attachments.length === 0) return
+
+      // Determine which conversation to use
+      let targetConvo = options?.conversation ?? activeConversation
+      if (!targetConvo) {
+        targetConvo = createNewConversation()
+      }
+
+      const targetConvoId = targetConvo.id
+      const isEdit = options?.parentId !== undefined
+
+      if (busyRef.current.has(targetConvoId)) {
+        // Edits branch from a fixed point, so only new messages can wait their turn
+        if (isEdit) return
+        messageQueue.enqueue(targetConvoId, { text: trimmed, attachments })
+        setInputValue('')
+        if (inputRef.current) {
+          inputRef.current.style.height = 'auto'
         }
-        setRetryMessage(trimmed)
-        setConversations((prev) =>
-          prev.map((c) =>
-            c.id === targetConvoId ? { ...c, messages: [...c.messages, errorMsg], updatedAt: Date.now() } : c
-          )
+        return
+      }
+
+      const userMsg: ChatMessage = {
+        id: generateId(),
+        role: 'user',
+        content: trimmed,
+        timestamp: Date.now(),
+        parentId: isEdit ? options?.parentId : getActiveLeafId(targetConvo),
+        ...(attachments.length > 0 && { attachments }),
+      }
+
+      // Derive title from first user message, unless the user already renamed the empty chat
+      const autoTitle = targetConvo.messages.length === 0 && targetConvo.autoTitled !== false
+      const newTitle = autoTitle ? truncateText(trimmed || attachments[0].name, 40) : targetConvo.title
+
+      // Add user message to conversation
+      setConversations((prev) =>
+        prev.map((c) =>
+          c.id === targetConvoId
+            ? {
+                ...c,
+                title: newTitle,
+                ...(autoTitle && { autoTitled: true }),
+                messages: [...c.messages, userMsg],
+                activeLeafId: userMsg.id,
+                updatedAt: Date.now(),
+              }
+            : c
         )
-      } finally {
-        setIsLoading(false)
-        agentActivity.setProcessing(false)
+      )
+
+      if (!isEdit) {
+        setInputValue('')
+
+        // Reset textarea height
+        if (inputRef.current) {
+          inputRef.current.style.height = 'auto'
+        }
       }
+
+      await requestReply(targetConvo, userMsg)
     },
-    [activeConversation, isLoading, userId, createNewConversation, agentActivity]
+    [activeConversation, createNewConversation, requestReply, messageQueue]
   )
 
+  // ── Send queued messages once their conversation is free ────────────────────
+  useEffect(() => {
+    for (const [convoId, queued] of Object.entries(messageQueue.queues)) {
+      if (queued.length === 0 || busyRef.current.has(convoId)) continue
+      const convo = conversationsRef.current.find((c) => c.id === convoId)
+      if (!convo) {
+        messageQueue.clear(convoId)
+        continue
+      }
+      const [next] = queued
+      messageQueue.remove(convoId, next.id)
+      sendMessage(next.text, { conversation: convo, attachments: next.attachments })
+    }
+  }, [messageQueue, busyConversationIds, sendMessage])
+
+  // ── Lift the quota notice once the quota resets ─────────────────────────────
+  useEffect(() => {
+    if (quotaRetryAt === null) return
+    const timer = setTimeout(() => setQuotaRetryAt(null), Math.max(0, quotaRetryAt - Date.now()))
+    return () => clearTimeout(timer)
+  }, [quotaRetryAt])
+
+  // ── Edit a user message and resend it as a new branch ───────────────────────
+  const editMessage = (message: ChatMessage, newText: string) => {
+    if (!activeConversation) return
+    const idx = messages.findIndex((m) => m.id === message.id)
+    if (idx === -1) return
+    sendMessage(newText, {
+      conversation: activeConversation,
+      parentId: idx > 0 ? messages[idx - 1].id : null,
+      attachments: message.attachments,
+    })
+  }
+
+  // ── Regenerate an assistant reply as a new branch ───────────────────────────
+  const regenerateMessage = (message: ChatMessage) => {
+    if (!activeConversation || busyRef.current.has(activeConversation.id)) return
+    const idx = messages.findIndex((m) => m.id === message.id)
+    const userMsg = idx > 0 ? messages[idx - 1] : null
+    if (!userMsg || userMsg.role !== 'user') return
+    requestReply(activeConversation, userMsg)
+  }
+
+  // ── Change the agent of the active conversation ─────────────────────────────
+  const selectAgent = (agentId: string) => {
+    setPreferredAgentId(agentId)
+    if (!activeConversationId) return
+    setConversations((prev) =>
+      prev.map((c) => (c.id === activeConversationId ? { ...c, agentId, updatedAt: Date.now() } : c))
+    )
+  }
+
+  // ── Switch between sibling versions of a message ────────────────────────────
+  const selectBranch = (messageId: string) => {
+    setConversations((prev) =>
+      prev.map((c) =>
+        c.id === activeConversationId ? { ...c, activeLeafId: getLatestLeaf(c, messageId), updatedAt: Date.now() } : c
+      )
+    )
+  }
+
+  // ── Open a search hit, switching to the branch that contains it ─────────────
+  const jumpToMessage = (result: SearchResult) => {
+    setConversations((prev) =>
+      prev.map((c) => {
+        if (c.id !== result.conversationId) return c
+        if (getActivePath(c).some((m) => m.id === result.messageId)) return c
+        return { ...c, activeLeafId: getLatestLeaf(c, result.messageId), updatedAt: Date.now() }
+      })
+    )
+    setActiveConversationId(result.conversationId)
+    setHighlightedMessageId(result.messageId)
+    setSidebarOpen(false)
+  }
+
+  // ── Cancel in-flight response ───────────────────────────────────────────────
+  const cancelMessage = () => {
+    if (activeConversationId) abortControllersRef.current.get(activeConversationId)?.abort()
+  }
+
+  // ── Send the composer's text and attachments ────────────────────────────────
+  const canSubmit =
+    (!!inputValue.trim() || attachments.uploaded.length > 0) && attachments.isReady && quotaRetryAt === null
+  const submitComposer = () => {
+    if (!canSubmit) return
+    sendMessage(inputValue, { attachments: attachments.uploaded })
+    attachments.clear()
+  }
+
+  // ── Attach files by drop, paste or picker ───────────────────────────────────
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setIsDraggingFiles(false)
+    if (e.dataTransfer.files.length > 0) attachments.addFiles(e.dataTransfer.files)
+  }
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    if (e.clipboardData.files.length === 0) return
+    e.preventDefault()
+    attachments.addFiles(e.clipboardData.files)
+  }
+
   // ── Handle enter key ───────────────────────────────────────────────────────
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
-      sendMessage(inputValue)
+      submitComposer()
     }
   }
 
-  // ── Delete conversation ─────────────────────────────────────────────────────
-  const deleteConversation = (convoId: string, e: React.MouseEvent) => {
-    e.stopPropagation()
+  // ── Organize conversations (rename, pin, folders, tags, archive) ───────────
+  const updateConversations = (ids: string[], patch: (conversation: Conversation) => Partial<Conversation>) => {
+    const targets = new Set(ids)
+    const now = Date.now()
+    setConversations((prev) => prev.map((c) => (targets.has(c.id) ? { ...c, ...patch(c), updatedAt: now } : c)))
+  }
+
+  // ── Delete conversations ────────────────────────────────────────────────────
+  const deleteConversations = (ids: string[]) => {
+    const targets = new Set(ids)
+    for (const convoId of ids) {
+      abortControllersRef.current.get(convoId)?.abort()
+      messageQueue.clear(convoId)
+      syncedVersionsRef.current.delete(convoId)
+      deleteStoredConversation(convoId)
+    }
     setConversations((prev) => {
-      const remaining = prev.filter((c) => c.id !== convoId)
-      if (activeConversationId === convoId) {
+      const remaining = prev.filter((c) => !targets.has(c.id))
+      if (activeConversationId && targets.has(activeConversationId)) {
         setActiveConversationId(remaining.length > 0 ? remaining[0].id : null)
       }
       return remaining
     })
   }
 
-  // ── Retry failed message ────────────────────────────────────────────────────
-  const handleRetry = () => {
-    if (retryMessage) {
-      sendMessage(retryMessage)
+  // ── Import conversations from a JSON export ─────────────────────────────────
+  const importConversations = (result: { success: boolean; conversations: Conversation[]; error?: string }) => {
+    if (!result.success) {
+      setImportStatus({ text: result.error || 'Import failed', error: true })
+      return
     }
+    const { added, updated } = mergeImported(conversations, result.conversations)
+    setConversations((prev) => mergeImported(prev, result.conversations).conversations)
+    setImportStatus({
+      text: added + updated > 0 ? `Imported ${added} new, ${updated} updated` : 'Nothing new to import',
+      error: false,
+    })
   }
 
+  useEffect(() => {
+    if (!importStatus) return
+    const timer = setTimeout(() => setImportStatus(null), 5000)
+    return () => clearTimeout(timer)
+  }, [importStatus])
+
   // ── Handle conversation starter click ───────────────────────────────────────
   const handleStarterClick = (msg: string) => {
     let targetConvo = activeConversation
     if (!targetConvo || targetConvo.messages.length > 0) {
       targetConvo = createNewConversation()
     }
-    sendMessage(msg, targetConvo)
+    sendMessage(msg, { conversation: targetConvo })
+  }
+
+  // ── Sign out ────────────────────────────────────────────────────────────────
+  const handleSignOut = async () => {
+    abortControllersRef.current.forEach((controller) => controller.abort())
+    await signOut()
+    window.location.href = '/login'
   }
 
   // ── Render ──────────────────────────────────────────────────────────────────
@@ -594,6 +830,8 @@ export default function Page() {
 
   return (
     <div className="h-screen w-screen bg-background flex overflow-hidden">
+      <SearchPalette open={paletteOpen} onOpenChange={setPaletteOpen} search={searchMessages} onSelect={jumpToMessage} />
+
       {/* ── Mobile Sidebar Overlay ─────────────────────────────────────────── */}
       {sidebarOpen && (
         <div className="fixed inset-0 bg-black/50 z-30 md:hidden" onClick={() => setSidebarOpen(false)} />
@@ -612,7 +850,7 @@ export default function Page() {
         <div className="flex items-center justify-between p-4">
           <h1 className="font-serif text-lg font-bold tracking-wide text-sidebar-foreground">SimpleChat</h1>
           <button className="md:hidden p-1 rounded hover:bg-sidebar-accent" onClick={() => setSidebarOpen(false)}>
-            <RiCloseLine className="w-5 h-5 text-sidebar-foreground" />
+            <X className="w-5 h-5 text-sidebar-foreground" />
           </button>
         </div>
 
@@ -623,46 +861,93 @@ export default function Page() {
             className="w-full justify-start gap-2 bg-accent text-accent-foreground hover:bg-accent/80 font-sans"
             size="sm"
           >
-            <RiAddLine className="w-4 h-4" />
+            <Plus className="w-4 h-4" />
             New Chat
           </Button>
         </div>
 
+        {/* Search */}
+        <div className="px-3 pb-3">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+            <input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setSearchQuery('')}
+              placeholder="Search messages"
+              className="w-full rounded-lg border border-sidebar-border bg-input pl-8 pr-12 py-1.5 text-xs text-foreground placeholder:text-muted-foreground font-sans focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+            {searchQuery ? (
+              <button
+                onClick={() => setSearchQuery('')}
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 rounded text-muted-foreground hover:text-foreground"
+                title="Clear search"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            ) : (
+              <kbd className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-muted-foreground font-sans border border-sidebar-border rounded px-1">
+                ⌘K
+              </kbd>
+            )}
+          </div>
+        </div>
+
         <Separator className="bg-sidebar-border" />
 
         {/* Conversation List */}
         <div className="flex-1 overflow-y-auto px-2 py-2 space-y-1">
-          {conversations.length === 0 ? (
-            <div className="text-center py-8">
-              <RiChat1Line className="w-8 h-8 mx-auto text-muted-foreground/30 mb-2" />
-              <p className="text-xs text-muted-foreground font-sans">No conversations yet</p>
-            </div>
+          {searchQuery.trim() ? (
+            <SearchResultList results={sidebarResults} query={searchQuery.trim()} onSelect={jumpToMessage} />
           ) : (
-            conversations.map((convo) => (
-              <ConversationItem
-                key={convo.id}
-                conversation={convo}
-                isActive={convo.id === activeConversationId}
-                onClick={() => {
-                  setActiveConversationId(convo.id)
-                  setSidebarOpen(false)
-                }}
-                onDelete={(e) => deleteConversation(convo.id, e)}
-              />
-            ))
+            <ConversationList
+              conversations={conversations}
+              activeId={activeConversationId}
+              onSelect={(id) => {
+                setActiveConversationId(id)
+                setSidebarOpen(false)
+              }}
+              onUpdate={updateConversations}
+              onDelete={deleteConversations}
+            />
+          )}
+        </div>
+
+        {/* Export / Import */}
+        <div className="px-3 pt-2 border-t border-sidebar-border">
+          <div className="flex gap-1">
+            <ExportMenu conversations={conversations} label="Export all conversations">
+              <button className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg text-xs font-sans text-muted-foreground hover:bg-sidebar-accent transition-colors disabled:opacity-40">
+                <Download className="w-3.5 h-3.5" />
+                Export all
+              </button>
+            </ExportMenu>
+            <button
+              onClick={() => importInputRef.current?.open()}
+              className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg text-xs font-sans text-muted-foreground hover:bg-sidebar-accent transition-colors"
+            >
+              <Upload className="w-3.5 h-3.5" />
+              Import
+            </button>
+            <ImportConversationsInput ref={importInputRef} onResult={importConversations} />
+          </div>
+          {importStatus && (
+            <p className={cn('text-[11px] font-sans px-1 pt-1 break-words', importStatus.error ? 'text-destructive' : 'text-muted-foreground')}>
+              {importStatus.text}
+            </p>
           )}
         </div>
 
         {/* Agent Activity Toggle */}
-        <div className="px-3 py-2 border-t border-sidebar-border">
+        <div className="px-3 py-2">
           <button
             onClick={() => setShowActivityPanel((prev) => !prev)}
             className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-sans text-muted-foreground hover:bg-sidebar-accent transition-colors"
           >
             {agentActivity.isConnected ? (
-              <RiSignalWifiLine className="w-3.5 h-3.5 text-accent" />
+              <Wifi className="w-3.5 h-3.5 text-accent" />
             ) : (
-              <RiSignalWifiOffLine className="w-3.5 h-3.5" />
+              <WifiOff className="w-3.5 h-3.5" />
             )}
             <span>Agent Activity</span>
             {showActivityPanel && (
@@ -673,8 +958,34 @@ export default function Page() {
           </button>
         </div>
 
+        {/* Signed-in User */}
+        {user && (
+          <div className="px-3 pb-2 flex items-center gap-2">
+            <div className="flex-1 min-w-0 flex items-center gap-2 px-3 text-xs font-sans text-muted-foreground">
+              <User className="w-3.5 h-3.5 flex-shrink-0" />
+              <span className="truncate" title={user.username}>{user.username}</span>
+            </div>
+            <Link
+              href="/schedules"
+              className="p-1.5 rounded-lg text-muted-foreground hover:bg-sidebar-accent hover:text-foreground transition-colors"
+              title="Schedules"
+              aria-label="Schedules"
+            >
+              <CalendarClock className="w-3.5 h-3.5" />
+            </Link>
+            <button
+              onClick={handleSignOut}
+              className="p-1.5 rounded-lg text-muted-foreground hover:bg-sidebar-accent hover:text-foreground transition-colors"
+              title="Sign out"
+              aria-label="Sign out"
+            >
+              <LogOut className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+
         {/* Agent Info */}
-        <AgentInfoFooter isActive={isLoading} />
+        <AgentInfoFooter isActive={busyConversationIds.size > 0} agentName={activeAgent?.name ?? 'Agent'} />
       </aside>
 
       {/* ── Main Chat Area ─────────────────────────────────────────────────── */}
@@ -682,18 +993,36 @@ export default function Page() {
         {/* Chat Header */}
         <div className="flex items-center gap-3 px-4 py-3 border-b border-border bg-card flex-shrink-0">
           <button className="md:hidden p-1.5 rounded-lg hover:bg-secondary" onClick={() => setSidebarOpen(true)}>
-            <RiMenuLine className="w-5 h-5 text-foreground" />
+            <Menu className="w-5 h-5 text-foreground" />
           </button>
           <div className="flex-1 min-w-0">
-            <h2 className="text-sm font-serif font-semibold tracking-wide text-foreground truncate">
+            <h2
+              className="text-sm font-serif font-semibold tracking-wide text-foreground truncate"
+              title={activeConversation?.summary}
+            >
               {activeConversation?.title ?? 'New Chat'}
             </h2>
-            {activeConversation && activeConversation.messages.length > 0 && (
+            {messages.length > 0 && (
               <p className="text-[11px] text-muted-foreground font-sans">
-                {activeConversation.messages.length} message{activeConversation.messages.length !== 1 ? 's' : ''}
+                {messages.length} message{messages.length !== 1 ? 's' : ''}
               </p>
             )}
           </div>
+          <AgentPicker value={activeAgentId} onChange={selectAgent} disabled={isLoading} />
+          {activeConversation && activeConversation.messages.length > 0 && (
+            <ShareDialog conversation={activeConversation}>
+              <button className="p-1.5 rounded-lg hover:bg-secondary text-muted-foreground hover:text-foreground" title="Share conversation">
+                <Share2 className="w-4 h-4" />
+              </button>
+            </ShareDialog>
+          )}
+          {activeConversation && activeConversation.messages.length > 0 && (
+            <ExportMenu conversations={[activeConversation]} label="Export conversation">
+              <button className="p-1.5 rounded-lg hover:bg-secondary text-muted-foreground hover:text-foreground" title="Export conversation">
+                <Download className="w-4 h-4" />
+              </button>
+            </ExportMenu>
+          )}
           {isLoading && (
             <Badge variant="outline" className="text-[10px] px-2 py-0.5 border-accent text-accent animate-pulse">
               Thinking...
@@ -709,25 +1038,98 @@ export default function Page() {
               <WelcomeScreen onSendStarter={handleStarterClick} />
             ) : (
               <div className="flex-1 overflow-y-auto px-4 py-6 space-y-6">
-                {messages.map((msg) => (
-                  <MessageBubble key={msg.id} message={msg} onRetry={msg.error ? handleRetry : undefined} />
+                {messages.map((msg) => {
+                  const siblings = getSiblings(activeConversation, msg.id)
+                  const branchIndex = siblings.findIndex((m) => m.id === msg.id)
+                  return (
+                    <div
+                      key={msg.id}
+                      id={`message-${msg.id}`}
+                      className={cn(
+                        'rounded-2xl transition-colors duration-700',
+                        msg.id === highlightedMessageId ? 'bg-accent/10 ring-1 ring-accent/40' : ''
+                      )}
+                    >
+                      <MessageBubble
+                        message={msg}
+                        disabled={isLoading}
+                        onRetry={msg.error ? () => regenerateMessage(msg) : undefined}
+                        onEdit={msg.role === 'user' ? (text) => editMessage(msg, text) : undefined}
+                        onRegenerate={msg.role === 'assistant' ? () => regenerateMessage(msg) : undefined}
+                        branch={
+                          siblings.length > 1
+                            ? {
+                                index: branchIndex,
+                                total: siblings.length,
+                                onPrev: () => selectBranch(siblings[branchIndex - 1].id),
+                                onNext: () => selectBranch(siblings[branchIndex + 1].id),
+                              }
+                            : undefined
+                        }
+                      />
+                    </div>
+                  )
+                })}
+                {isLoading && !messages.some((m) => m.streaming) && <TypingIndicator />}
+                {queuedMessages.map((queued) => (
+                  <QueuedMessageBubble
+                    key={queued.id}
+                    content={queued.text}
+                    attachments={queued.attachments}
+                    onRemove={() => messageQueue.remove(activeConversationId!, queued.id)}
+                  />
                 ))}
-                {isLoading && <TypingIndicator />}
                 <div ref={messagesEndRef} />
               </div>
             )}
 
             {/* Input Bar */}
-            <div className="flex-shrink-0 border-t border-border bg-card p-4">
+            <div
+              className={cn('flex-shrink-0 border-t border-border bg-card p-4 transition-colors', isDraggingFiles ? 'bg-accent/10' : '')}
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes('Files')) return
+                e.preventDefault()
+                setIsDraggingFiles(true)
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false)
+              }}
+              onDrop={handleDrop}
+            >
+              {quotaRetryAt !== null && <QuotaNotice retryAt={quotaRetryAt} />}
+              <div className="max-w-3xl mx-auto">
+                <AttachmentTray items={attachments.items} onRemove={attachments.remove} onRetry={attachments.retry} />
+              </div>
               <div className="flex items-end gap-3 max-w-3xl mx-auto">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    if (e.target.files) attachments.addFiles(e.target.files)
+                    e.target.value = ''
+                  }}
+                />
+                <Button
+                  onClick={() => fileInputRef.current?.click()}
+                  size="icon"
+                  variant="ghost"
+                  title="Attach files"
+                  className="rounded-xl w-11 h-11 text-muted-foreground hover:text-foreground flex-shrink-0"
+                >
+                  <Paperclip className="w-5 h-5" />
+                </Button>
                 <div className="flex-1 relative">
                   <textarea
                     ref={inputRef}
                     value={inputValue}
                     onChange={(e) => setInputValue(e.target.value)}
                     onKeyDown={handleKeyDown}
-                    placeholder="Type a message..."
-                    disabled={isLoading}
+                    onPaste={handlePaste}
+                    placeholder={
+                      isDraggingFiles ? 'Drop files to attach' : isLoading ? 'Type a follow-up; it sends after this reply' : 'Type a message...'
+                    }
                     rows={1}
                     className="w-full resize-none rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground placeholder:text-muted-foreground font-sans leading-relaxed focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed max-h-32 overflow-y-auto"
                     onInput={(e) => {
@@ -737,20 +1139,27 @@ export default function Page() {
                     }}
                   />
                 </div>
+                {isLoading && (
+                  <Button
+                    onClick={cancelMessage}
+                    size="icon"
+                    title="Stop generating"
+                    className="rounded-xl w-11 h-11 bg-secondary text-secondary-foreground hover:bg-secondary/80 flex-shrink-0"
+                  >
+                    <Square className="w-4 h-4 fill-current" />
+                  </Button>
+                )}
                 <Button
-                  onClick={() => sendMessage(inputValue)}
-                  disabled={isLoading || !inputValue.trim()}
+                  onClick={submitComposer}
+                  disabled={!canSubmit}
                   size="icon"
+                  title={quotaRetryAt !== null ? 'Daily message limit reached' : isLoading ? 'Queue message' : 'Send message'}
                   className="rounded-xl w-11 h-11 bg-accent text-accent-foreground hover:bg-accent/80 disabled:opacity-40 flex-shrink-0"
                 >
-                  {isLoading ? (
-                    <div className="w-4 h-4 border-2 border-accent-foreground/30 border-t-accent-foreground rounded-full animate-spin" />
-                  ) : (
-                    <RiSendPlaneFill className="w-5 h-5" />
-                  )}
+                  <Send className="w-5 h-5" />
                 </Button>
               </div>
-              <p className="text-[10px] text-muted-foreground text-center mt-2 font-sans">Press Enter to send, Shift+Enter for a new line</p>
+              <p className="text-[10px] text-muted-foreground text-center mt-2 font-sans">Press Enter to send, Shift+Enter for a new line. Drop or paste files to attach.</p>
             </div>
           </div>
 
@@ -0,0 +1,253 @@
+'use client'
+
+import * as React from 'react'
+import Link from 'next/link'
+import { ArrowLeft, History, Loader2, Pencil, Play, Plus, RefreshCw, Trash2 } from 'lucide-react'
+import { cronToHuman, useScheduler, type Schedule } from '@/lib/scheduler'
+import { getAgent } from '@/lib/agentRegistry'
+import { ScheduleDialog } from '@/components/ScheduleDialog'
+import { ScheduleLogs } from '@/components/ScheduleLogs'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Switch } from '@/components/ui/switch'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+
+function formatTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—'
+}
+
+function LastRunBadge({ schedule }: { schedule: Schedule }) {
+  if (!schedule.last_run_at) return <span className="text-xs text-muted-foreground font-sans">Never run</span>
+  return (
+    <div className="space-y-1">
+      {schedule.last_run_success ? (
+        <Badge variant="secondary" className="text-[11px]">Success</Badge>
+      ) : (
+        <Badge variant="destructive" className="text-[11px]">Failed</Badge>
+      )}
+      <p className="text-[11px] text-muted-foreground font-sans">{formatTime(schedule.last_run_at)}</p>
+    </div>
+  )
+}
+
+export default function SchedulesPage() {
+  const { schedules, loading, error, fetchSchedules, toggleSchedule, trigger, remove } = useScheduler()
+  const [loaded, setLoaded] = React.useState(false)
+  const [busyId, setBusyId] = React.useState<string | null>(null)
+  const [notice, setNotice] = React.useState<string | null>(null)
+  const [dialogOpen, setDialogOpen] = React.useState(false)
+  const [editing, setEditing] = React.useState<Schedule | null>(null)
+  const [viewing, setViewing] = React.useState<Schedule | null>(null)
+  const [pendingDelete, setPendingDelete] = React.useState<Schedule | null>(null)
+
+  const refresh = React.useCallback(async () => {
+    await fetchSchedules()
+    setLoaded(true)
+  }, [fetchSchedules])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const runAction = async (schedule: Schedule, action: () => Promise<{ success: boolean }>, done?: string) => {
+    setBusyId(schedule.id)
+    setNotice(null)
+    const result = await action()
+    setBusyId(null)
+    if (result.success) {
+      if (done) setNotice(done)
+      // Pause, resume and trigger change the next and last run times upstream
+      await fetchSchedules()
+    }
+  }
+
+  const openCreate = () => {
+    setEditing(null)
+    setDialogOpen(true)
+  }
+
+  const openEdit = (schedule: Schedule) => {
+    setEditing(schedule)
+    setDialogOpen(true)
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card px-4 py-3">
+        <div className="max-w-5xl mx-auto flex items-center gap-3">
+          <Link
+            href="/"
+            className="p-1.5 rounded-lg text-muted-foreground hover:bg-secondary hover:text-foreground transition-colors"
+            title="Back to chat"
+            aria-label="Back to chat"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </Link>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-sm font-serif font-semibold tracking-wide text-foreground">Schedules</h1>
+            <p className="text-[11px] text-muted-foreground font-sans">Messages sent to your agents on a recurring schedule</p>
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 px-2"
+            title="Refresh"
+            disabled={loading}
+            onClick={refresh}
+          >
+            <RefreshCw className={loading ? 'w-3.5 h-3.5 animate-spin' : 'w-3.5 h-3.5'} />
+          </Button>
+          <Button onClick={openCreate} className="h-8 gap-1.5 text-xs bg-accent text-accent-foreground hover:bg-accent/80">
+            <Plus className="w-3.5 h-3.5" /> New schedule
+          </Button>
+        </div>
+      </header>
+
+      <main className="px-4 py-6">
+        <div className="max-w-5xl mx-auto space-y-3">
+          {error && <p className="text-xs text-destructive font-sans break-words">{error}</p>}
+          {notice && <p className="text-xs text-muted-foreground font-sans">{notice}</p>}
+
+          {!loaded ? (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="w-3 h-3 animate-spin" /> Loading…
+            </div>
+          ) : schedules.length === 0 ? (
+            <div className="rounded-2xl border border-dashed border-border p-10 text-center space-y-3">
+              <p className="text-sm text-muted-foreground font-sans">No schedules yet.</p>
+              <Button onClick={openCreate} variant="outline" className="h-8 gap-1.5 text-xs">
+                <Plus className="w-3.5 h-3.5" /> Create your first schedule
+              </Button>
+            </div>
+          ) : (
+            <div className="rounded-lg border border-border bg-card">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Agent</TableHead>
+                    <TableHead className="text-xs">Message</TableHead>
+                    <TableHead className="text-xs">Schedule</TableHead>
+                    <TableHead className="text-xs">Next run</TableHead>
+                    <TableHead className="text-xs">Last run</TableHead>
+                    <TableHead className="text-xs">Active</TableHead>
+                    <TableHead className="text-xs text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedules.map((schedule) => {
+                    const busy = busyId === schedule.id
+                    return (
+                      <TableRow key={schedule.id}>
+                        <TableCell className="text-xs font-sans">
+                          {getAgent(schedule.agent_id)?.name ?? <span className="font-mono">{schedule.agent_id}</span>}
+                        </TableCell>
+                        <TableCell className="text-xs font-sans max-w-[240px]">
+                          <p className="line-clamp-2" title={schedule.message}>{schedule.message}</p>
+                        </TableCell>
+                        <TableCell className="text-xs font-sans">
+                          <p>{cronToHuman(schedule.cron_expression)}</p>
+                          <p className="text-[11px] text-muted-foreground">{schedule.timezone}</p>
+                        </TableCell>
+                        <TableCell className="text-xs font-sans text-muted-foreground">
+                          {schedule.is_active ? formatTime(schedule.next_run_time) : 'Paused'}
+                        </TableCell>
+                        <TableCell>
+                          <LastRunBadge schedule={schedule} />
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={schedule.is_active}
+                            disabled={busy}
+                            onCheckedChange={() => runAction(schedule, () => toggleSchedule(schedule))}
+                            aria-label={schedule.is_active ? 'Pause schedule' : 'Resume schedule'}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center justify-end gap-0.5">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 px-2"
+                              title="Run now"
+                              disabled={busy}
+                              onClick={() =>
+                                runAction(schedule, () => trigger(schedule.id), 'Run started. It appears in the run history once it finishes.')
+                              }
+                            >
+                              {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+                            </Button>
+                            <Button size="sm" variant="ghost" className="h-7 px-2" title="Run history" onClick={() => setViewing(schedule)}>
+                              <History className="w-3.5 h-3.5" />
+                            </Button>
+                            <Button size="sm" variant="ghost" className="h-7 px-2" title="Edit" disabled={busy} onClick={() => openEdit(schedule)}>
+                              <Pencil className="w-3.5 h-3.5" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 px-2 text-destructive hover:text-destructive"
+                              title="Delete"
+                              disabled={busy}
+                              onClick={() => setPendingDelete(schedule)}
+                            >
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <ScheduleDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        schedule={editing}
+        onSaved={() => {
+          setNotice(null)
+          fetchSchedules()
+        }}
+      />
+
+      <ScheduleLogs schedule={viewing} onOpenChange={(open) => !open && setViewing(null)} />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-serif">Delete schedule?</AlertDialogTitle>
+            <AlertDialogDescription className="font-sans">
+              The schedule stops running and cannot be restored.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => {
+                if (pendingDelete) runAction(pendingDelete, () => remove(pendingDelete.id))
+                setPendingDelete(null)
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { getShareStore, isShareExpired } from '@/lib/shareStore'
+import { MessageBubble } from '@/components/MessageBubble'
+
+export const dynamic = 'force-dynamic'
+
+interface SharePageProps {
+  params: { id: string }
+}
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const share = await getShareStore().get(params.id)
+  const title = share && !isShareExpired(share) ? share.conversation.title : 'Shared conversation'
+  // Links are unlisted; keep them out of search results
+  return { title, robots: { index: false, follow: false } }
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const share = await getShareStore().get(params.id)
+  if (!share) notFound()
+
+  if (isShareExpired(share)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="text-center space-y-3">
+          <h1 className="font-serif text-2xl font-bold text-foreground">This link has expired</h1>
+          <p className="text-sm text-muted-foreground font-sans">Ask the person who shared it for a new link.</p>
+          <Link href="/" className="inline-block text-sm text-accent underline hover:no-underline font-sans">
+            Go to SimpleChat
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const { conversation } = share
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card px-4 py-3">
+        <div className="max-w-3xl mx-auto flex items-center gap-3">
+          <div className="flex-1 min-w-0">
+            <h1 className="text-sm font-serif font-semibold tracking-wide text-foreground truncate">
+              {conversation.title || 'Untitled conversation'}
+            </h1>
+            <p className="text-[11px] text-muted-foreground font-sans">
+              Shared {new Date(share.createdAt).toLocaleString()} · read-only
+              {share.expiresAt !== null && ` · expires ${new Date(share.expiresAt).toLocaleDateString()}`}
+            </p>
+          </div>
+          <Link href="/" className="text-xs text-accent underline hover:no-underline font-sans flex-shrink-0">
+            Start your own chat
+          </Link>
+        </div>
+      </header>
+      <main className="px-4 py-6">
+        <div className="max-w-3xl mx-auto space-y-6">
+          {conversation.messages.map((msg) => (
+            <MessageBubble key={msg.id} message={msg} />
+          ))}
+        </div>
+      </main>
+    </div>
+  )
+}
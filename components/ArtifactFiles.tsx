@@ -0,0 +1,229 @@
+'use client'
+
+import * as React from 'react'
+import { Download, Eye, EyeOff, FileSpreadsheet, FileText, File as FileIcon, Image as ImageIcon, Loader2 } from 'lucide-react'
+import type { ArtifactFile } from '@/lib/agentResponse'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+
+type ArtifactKind = 'image' | 'pdf' | 'csv' | 'other'
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp']
+const CSV_PREVIEW_ROWS = 20
+
+/** Artifact URLs come from the agent; only http(s) links are rendered. */
+function isSafeUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+function artifactKind(artifact: ArtifactFile): ArtifactKind {
+  const format = (artifact.format_type || '').toLowerCase()
+  const extension = (artifact.name || artifact.file_url).split('?')[0].split('.').pop()?.toLowerCase() ?? ''
+  if (format.startsWith('image') || IMAGE_EXTENSIONS.includes(format) || IMAGE_EXTENSIONS.includes(extension)) return 'image'
+  if (format.includes('pdf') || extension === 'pdf') return 'pdf'
+  if (format.includes('csv') || extension === 'csv') return 'csv'
+  return 'other'
+}
+
+/** Minimal RFC 4180 parser, enough for a preview table. */
+function parseCsv(text: string, maxRows: number): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  if ((field || row.length > 0) && rows.length < maxRows) rows.push([...row, field])
+  return rows
+}
+
+function KindIcon({ kind, className }: { kind: ArtifactKind; className?: string }) {
+  if (kind === 'image') return <ImageIcon className={className} />
+  if (kind === 'pdf') return <FileText className={className} />
+  if (kind === 'csv') return <FileSpreadsheet className={className} />
+  return <FileIcon className={className} />
+}
+
+function CsvPreview({ url }: { url: string }) {
+  const [rows, setRows] = React.useState<string[][] | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    const controller = new AbortController()
+    fetch(url, { signal: controller.signal })
+      .then((res) => {
+        if (!res.ok) throw new Error(`Preview unavailable (status ${res.status})`)
+        return res.text()
+      })
+      .then((text) => setRows(parseCsv(text, CSV_PREVIEW_ROWS + 1)))
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(err instanceof Error ? err.message : 'Preview unavailable')
+      })
+    return () => controller.abort()
+  }, [url])
+
+  if (error) return <p className="text-xs text-muted-foreground px-3 py-2">{error}</p>
+  if (!rows) {
+    return (
+      <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground">
+        <Loader2 className="w-3 h-3 animate-spin" /> Loading preview…
+      </div>
+    )
+  }
+
+  const [header, ...body] = rows
+  return (
+    <div className="max-h-64 overflow-auto">
+      <table className="w-full text-xs border-collapse">
+        {header && (
+          <thead className="bg-muted sticky top-0">
+            <tr>
+              {header.map((cell, i) => (
+                <th key={i} className="border border-border px-2 py-1 text-left font-semibold whitespace-nowrap">
+                  {cell}
+                </th>
+              ))}
+            </tr>
+          </thead>
+        )}
+        <tbody>
+          {body.slice(0, CSV_PREVIEW_ROWS).map((row, r) => (
+            <tr key={r}>
+              {row.map((cell, c) => (
+                <td key={c} className="border border-border px-2 py-1 align-top whitespace-nowrap">
+                  {cell}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function ArtifactCard({ artifact }: { artifact: ArtifactFile }) {
+  const kind = artifactKind(artifact)
+  const [showPreview, setShowPreview] = React.useState(false)
+  const name = artifact.name || 'file'
+
+  return (
+    <div className="rounded-lg border border-border bg-card overflow-hidden">
+      {kind === 'image' && (
+        <a href={artifact.file_url} target="_blank" rel="noopener noreferrer nofollow" className="block bg-muted">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={artifact.file_url} alt={name} loading="lazy" referrerPolicy="no-referrer" className="max-h-64 w-full object-contain" />
+        </a>
+      )}
+      <div className="flex items-center gap-2 px-3 py-2">
+        <KindIcon kind={kind} className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+        <div className="min-w-0 flex-1">
+          <p className="text-xs font-sans text-foreground truncate" title={name}>
+            {name}
+          </p>
+          {artifact.format_type && (
+            <p className="text-[10px] uppercase tracking-wider text-muted-foreground">{artifact.format_type}</p>
+          )}
+        </div>
+        {(kind === 'pdf' || kind === 'csv') && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 px-2 text-xs"
+            onClick={() => setShowPreview((v) => !v)}
+            title={showPreview ? 'Hide preview' : 'Preview'}
+          >
+            {showPreview ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+          </Button>
+        )}
+        <Button asChild size="sm" variant="ghost" className="h-7 px-2 text-xs" title="Download">
+          <a href={artifact.file_url} download={name} target="_blank" rel="noopener noreferrer nofollow">
+            <Download className="w-3.5 h-3.5" />
+          </a>
+        </Button>
+      </div>
+      {showPreview && kind === 'pdf' && (
+        <iframe src={artifact.file_url} title={name} className="w-full h-96 border-t border-border bg-background" />
+      )}
+      {showPreview && kind === 'csv' && (
+        <div className="border-t border-border">
+          <CsvPreview url={artifact.file_url} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Files an agent produced (module_outputs.artifact_files), shown under its reply
+ * as download cards with inline previews for images, PDFs and CSVs.
+ */
+export function ArtifactFiles({ artifacts, className }: { artifacts?: ArtifactFile[]; className?: string }) {
+  const safe = (artifacts ?? []).filter((artifact) => artifact && isSafeUrl(artifact.file_url))
+  if (safe.length === 0) return null
+
+  const downloadAll = () => {
+    // Stagger the clicks; browsers drop rapid-fire programmatic downloads
+    safe.forEach((artifact, i) => {
+      setTimeout(() => {
+        const link = document.createElement('a')
+        link.href = artifact.file_url
+        link.download = artifact.name || ''
+        link.target = '_blank'
+        link.rel = 'noopener noreferrer'
+        document.body.appendChild(link)
+        link.click()
+        link.remove()
+      }, i * 300)
+    })
+  }
+
+  return (
+    <div className={cn('w-full space-y-2', className)}>
+      {safe.length > 1 && (
+        <div className="flex items-center justify-between">
+          <span className="text-[11px] text-muted-foreground font-sans">{safe.length} files</span>
+          <Button size="sm" variant="ghost" className="h-7 px-2 text-xs gap-1" onClick={downloadAll}>
+            <Download className="w-3.5 h-3.5" />
+            Download all
+          </Button>
+        </div>
+      )}
+      <div className="grid gap-2 sm:grid-cols-2">
+        {safe.map((artifact, i) => (
+          <ArtifactCard key={`${artifact.file_url}-${i}`} artifact={artifact} />
+        ))}
+      </div>
+    </div>
+  )
+}
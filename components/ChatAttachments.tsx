@@ -0,0 +1,121 @@
+'use client'
+
+import * as React from 'react'
+import { AlertCircle, FileText, Loader2, RotateCw, X } from 'lucide-react'
+import type { MessageAttachment } from '@/lib/conversations'
+import type { PendingAttachment } from '@/hooks/useAttachments'
+import { Progress } from '@/components/ui/progress'
+import { cn } from '@/lib/utils'
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function Thumbnail({ src, name, className }: { src?: string; name: string; className?: string }) {
+  return src ? (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img src={src} alt={name} className={cn('object-cover rounded-md', className)} />
+  ) : (
+    <div className={cn('flex items-center justify-center rounded-md bg-muted', className)}>
+      <FileText className="w-4 h-4 text-muted-foreground" />
+    </div>
+  )
+}
+
+/**
+ * Attachments waiting to be sent, shown above the composer with upload
+ * progress, per-file errors and retry/remove actions.
+ */
+export function AttachmentTray({
+  items,
+  onRemove,
+  onRetry,
+}: {
+  items: PendingAttachment[]
+  onRemove: (id: string) => void
+  onRetry: (id: string) => void
+}) {
+  if (items.length === 0) return null
+  return (
+    <div className="flex flex-wrap gap-2 mb-2">
+      {items.map((item) => (
+        <div
+          key={item.id}
+          className={cn(
+            'relative flex items-center gap-2 w-52 rounded-lg border bg-card p-1.5 pr-7',
+            item.status === 'error' ? 'border-destructive/50' : 'border-border'
+          )}
+        >
+          <Thumbnail src={item.previewUrl} name={item.file.name} className="w-9 h-9 flex-shrink-0" />
+          <div className="min-w-0 flex-1">
+            <p className="text-xs font-sans text-foreground truncate" title={item.file.name}>
+              {item.file.name}
+            </p>
+            {item.status === 'uploading' ? (
+              <Progress value={Math.round(item.progress * 100)} className="h-1 mt-1" />
+            ) : item.status === 'error' ? (
+              <p className="flex items-center gap-1 text-[10px] text-destructive truncate" title={item.error}>
+                <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                {item.error}
+              </p>
+            ) : (
+              <p className="text-[10px] text-muted-foreground">{formatFileSize(item.file.size)}</p>
+            )}
+          </div>
+          <div className="absolute top-1 right-1 flex flex-col gap-0.5">
+            <button
+              onClick={() => onRemove(item.id)}
+              className="p-0.5 rounded text-muted-foreground hover:text-foreground hover:bg-secondary"
+              title="Remove attachment"
+            >
+              <X className="w-3 h-3" />
+            </button>
+            {item.status === 'error' && (
+              <button
+                onClick={() => onRetry(item.id)}
+                className="p-0.5 rounded text-muted-foreground hover:text-foreground hover:bg-secondary"
+                title="Retry upload"
+              >
+                <RotateCw className="w-3 h-3" />
+              </button>
+            )}
+            {item.status === 'uploading' && <Loader2 className="w-3 h-3 m-0.5 animate-spin text-muted-foreground" />}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/** Attachments sent with a message, as they appear in the conversation history. */
+export function MessageAttachments({ attachments, className }: { attachments?: MessageAttachment[]; className?: string }) {
+  if (!attachments || attachments.length === 0) return null
+  return (
+    <div className={cn('flex flex-wrap gap-2', className)}>
+      {attachments.map((attachment) =>
+        attachment.thumbnail ? (
+          <Thumbnail
+            key={attachment.assetId}
+            src={attachment.thumbnail}
+            name={attachment.name}
+            className="w-24 h-24 border border-border"
+          />
+        ) : (
+          <div
+            key={attachment.assetId}
+            className="flex items-center gap-2 max-w-[14rem] rounded-lg border border-border bg-card px-2 py-1.5"
+            title={attachment.name}
+          >
+            <FileText className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+            <div className="min-w-0">
+              <p className="text-xs font-sans text-foreground truncate">{attachment.name}</p>
+              <p className="text-[10px] text-muted-foreground">{formatFileSize(attachment.size)}</p>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  )
+}
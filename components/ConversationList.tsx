@@ -0,0 +1,820 @@
+'use client'
+
+import * as React from 'react'
+import {
+  Archive,
+  ArchiveRestore,
+  CheckSquare,
+  ChevronDown,
+  ChevronRight,
+  Folder,
+  FolderInput,
+  FolderOpen,
+  MessageSquare,
+  MoreHorizontal,
+  Pencil,
+  Pin,
+  PinOff,
+  Plus,
+  Tag,
+  Trash2,
+  X,
+} from 'lucide-react'
+import type { Conversation } from '@/lib/conversations'
+import {
+  DEFAULT_FILTER,
+  collectFolders,
+  collectTags,
+  filterConversations,
+  groupConversations,
+  normalizeLabel,
+  type ConversationFilter,
+  type ConversationView,
+} from '@/lib/conversationOrganizer'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { cn } from '@/lib/utils'
+
+type ConversationPatch = (conversation: Conversation) => Partial<Conversation>
+
+/** Drop targets: the pinned group, a folder, or the top level. */
+type DropTarget = { kind: 'pinned' } | { kind: 'folder'; name: string } | { kind: 'root' }
+
+const DRAG_MIME = 'application/x-simplechat-conversations'
+
+const VIEWS: { value: ConversationView; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'pinned', label: 'Pinned' },
+  { value: 'archived', label: 'Archived' },
+]
+
+// Kept here rather than in lib/ so Tailwind sees the class names
+const TAG_COLORS = [
+  'bg-red-500/15 text-red-700 border-red-500/30',
+  'bg-orange-500/15 text-orange-700 border-orange-500/30',
+  'bg-amber-500/15 text-amber-700 border-amber-500/30',
+  'bg-green-500/15 text-green-700 border-green-500/30',
+  'bg-teal-500/15 text-teal-700 border-teal-500/30',
+  'bg-sky-500/15 text-sky-700 border-sky-500/30',
+  'bg-indigo-500/15 text-indigo-700 border-indigo-500/30',
+  'bg-pink-500/15 text-pink-700 border-pink-500/30',
+]
+
+/** Tailwind classes for a tag, stable for a given name. */
+function tagColor(tag: string): string {
+  let hash = 0
+  for (let i = 0; i < tag.length; i++) hash = (hash * 31 + tag.charCodeAt(i)) | 0
+  return TAG_COLORS[Math.abs(hash) % TAG_COLORS.length]
+}
+
+function formatTime(ts: number): string {
+  const d = new Date(ts)
+  const now = new Date()
+  const diffMs = now.getTime() - d.getTime()
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24))
+  if (diffDays === 0) {
+    return d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+  }
+  if (diffDays === 1) return 'Yesterday'
+  if (diffDays < 7) {
+    return d.toLocaleDateString('en-US', { weekday: 'short' })
+  }
+  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+function patchForDrop(target: DropTarget): Partial<Conversation> {
+  if (target.kind === 'pinned') return { pinned: true }
+  if (target.kind === 'folder') return { pinned: false, folder: target.name }
+  return { pinned: false, folder: undefined }
+}
+
+function TagChip({ tag, active, onClick }: { tag: string; active?: boolean; onClick?: () => void }) {
+  const className = cn(
+    'inline-flex items-center rounded-full border px-1.5 py-px text-[10px] font-sans leading-tight max-w-[100px] truncate',
+    tagColor(tag),
+    active ? 'ring-1 ring-offset-1 ring-current' : ''
+  )
+  if (!onClick) return <span className={className}>{tag}</span>
+  return (
+    <button onClick={onClick} className={className} title={active ? 'Clear tag filter' : `Show only “${tag}”`}>
+      {tag}
+    </button>
+  )
+}
+
+// ─── Name prompt ──────────────────────────────────────────────────────────────
+
+interface NamePrompt {
+  title: string
+  initial?: string
+  submitLabel: string
+  onSubmit: (name: string) => void
+}
+
+function NameDialog({ prompt, onClose }: { prompt: NamePrompt | null; onClose: () => void }) {
+  const [value, setValue] = React.useState('')
+
+  React.useEffect(() => {
+    if (prompt) setValue(prompt.initial ?? '')
+  }, [prompt])
+
+  const submit = () => {
+    const name = normalizeLabel(value)
+    if (!name || !prompt) return
+    prompt.onSubmit(name)
+    onClose()
+  }
+
+  return (
+    <Dialog open={!!prompt} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-serif">{prompt?.title}</DialogTitle>
+        </DialogHeader>
+        <Input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          autoFocus
+          className="font-sans text-sm"
+        />
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            disabled={!normalizeLabel(value)}
+            onClick={submit}
+            className="bg-accent text-accent-foreground hover:bg-accent/80"
+          >
+            {prompt?.submitLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ─── Menus ────────────────────────────────────────────────────────────────────
+
+function MoveToFolderItems({
+  folders,
+  current,
+  onMove,
+  onNewFolder,
+}: {
+  folders: string[]
+  current?: string
+  onMove: (folder: string | undefined) => void
+  onNewFolder: () => void
+}) {
+  return (
+    <>
+      <DropdownMenuItem disabled={!current} onSelect={() => onMove(undefined)}>
+        No folder
+      </DropdownMenuItem>
+      {folders.map((folder) => (
+        <DropdownMenuItem key={folder} disabled={folder === current} onSelect={() => onMove(folder)}>
+          <Folder className="w-3.5 h-3.5" />
+          <span className="truncate">{folder}</span>
+        </DropdownMenuItem>
+      ))}
+      <DropdownMenuSeparator />
+      <DropdownMenuItem onSelect={onNewFolder}>
+        <Plus className="w-3.5 h-3.5" /> New folder…
+      </DropdownMenuItem>
+    </>
+  )
+}
+
+function ConversationMenu({
+  conversation,
+  folders,
+  tags,
+  onUpdate,
+  onRename,
+  onDelete,
+  prompt,
+}: {
+  conversation: Conversation
+  folders: string[]
+  tags: string[]
+  onUpdate: (patch: ConversationPatch) => void
+  onRename: () => void
+  onDelete: () => void
+  prompt: (prompt: NamePrompt) => void
+}) {
+  const conversationTags = conversation.tags ?? []
+  const toggleTag = (tag: string) =>
+    onUpdate((c) => {
+      const current = c.tags ?? []
+      return { tags: current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag] }
+    })
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          onClick={(e) => e.stopPropagation()}
+          className="p-1 rounded bg-sidebar-accent opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100 hover:bg-sidebar-border transition-opacity"
+          title="Conversation actions"
+        >
+          <MoreHorizontal className="w-3.5 h-3.5 text-muted-foreground" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="w-48"
+        onClick={(e) => e.stopPropagation()}
+        // Keep focus where the chosen action puts it (rename input, name dialog)
+        onCloseAutoFocus={(e) => e.preventDefault()}
+      >
+        <DropdownMenuItem onSelect={onRename}>
+          <Pencil className="w-3.5 h-3.5" /> Rename
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => onUpdate((c) => ({ pinned: !c.pinned }))}>
+          {conversation.pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+          {conversation.pinned ? 'Unpin' : 'Pin to top'}
+        </DropdownMenuItem>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <FolderInput className="w-3.5 h-3.5 mr-2" /> Move to folder
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="w-44">
+            <MoveToFolderItems
+              folders={folders}
+              current={conversation.folder}
+              onMove={(folder) => onUpdate(() => ({ folder }))}
+              onNewFolder={() =>
+                prompt({ title: 'New folder', submitLabel: 'Move', onSubmit: (folder) => onUpdate(() => ({ folder })) })
+              }
+            />
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <Tag className="w-3.5 h-3.5 mr-2" /> Tags
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="w-44">
+            {tags.map((tag) => (
+              <DropdownMenuCheckboxItem
+                key={tag}
+                checked={conversationTags.includes(tag)}
+                onSelect={(e) => e.preventDefault()}
+                onCheckedChange={() => toggleTag(tag)}
+              >
+                <TagChip tag={tag} />
+              </DropdownMenuCheckboxItem>
+            ))}
+            {tags.length > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuItem
+              onSelect={() =>
+                prompt({
+                  title: 'New tag',
+                  submitLabel: 'Add tag',
+                  onSubmit: (tag) =>
+                    onUpdate((c) => ({ tags: (c.tags ?? []).includes(tag) ? c.tags : [...(c.tags ?? []), tag] })),
+                })
+              }
+            >
+              <Plus className="w-3.5 h-3.5" /> New tag…
+            </DropdownMenuItem>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuItem onSelect={() => onUpdate((c) => ({ archived: !c.archived }))}>
+          {conversation.archived ? <ArchiveRestore className="w-3.5 h-3.5" /> : <Archive className="w-3.5 h-3.5" />}
+          {conversation.archived ? 'Unarchive' : 'Archive'}
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={onDelete} className="text-destructive focus:text-destructive">
+          <Trash2 className="w-3.5 h-3.5" /> Delete
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+// ─── Conversation row ─────────────────────────────────────────────────────────
+
+function ConversationItem({
+  conversation,
+  isActive,
+  selecting,
+  selected,
+  renaming,
+  onClick,
+  onToggleSelected,
+  onRenamed,
+  onDragStart,
+  menu,
+}: {
+  conversation: Conversation
+  isActive: boolean
+  selecting: boolean
+  selected: boolean
+  renaming: boolean
+  onClick: () => void
+  onToggleSelected: () => void
+  /** New title, or null to cancel */
+  onRenamed: (title: string | null) => void
+  onDragStart: (e: React.DragEvent) => void
+  menu: React.ReactNode
+}) {
+  const preview =
+    conversation.summary || (conversation.messages.length > 0 ? conversation.messages[0].content : 'New conversation')
+  const [draft, setDraft] = React.useState(conversation.title)
+
+  React.useEffect(() => {
+    if (renaming) setDraft(conversation.title)
+  }, [renaming, conversation.title])
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      draggable={!renaming}
+      onDragStart={onDragStart}
+      onClick={selecting ? onToggleSelected : onClick}
+      onKeyDown={(e) => {
+        if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) {
+          e.preventDefault()
+          if (selecting) onToggleSelected()
+          else onClick()
+        }
+      }}
+      className={cn(
+        'w-full text-left px-3 py-3 rounded-lg transition-all duration-200 group relative cursor-pointer',
+        isActive ? 'bg-sidebar-accent border border-sidebar-border' : 'hover:bg-sidebar-accent/50',
+        selected ? 'bg-sidebar-accent/70' : ''
+      )}
+    >
+      <div className="flex items-start gap-2.5">
+        {selecting ? (
+          <Checkbox checked={selected} className="mt-0.5" tabIndex={-1} aria-label="Select conversation" />
+        ) : conversation.pinned ? (
+          <Pin className={cn('w-4 h-4 mt-0.5 flex-shrink-0', isActive ? 'text-sidebar-primary' : 'text-muted-foreground')} />
+        ) : (
+          <MessageSquare className={cn('w-4 h-4 mt-0.5 flex-shrink-0', isActive ? 'text-sidebar-primary' : 'text-muted-foreground')} />
+        )}
+        <div className="flex-1 min-w-0">
+          {renaming ? (
+            <input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              onKeyDown={(e) => {
+                e.stopPropagation()
+                if (e.key === 'Enter') onRenamed(normalizeLabel(draft) || null)
+                else if (e.key === 'Escape') onRenamed(null)
+              }}
+              onBlur={() => onRenamed(normalizeLabel(draft) || null)}
+              autoFocus
+              className="w-full rounded border border-sidebar-border bg-input px-1.5 py-0.5 text-sm text-foreground font-sans focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+          ) : (
+            <p className={cn('text-sm font-medium truncate', isActive ? 'text-sidebar-foreground' : 'text-sidebar-foreground/80')}>
+              {conversation.title}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground truncate mt-0.5" title={conversation.summary}>
+            {preview}
+          </p>
+          {conversation.tags && conversation.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {conversation.tags.map((tag) => (
+                <TagChip key={tag} tag={tag} />
+              ))}
+            </div>
+          )}
+        </div>
+        <span className="text-[10px] text-muted-foreground flex-shrink-0 mt-0.5">{formatTime(conversation.updatedAt)}</span>
+      </div>
+      {!selecting && <div className="absolute top-2 right-2">{menu}</div>}
+    </div>
+  )
+}
+
+// ─── Groups ───────────────────────────────────────────────────────────────────
+
+function DropZone({
+  target,
+  onDropIds,
+  className,
+  children,
+}: {
+  target: DropTarget
+  onDropIds: (ids: string[], target: DropTarget) => void
+  className?: string
+  children: React.ReactNode
+}) {
+  const [over, setOver] = React.useState(false)
+  return (
+    <div
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes(DRAG_MIME)) return
+        e.preventDefault()
+        e.dataTransfer.dropEffect = 'move'
+        setOver(true)
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setOver(false)
+      }}
+      onDrop={(e) => {
+        setOver(false)
+        const raw = e.dataTransfer.getData(DRAG_MIME)
+        if (!raw) return
+        e.preventDefault()
+        try {
+          const ids = JSON.parse(raw)
+          if (Array.isArray(ids)) onDropIds(ids.filter((id) => typeof id === 'string'), target)
+        } catch {
+          // Not our payload
+        }
+      }}
+      className={cn('rounded-lg transition-colors', over ? 'bg-accent/10 ring-1 ring-accent/40' : '', className)}
+    >
+      {children}
+    </div>
+  )
+}
+
+function GroupHeader({
+  icon,
+  label,
+  count,
+  collapsed,
+  onToggle,
+  actions,
+}: {
+  icon: React.ReactNode
+  label: string
+  count: number
+  collapsed?: boolean
+  onToggle?: () => void
+  actions?: React.ReactNode
+}) {
+  return (
+    <div className="group flex items-center gap-1.5 px-2 pt-2 pb-1 text-[11px] uppercase tracking-wider text-muted-foreground font-sans">
+      <button onClick={onToggle} disabled={!onToggle} className="flex items-center gap-1.5 min-w-0 flex-1 text-left">
+        {onToggle && (collapsed ? <ChevronRight className="w-3 h-3 flex-shrink-0" /> : <ChevronDown className="w-3 h-3 flex-shrink-0" />)}
+        {icon}
+        <span className="truncate">{label}</span>
+        <span className="normal-case tracking-normal text-[10px]">{count}</span>
+      </button>
+      {actions}
+    </div>
+  )
+}
+
+// ─── List ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Sidebar conversation list: pinned conversations, folders and the rest,
+ * with a filter bar, per-conversation actions, drag-and-drop between groups
+ * and bulk selection. All organization is stored on the conversations through
+ * `onUpdate`.
+ */
+export function ConversationList({
+  conversations,
+  activeId,
+  onSelect,
+  onUpdate,
+  onDelete,
+}: {
+  conversations: Conversation[]
+  activeId: string | null
+  onSelect: (id: string) => void
+  onUpdate: (ids: string[], patch: ConversationPatch) => void
+  onDelete: (ids: string[]) => void
+}) {
+  const [filter, setFilter] = React.useState<ConversationFilter>(DEFAULT_FILTER)
+  const [selecting, setSelecting] = React.useState(false)
+  const [selected, setSelected] = React.useState<Set<string>>(new Set())
+  const [collapsed, setCollapsed] = React.useState<Set<string>>(new Set())
+  const [renamingId, setRenamingId] = React.useState<string | null>(null)
+  const [namePrompt, setNamePrompt] = React.useState<NamePrompt | null>(null)
+  const [pendingDelete, setPendingDelete] = React.useState<string[] | null>(null)
+
+  const folders = React.useMemo(() => collectFolders(conversations), [conversations])
+  const tags = React.useMemo(() => collectTags(conversations), [conversations])
+  const archivedCount = React.useMemo(() => conversations.filter((c) => c.archived).length, [conversations])
+  const visible = React.useMemo(() => filterConversations(conversations, filter), [conversations, filter])
+  const groups = React.useMemo(() => groupConversations(visible), [visible])
+
+  // Drop selections and filters that no longer match anything
+  React.useEffect(() => {
+    const ids = new Set(conversations.map((c) => c.id))
+    setSelected((prev) => {
+      const next = new Set(Array.from(prev).filter((id) => ids.has(id)))
+      return next.size === prev.size ? prev : next
+    })
+    if (filter.tag && !tags.includes(filter.tag)) setFilter((f) => ({ ...f, tag: null }))
+  }, [conversations, tags, filter.tag])
+
+  const toggleSelected = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+
+  const stopSelecting = () => {
+    setSelecting(false)
+    setSelected(new Set())
+  }
+
+  const toggleCollapsed = (name: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      if (next.has(name)) next.delete(name)
+      else next.add(name)
+      return next
+    })
+
+  const moveTo = (ids: string[], target: DropTarget) => {
+    if (ids.length > 0) onUpdate(ids, () => patchForDrop(target))
+  }
+
+  const renameFolder = (from: string, to: string) => {
+    const ids = conversations.filter((c) => c.folder === from).map((c) => c.id)
+    onUpdate(ids, () => ({ folder: to }))
+  }
+
+  const removeFolder = (name: string) => {
+    const ids = conversations.filter((c) => c.folder === name).map((c) => c.id)
+    onUpdate(ids, () => ({ folder: undefined }))
+  }
+
+  const renderItem = (convo: Conversation) => (
+    <ConversationItem
+      key={convo.id}
+      conversation={convo}
+      isActive={convo.id === activeId}
+      selecting={selecting}
+      selected={selected.has(convo.id)}
+      renaming={renamingId === convo.id}
+      onClick={() => onSelect(convo.id)}
+      onToggleSelected={() => toggleSelected(convo.id)}
+      onRenamed={(title) => {
+        setRenamingId(null)
+        if (title && title !== convo.title) onUpdate([convo.id], () => ({ title, autoTitled: false }))
+      }}
+      onDragStart={(e) => {
+        const ids = selecting && selected.has(convo.id) ? Array.from(selected) : [convo.id]
+        e.dataTransfer.setData(DRAG_MIME, JSON.stringify(ids))
+        e.dataTransfer.effectAllowed = 'move'
+      }}
+      menu={
+        <ConversationMenu
+          conversation={convo}
+          folders={folders}
+          tags={tags}
+          onUpdate={(patch) => onUpdate([convo.id], patch)}
+          onRename={() => setRenamingId(convo.id)}
+          onDelete={() => setPendingDelete([convo.id])}
+          prompt={setNamePrompt}
+        />
+      }
+    />
+  )
+
+  const selectedIds = Array.from(selected)
+  const archivedView = filter.view === 'archived'
+
+  return (
+    <div className="space-y-2">
+      {/* Filter bar */}
+      <div className="space-y-1.5 px-1">
+        <div className="flex items-center gap-1">
+          {VIEWS.map((view) => (
+            <button
+              key={view.value}
+              onClick={() => setFilter((f) => ({ ...f, view: view.value }))}
+              className={cn(
+                'px-2 py-1 rounded-md text-[11px] font-sans transition-colors',
+                filter.view === view.value
+                  ? 'bg-sidebar-accent text-sidebar-foreground font-medium'
+                  : 'text-muted-foreground hover:bg-sidebar-accent/50'
+              )}
+            >
+              {view.label}
+              {view.value === 'archived' && archivedCount > 0 && <span className="ml-1 text-[10px]">{archivedCount}</span>}
+            </button>
+          ))}
+          <button
+            onClick={() => (selecting ? stopSelecting() : setSelecting(true))}
+            className={cn(
+              'ml-auto p-1 rounded-md transition-colors',
+              selecting ? 'bg-sidebar-accent text-sidebar-foreground' : 'text-muted-foreground hover:bg-sidebar-accent/50'
+            )}
+            title={selecting ? 'Done selecting' : 'Select conversations'}
+          >
+            {selecting ? <X className="w-3.5 h-3.5" /> : <CheckSquare className="w-3.5 h-3.5" />}
+          </button>
+        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map((tag) => (
+              <TagChip
+                key={tag}
+                tag={tag}
+                active={filter.tag === tag}
+                onClick={() => setFilter((f) => ({ ...f, tag: f.tag === tag ? null : tag }))}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Bulk actions */}
+      {selecting && (
+        <div className="flex items-center gap-1 px-2 py-1.5 rounded-lg bg-sidebar-accent/60 text-[11px] font-sans">
+          <button
+            onClick={() =>
+              setSelected(selected.size === visible.length ? new Set() : new Set(visible.map((c) => c.id)))
+            }
+            className="text-sidebar-foreground hover:underline"
+          >
+            {selected.size === visible.length && visible.length > 0 ? 'Clear' : 'Select all'}
+          </button>
+          <span className="text-muted-foreground">{selected.size} selected</span>
+          <div className="ml-auto flex items-center gap-0.5">
+            <button
+              disabled={selected.size === 0}
+              onClick={() => onUpdate(selectedIds, () => ({ pinned: true }))}
+              className="p-1 rounded hover:bg-sidebar-border disabled:opacity-30"
+              title="Pin"
+            >
+              <Pin className="w-3.5 h-3.5" />
+            </button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild disabled={selected.size === 0}>
+                <button className="p-1 rounded hover:bg-sidebar-border disabled:opacity-30" title="Move to folder">
+                  <FolderInput className="w-3.5 h-3.5" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-44">
+                <MoveToFolderItems
+                  folders={folders}
+                  onMove={(folder) => onUpdate(selectedIds, () => ({ folder }))}
+                  onNewFolder={() =>
+                    setNamePrompt({
+                      title: 'New folder',
+                      submitLabel: 'Move',
+                      onSubmit: (folder) => onUpdate(selectedIds, () => ({ folder })),
+                    })
+                  }
+                />
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <button
+              disabled={selected.size === 0}
+              onClick={() => onUpdate(selectedIds, () => ({ archived: !archivedView }))}
+              className="p-1 rounded hover:bg-sidebar-border disabled:opacity-30"
+              title={archivedView ? 'Unarchive' : 'Archive'}
+            >
+              {archivedView ? <ArchiveRestore className="w-3.5 h-3.5" /> : <Archive className="w-3.5 h-3.5" />}
+            </button>
+            <button
+              disabled={selected.size === 0}
+              onClick={() => setPendingDelete(selectedIds)}
+              className="p-1 rounded text-destructive hover:bg-destructive/20 disabled:opacity-30"
+              title="Delete"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Groups */}
+      {conversations.length === 0 ? (
+        <div className="text-center py-8">
+          <MessageSquare className="w-8 h-8 mx-auto text-muted-foreground/30 mb-2" />
+          <p className="text-xs text-muted-foreground font-sans">No conversations yet</p>
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="text-center py-8 text-xs text-muted-foreground font-sans">
+          {archivedView ? 'No archived conversations' : 'No conversations match this filter'}
+        </p>
+      ) : archivedView ? (
+        <div className="space-y-1">{visible.map(renderItem)}</div>
+      ) : (
+        <div className="space-y-1">
+          {groups.pinned.length > 0 && (
+            <DropZone target={{ kind: 'pinned' }} onDropIds={moveTo}>
+              <GroupHeader icon={<Pin className="w-3 h-3" />} label="Pinned" count={groups.pinned.length} />
+              <div className="space-y-1">{groups.pinned.map(renderItem)}</div>
+            </DropZone>
+          )}
+          {groups.folders.map((folder) => (
+            <DropZone key={folder.name} target={{ kind: 'folder', name: folder.name }} onDropIds={moveTo}>
+              <GroupHeader
+                icon={collapsed.has(folder.name) ? <Folder className="w-3 h-3" /> : <FolderOpen className="w-3 h-3" />}
+                label={folder.name}
+                count={folder.conversations.length}
+                collapsed={collapsed.has(folder.name)}
+                onToggle={() => toggleCollapsed(folder.name)}
+                actions={
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <button
+                        className="p-0.5 rounded opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 hover:bg-sidebar-accent"
+                        title="Folder actions"
+                      >
+                        <MoreHorizontal className="w-3.5 h-3.5" />
+                      </button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="w-40">
+                      <DropdownMenuItem
+                        onSelect={() =>
+                          setNamePrompt({
+                            title: 'Rename folder',
+                            initial: folder.name,
+                            submitLabel: 'Rename',
+                            onSubmit: (name) => renameFolder(folder.name, name),
+                          })
+                        }
+                      >
+                        <Pencil className="w-3.5 h-3.5" /> Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => removeFolder(folder.name)}>
+                        <X className="w-3.5 h-3.5" /> Remove folder
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                }
+              />
+              {!collapsed.has(folder.name) && <div className="space-y-1">{folder.conversations.map(renderItem)}</div>}
+            </DropZone>
+          ))}
+          <DropZone target={{ kind: 'root' }} onDropIds={moveTo} className="min-h-[48px]">
+            {(groups.pinned.length > 0 || groups.folders.length > 0) && (
+              <GroupHeader icon={<MessageSquare className="w-3 h-3" />} label="Conversations" count={groups.unfiled.length} />
+            )}
+            <div className="space-y-1">{groups.unfiled.map(renderItem)}</div>
+          </DropZone>
+        </div>
+      )}
+
+      <NameDialog prompt={namePrompt} onClose={() => setNamePrompt(null)} />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-serif">
+              Delete {pendingDelete && pendingDelete.length > 1 ? `${pendingDelete.length} conversations` : 'conversation'}?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="font-sans">
+              This removes the messages from this browser and from server storage. It cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => {
+                if (pendingDelete) onDelete(pendingDelete)
+                setPendingDelete(null)
+                stopSelecting()
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+'use client'
+
+import * as React from 'react'
+import { Bot, MessageSquare, User } from 'lucide-react'
+import type { SearchResult, SnippetPart } from '@/lib/searchIndex'
+import { CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command'
+import { DialogTitle } from '@/components/ui/dialog'
+import { cn } from '@/lib/utils'
+
+const PALETTE_LIMIT = 30
+
+export function HighlightedSnippet({ parts, className }: { parts: SnippetPart[]; className?: string }) {
+  return (
+    <span className={cn('break-words', className)}>
+      {parts.map((part, i) =>
+        part.highlight ? (
+          <mark key={i} className="bg-accent/30 text-foreground rounded-sm px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{part.text}</React.Fragment>
+        )
+      )}
+    </span>
+  )
+}
+
+function ResultBody({ result }: { result: SearchResult }) {
+  const RoleIcon = result.role === 'user' ? User : Bot
+  return (
+    <div className="min-w-0 flex-1">
+      <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+        <RoleIcon className="w-3 h-3 flex-shrink-0" />
+        <span className="truncate font-medium">{result.conversationTitle || 'Untitled'}</span>
+        <span className="ml-auto flex-shrink-0">{new Date(result.timestamp).toLocaleDateString()}</span>
+      </div>
+      <HighlightedSnippet parts={result.snippet} className="block text-xs leading-relaxed text-foreground line-clamp-2" />
+    </div>
+  )
+}
+
+/** Message matches listed in the sidebar in place of the conversation list. */
+export function SearchResultList({
+  results,
+  query,
+  onSelect,
+}: {
+  results: SearchResult[]
+  query: string
+  onSelect: (result: SearchResult) => void
+}) {
+  if (results.length === 0) {
+    return (
+      <div className="text-center py-8 px-3">
+        <MessageSquare className="w-8 h-8 mx-auto text-muted-foreground/30 mb-2" />
+        <p className="text-xs text-muted-foreground font-sans break-words">No messages match &ldquo;{query}&rdquo;</p>
+      </div>
+    )
+  }
+  return (
+    <div className="space-y-1">
+      {results.map((result) => (
+        <button
+          key={`${result.conversationId}:${result.messageId}`}
+          onClick={() => onSelect(result)}
+          className="w-full text-left flex gap-2 px-3 py-2 rounded-lg font-sans hover:bg-sidebar-accent transition-colors"
+        >
+          <ResultBody result={result} />
+        </button>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Cmd/Ctrl+K palette over every message. Ranking comes from the search index,
+ * so cmdk's own filtering is turned off.
+ */
+export function SearchPalette({
+  open,
+  onOpenChange,
+  search,
+  onSelect,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  search: (query: string, limit?: number) => SearchResult[]
+  onSelect: (result: SearchResult) => void
+}) {
+  const [query, setQuery] = React.useState('')
+  const results = React.useMemo(() => (query.trim() ? search(query, PALETTE_LIMIT) : []), [query, search])
+
+  React.useEffect(() => {
+    if (!open) setQuery('')
+  }, [open])
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} commandProps={{ shouldFilter: false }}>
+      <DialogTitle className="sr-only">Search conversations</DialogTitle>
+      <CommandInput value={query} onValueChange={setQuery} placeholder="Search all conversations..." />
+      <CommandList className="max-h-[400px]">
+        {query.trim() && <CommandEmpty>No messages found.</CommandEmpty>}
+        {results.length > 0 && (
+          <CommandGroup heading="Messages">
+            {results.map((result) => (
+              <CommandItem
+                key={`${result.conversationId}:${result.messageId}`}
+                value={`${result.conversationId}:${result.messageId}`}
+                onSelect={() => {
+                  onSelect(result)
+                  onOpenChange(false)
+                }}
+                className="items-start"
+              >
+                <ResultBody result={result} />
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  )
+}
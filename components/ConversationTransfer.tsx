@@ -0,0 +1,96 @@
+'use client'
+
+import * as React from 'react'
+import { FileCode, FileJson, FileText } from 'lucide-react'
+import type { Conversation } from '@/lib/conversations'
+import { buildExport, parseJsonExport, type ExportFormat } from '@/lib/conversationExport'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+
+function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Give the browser a tick to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+export function exportConversations(conversations: Conversation[], format: ExportFormat) {
+  if (conversations.length === 0) return
+  const { filename, mimeType, content } = buildExport(conversations, format)
+  downloadFile(filename, content, mimeType)
+}
+
+/** Dropdown offering the three export formats for the given conversations. */
+export function ExportMenu({
+  conversations,
+  label,
+  children,
+}: {
+  conversations: Conversation[]
+  label: string
+  /** The trigger element */
+  children: React.ReactNode
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild disabled={conversations.length === 0}>
+        {children}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        <DropdownMenuLabel className="text-xs">{label}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => exportConversations(conversations, 'markdown')}>
+          <FileText className="w-4 h-4" /> Markdown
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => exportConversations(conversations, 'html')}>
+          <FileCode className="w-4 h-4" /> Printable HTML
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => exportConversations(conversations, 'json')}>
+          <FileJson className="w-4 h-4" /> JSON (re-importable)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+/**
+ * Hidden file input for JSON imports. Call `open()` to show the picker; the
+ * parsed, validated conversations (or an error) arrive through `onResult`.
+ */
+export const ImportConversationsInput = React.forwardRef<
+  { open: () => void },
+  { onResult: (result: { success: boolean; conversations: Conversation[]; error?: string }) => void }
+>(function ImportConversationsInput({ onResult }, ref) {
+  const inputRef = React.useRef<HTMLInputElement>(null)
+  React.useImperativeHandle(ref, () => ({ open: () => inputRef.current?.click() }), [])
+
+  return (
+    <input
+      ref={inputRef}
+      type="file"
+      accept="application/json,.json"
+      className="hidden"
+      onChange={async (e) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (!file) return
+        try {
+          onResult(parseJsonExport(await file.text()))
+        } catch {
+          onResult({ success: false, conversations: [], error: 'Could not read the file' })
+        }
+      }}
+    />
+  )
+})
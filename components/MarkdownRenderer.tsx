@@ -0,0 +1,163 @@
+'use client'
+
+import * as React from 'react'
+import ReactMarkdown, { type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import rehypeHighlight from 'rehype-highlight'
+import { Check, Copy } from 'lucide-react'
+import { useCopyToClipboard } from '@/lib/clipboard'
+import { cn } from '@/lib/utils'
+
+interface MarkdownRendererProps {
+  content: string
+  className?: string
+}
+
+const SAFE_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:']
+const SAFE_IMAGE_PROTOCOLS = ['http:', 'https:']
+
+/**
+ * Only allow known-safe URL schemes; anything else (javascript:, data:, vbscript:)
+ * is dropped. Relative URLs and in-page anchors pass through.
+ */
+function safeUrlTransform(url: string, key: string): string {
+  const trimmed = url.trim()
+  const schemeMatch = /^([a-z][a-z0-9+.-]*):/i.exec(trimmed)
+  if (!schemeMatch) return trimmed
+  const protocol = schemeMatch[1].toLowerCase() + ':'
+  const allowed = key === 'src' ? SAFE_IMAGE_PROTOCOLS : SAFE_LINK_PROTOCOLS
+  return allowed.includes(protocol) ? trimmed : ''
+}
+
+// Lets `code` tell fenced blocks apart from inline code
+const CodeBlockContext = React.createContext(false)
+
+/** Flatten a hast node to its text content (used for copying code). */
+function hastToText(node: any): string {
+  if (!node) return ''
+  if (node.type === 'text') return node.value
+  if (Array.isArray(node.children)) return node.children.map(hastToText).join('')
+  return ''
+}
+
+function CodeBlock({ node, children }: { node?: any; children?: React.ReactNode }) {
+  const [copy, copied] = useCopyToClipboard()
+  const codeNode = node?.children?.find((child: any) => child.tagName === 'code')
+  const classNames: string[] = codeNode?.properties?.className ?? []
+  const language = classNames.find((c) => c.startsWith('language-'))?.slice('language-'.length)
+  const code = hastToText(codeNode).replace(/\n$/, '')
+
+  return (
+    <div className="my-2 rounded-lg bg-muted overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-border">
+        <span className="text-[10px] uppercase tracking-wider text-muted-foreground font-mono">{language || 'text'}</span>
+        <button
+          onClick={() => copy(code)}
+          className="flex items-center gap-1 text-[10px] text-muted-foreground hover:text-foreground transition-colors"
+          title="Copy code"
+        >
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs font-mono text-foreground leading-relaxed">
+        <CodeBlockContext.Provider value={true}>{children}</CodeBlockContext.Provider>
+      </pre>
+    </div>
+  )
+}
+
+function InlineOrBlockCode({ className, children }: { className?: string; children?: React.ReactNode }) {
+  // Fenced blocks are styled by CodeBlock; only inline code gets the pill style
+  const inBlock = React.useContext(CodeBlockContext)
+  return inBlock ? (
+    <code className={className}>{children}</code>
+  ) : (
+    <code className="px-1.5 py-0.5 rounded bg-muted text-accent-foreground font-mono text-xs">{children}</code>
+  )
+}
+
+const components: Components = {
+  h1: ({ children }) => <h2 className="font-bold text-lg mt-4 mb-2 text-foreground">{children}</h2>,
+  h2: ({ children }) => <h3 className="font-semibold text-base mt-3 mb-1 text-foreground">{children}</h3>,
+  h3: ({ children }) => <h4 className="font-semibold text-sm mt-3 mb-1 text-foreground">{children}</h4>,
+  h4: ({ children }) => <h5 className="font-semibold text-sm mt-2 mb-1 text-foreground">{children}</h5>,
+  h5: ({ children }) => <h6 className="font-semibold text-sm mt-2 mb-1 text-foreground">{children}</h6>,
+  h6: ({ children }) => <h6 className="font-semibold text-xs mt-2 mb-1 text-foreground">{children}</h6>,
+  p: ({ children }) => <p className="text-sm leading-relaxed my-1.5">{children}</p>,
+  ul: ({ children, className }) => (
+    <ul className={cn('ml-5 my-1.5 space-y-0.5', className?.includes('contains-task-list') ? 'list-none ml-1' : 'list-disc')}>
+      {children}
+    </ul>
+  ),
+  ol: ({ children, start }) => (
+    <ol start={start} className="ml-5 my-1.5 space-y-0.5 list-decimal">
+      {children}
+    </ol>
+  ),
+  li: ({ children }) => <li className="text-sm leading-relaxed">{children}</li>,
+  input: ({ type, checked }) =>
+    type === 'checkbox' ? (
+      <input type="checkbox" checked={!!checked} readOnly disabled className="mr-1.5 align-middle accent-accent" />
+    ) : null,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-2 border-accent/60 pl-3 my-2 text-muted-foreground italic">{children}</blockquote>
+  ),
+  a: ({ href, children }) =>
+    href ? (
+      <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-accent underline underline-offset-2 hover:no-underline break-words">
+        {children}
+      </a>
+    ) : (
+      <span>{children}</span>
+    ),
+  img: ({ src, alt }) =>
+    src ? (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img src={src} alt={alt ?? ''} loading="lazy" referrerPolicy="no-referrer" className="max-w-full rounded-lg my-2" />
+    ) : null,
+  hr: () => <hr className="my-3 border-border" />,
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="w-full text-xs border-collapse">{children}</table>
+    </div>
+  ),
+  thead: ({ children }) => <thead className="bg-muted">{children}</thead>,
+  th: ({ children, style }) => (
+    <th style={style} className="border border-border px-2 py-1 text-left font-semibold">
+      {children}
+    </th>
+  ),
+  td: ({ children, style }) => (
+    <td style={style} className="border border-border px-2 py-1 align-top">
+      {children}
+    </td>
+  ),
+  strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+  em: ({ children }) => <em className="italic">{children}</em>,
+  del: ({ children }) => <del className="line-through opacity-70">{children}</del>,
+  pre: CodeBlock,
+  code: InlineOrBlockCode,
+}
+
+/**
+ * Render agent Markdown (GitHub-flavored) with syntax-highlighted code blocks.
+ * Raw HTML in the source is not rendered, and only http(s)/mailto/tel links survive.
+ */
+export function MarkdownRenderer({ content, className }: MarkdownRendererProps) {
+  if (!content) return null
+  return (
+    <div className={cn('markdown-body break-words', className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[[rehypeHighlight, { detect: false }]]}
+        urlTransform={safeUrlTransform}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  )
+}
+
+export default MarkdownRenderer
@@ -0,0 +1,232 @@
+'use client'
+
+import * as React from 'react'
+import { AlertTriangle, Bot, ChevronLeft, ChevronRight, CircleStop, Clock, Pencil, RefreshCw, User, X } from 'lucide-react'
+import type { ChatMessage, MessageAttachment } from '@/lib/conversations'
+import { MarkdownRenderer } from '@/components/MarkdownRenderer'
+import { MessageAttachments } from '@/components/ChatAttachments'
+import { ArtifactFiles } from '@/components/ArtifactFiles'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+
+export interface BranchNav {
+  index: number
+  total: number
+  onPrev: () => void
+  onNext: () => void
+}
+
+/**
+ * One chat message. Retry, edit, regenerate and branch controls only render
+ * when their handlers are passed, so a bubble without them is read-only.
+ */
+export function MessageBubble({
+  message,
+  disabled,
+  onRetry,
+  onEdit,
+  onRegenerate,
+  branch,
+}: {
+  message: ChatMessage
+  disabled?: boolean
+  onRetry?: () => void
+  onEdit?: (text: string) => void
+  onRegenerate?: () => void
+  branch?: BranchNav
+}) {
+  const isUser = message.role === 'user'
+  const [isEditing, setIsEditing] = React.useState(false)
+  const [draft, setDraft] = React.useState(message.content)
+
+  const submitEdit = () => {
+    const trimmed = draft.trim()
+    if ((!trimmed && !message.attachments?.length) || !onEdit) return
+    setIsEditing(false)
+    if (trimmed !== message.content) onEdit(trimmed)
+  }
+
+  return (
+    <div className={cn('flex items-end gap-3 max-w-[80%]', isUser ? 'ml-auto flex-row-reverse' : '', isEditing ? 'w-full' : '')}>
+      {!isUser && (
+        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-accent flex items-center justify-center">
+          <Bot className="w-4 h-4 text-accent-foreground" />
+        </div>
+      )}
+      {isUser && (
+        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted flex items-center justify-center">
+          <User className="w-4 h-4 text-muted-foreground" />
+        </div>
+      )}
+      <div className={cn('flex flex-col gap-1 min-w-0 group', isUser ? 'items-end' : 'items-start', isEditing ? 'flex-1' : '')}>
+        <MessageAttachments attachments={message.attachments} className={isUser ? 'justify-end' : ''} />
+        {isEditing ? (
+          <div className="w-full rounded-2xl border border-border bg-card p-3 space-y-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault()
+                  submitEdit()
+                } else if (e.key === 'Escape') {
+                  setIsEditing(false)
+                }
+              }}
+              autoFocus
+              rows={3}
+              className="w-full resize-none rounded-lg border border-border bg-input px-3 py-2 text-sm text-foreground font-sans leading-relaxed focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                className="h-7 text-xs bg-accent text-accent-foreground hover:bg-accent/80"
+                disabled={(!draft.trim() && !message.attachments?.length) || disabled}
+                onClick={submitEdit}
+              >
+                Save &amp; Submit
+              </Button>
+            </div>
+          </div>
+        ) : isUser && !message.content && !message.error ? null : (
+          <div
+            className={cn(
+              'rounded-2xl px-4 py-3',
+              isUser ? 'bg-accent text-accent-foreground rounded-br-md' : 'bg-secondary text-secondary-foreground rounded-bl-md',
+              message.error ? 'border border-destructive/50' : ''
+            )}
+          >
+            {isUser ? (
+              <p className="text-sm whitespace-pre-wrap leading-relaxed font-sans">{message.content}</p>
+            ) : message.streaming && !message.content ? (
+              <div className="flex items-center gap-1.5 py-1">
+                <span className="w-2 h-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: '0ms' }} />
+                <span className="w-2 h-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: '150ms' }} />
+                <span className="w-2 h-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: '300ms' }} />
+              </div>
+            ) : message.content || !message.stopReason ? (
+              <div className="text-sm text-secondary-foreground font-sans">
+                <MarkdownRenderer content={message.content} />
+                {message.streaming && <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-muted-foreground animate-pulse" />}
+                <ArtifactFiles artifacts={message.artifacts} className="mt-3" />
+              </div>
+            ) : null}
+            {message.stopReason === 'cancelled' && (
+              <div className={cn('flex items-center gap-1.5 text-xs text-muted-foreground font-sans', message.content && 'mt-2')}>
+                <CircleStop className="w-3.5 h-3.5" />
+                Response stopped
+              </div>
+            )}
+            {message.error && onRetry && (
+              <div className={cn('flex items-center gap-2', (message.content || !message.stopReason) && 'mt-2')}>
+                {message.stopReason === 'timeout' ? (
+                  <Clock className="w-3.5 h-3.5 text-destructive" />
+                ) : (
+                  <AlertTriangle className="w-3.5 h-3.5 text-destructive" />
+                )}
+                <span className="text-xs text-destructive">
+                  {message.stopReason === 'timeout' ? 'The agent timed out.' : 'Failed to send.'}
+                </span>
+                <button onClick={onRetry} disabled={disabled} className="text-xs text-accent underline hover:no-underline flex items-center gap-1 disabled:opacity-40">
+                  <RefreshCw className="w-3 h-3" />
+                  Retry
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Branch navigation and message actions */}
+        {!isEditing && !message.streaming && (branch || onEdit || onRegenerate) && (
+          <div className="flex items-center gap-1 text-muted-foreground">
+            {branch && (
+              <div className="flex items-center gap-0.5 text-[11px] font-sans">
+                <button
+                  onClick={branch.onPrev}
+                  disabled={disabled || branch.index === 0}
+                  className="p-0.5 rounded hover:bg-secondary disabled:opacity-30"
+                  title="Previous version"
+                >
+                  <ChevronLeft className="w-3.5 h-3.5" />
+                </button>
+                <span className="tabular-nums">
+                  {branch.index + 1}/{branch.total}
+                </span>
+                <button
+                  onClick={branch.onNext}
+                  disabled={disabled || branch.index === branch.total - 1}
+                  className="p-0.5 rounded hover:bg-secondary disabled:opacity-30"
+                  title="Next version"
+                >
+                  <ChevronRight className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+            {onEdit && (
+              <button
+                onClick={() => {
+                  setDraft(message.content)
+                  setIsEditing(true)
+                }}
+                disabled={disabled}
+                className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-secondary transition-opacity disabled:hidden"
+                title="Edit message"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+            )}
+            {onRegenerate && !message.error && (
+              <button
+                onClick={onRegenerate}
+                disabled={disabled}
+                className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-secondary transition-opacity disabled:hidden"
+                title="Regenerate response"
+              >
+                <RefreshCw className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/** A message waiting for the conversation's current reply to finish. */
+export function QueuedMessageBubble({
+  content,
+  attachments,
+  onRemove,
+}: {
+  content: string
+  attachments?: MessageAttachment[]
+  onRemove?: () => void
+}) {
+  return (
+    <div className="flex items-end gap-3 max-w-[80%] ml-auto flex-row-reverse">
+      <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted flex items-center justify-center">
+        <User className="w-4 h-4 text-muted-foreground" />
+      </div>
+      <div className="flex flex-col gap-1 min-w-0 items-end">
+        <MessageAttachments attachments={attachments} className="justify-end opacity-60" />
+        {content && (
+          <div className="rounded-2xl rounded-br-md px-4 py-3 border border-dashed border-accent/60 bg-accent/10 text-foreground">
+            <p className="text-sm whitespace-pre-wrap leading-relaxed font-sans">{content}</p>
+          </div>
+        )}
+        <div className="flex items-center gap-1 text-[11px] text-muted-foreground font-sans">
+          <Clock className="w-3 h-3" />
+          Queued
+          {onRemove && (
+            <button onClick={onRemove} className="ml-1 p-0.5 rounded hover:bg-secondary" title="Remove from queue">
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
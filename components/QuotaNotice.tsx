@@ -0,0 +1,25 @@
+'use client'
+
+import * as React from 'react'
+import { Gauge } from 'lucide-react'
+
+function describeReset(retryAt: number): string {
+  const reset = new Date(retryAt)
+  const time = reset.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+  return reset.toDateString() === new Date().toDateString() ? `at ${time}` : `${reset.toLocaleDateString()} at ${time}`
+}
+
+/** Shown above the composer while the daily message quota is used up. */
+export function QuotaNotice({ retryAt }: { retryAt: number }) {
+  return (
+    <div className="max-w-3xl mx-auto mb-3 flex items-start gap-3 rounded-xl border border-border bg-secondary px-4 py-3">
+      <Gauge className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+      <div className="text-sm font-sans">
+        <p className="font-medium text-foreground">You&apos;ve reached today&apos;s message limit</p>
+        <p className="text-xs text-muted-foreground mt-0.5">
+          You can send messages again {describeReset(retryAt)}. Your conversations are still available to read, search and export.
+        </p>
+      </div>
+    </div>
+  )
+}
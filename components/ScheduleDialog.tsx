@@ -0,0 +1,433 @@
+'use client'
+
+import * as React from 'react'
+import { CalendarClock, Loader2 } from 'lucide-react'
+import {
+  buildCron,
+  createSchedule,
+  cronToHuman,
+  DAY_NAMES,
+  DEFAULT_CRON_SPEC,
+  isValidCron,
+  parseCron,
+  replaceSchedule,
+  type CronFrequency,
+  type CronSpec,
+  type Schedule,
+} from '@/lib/scheduler'
+import { AGENTS, getAgent } from '@/lib/agentRegistry'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { cn } from '@/lib/utils'
+
+const FREQUENCY_OPTIONS: { value: CronFrequency; label: string }[] = [
+  { value: 'minutes', label: 'Every few minutes' },
+  { value: 'hourly', label: 'Every hour' },
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekdays', label: 'Every weekday' },
+  { value: 'weekly', label: 'On chosen days of the week' },
+  { value: 'monthly', label: 'Once a month' },
+  { value: 'custom', label: 'Custom cron expression' },
+]
+
+const INTERVAL_OPTIONS = [5, 10, 15, 20, 30]
+
+const FALLBACK_TIMEZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Paris',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+]
+
+function browserTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  } catch {
+    return 'UTC'
+  }
+}
+
+/** Every IANA zone the browser knows, with UTC first */
+function listTimezones(): string[] {
+  const supported = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf
+  const zones = supported ? supported('timeZone') : FALLBACK_TIMEZONES
+  return ['UTC', ...zones.filter((zone) => zone !== 'UTC')]
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// ─── Cron Builder ───
+
+function TimeFields({ spec, onChange, withHour }: { spec: CronSpec; onChange: (spec: CronSpec) => void; withHour: boolean }) {
+  return (
+    <div className="flex items-center gap-2">
+      {withHour && (
+        <>
+          <Select value={String(spec.hour)} onValueChange={(value) => onChange({ ...spec, hour: Number(value) })}>
+            <SelectTrigger className="h-9 w-20 text-xs font-mono" aria-label="Hour">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="max-h-64">
+              {Array.from({ length: 24 }, (_, hour) => (
+                <SelectItem key={hour} value={String(hour)} className="text-xs font-mono">
+                  {pad(hour)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">:</span>
+        </>
+      )}
+      <Select value={String(spec.minute)} onValueChange={(value) => onChange({ ...spec, minute: Number(value) })}>
+        <SelectTrigger className="h-9 w-20 text-xs font-mono" aria-label="Minute">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="max-h-64">
+          {Array.from({ length: 12 }, (_, i) => i * 5).map((minute) => (
+            <SelectItem key={minute} value={String(minute)} className="text-xs font-mono">
+              {withHour ? pad(minute) : `:${pad(minute)}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+function CronBuilder({ spec, onChange }: { spec: CronSpec; onChange: (spec: CronSpec) => void }) {
+  const toggleDay = (day: number) => {
+    const days = spec.daysOfWeek.includes(day)
+      ? spec.daysOfWeek.filter((d) => d !== day)
+      : [...spec.daysOfWeek, day]
+    onChange({ ...spec, daysOfWeek: days })
+  }
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={spec.frequency}
+        onValueChange={(value) =>
+          // Carry the current expression into the custom field so it can be tweaked
+          onChange({ ...spec, frequency: value as CronFrequency, expression: value === 'custom' ? buildCron(spec) : spec.expression })
+        }
+      >
+        <SelectTrigger className="h-9 text-xs font-sans">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FREQUENCY_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value} className="text-xs">
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {spec.frequency === 'minutes' && (
+        <div className="flex items-center gap-2 text-xs font-sans text-muted-foreground">
+          Every
+          <Select value={String(spec.interval)} onValueChange={(value) => onChange({ ...spec, interval: Number(value) })}>
+            <SelectTrigger className="h-9 w-20 text-xs font-mono">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INTERVAL_OPTIONS.map((interval) => (
+                <SelectItem key={interval} value={String(interval)} className="text-xs font-mono">
+                  {interval}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          minutes
+        </div>
+      )}
+
+      {spec.frequency === 'hourly' && (
+        <div className="flex items-center gap-2 text-xs font-sans text-muted-foreground">
+          At minute <TimeFields spec={spec} onChange={onChange} withHour={false} />
+        </div>
+      )}
+
+      {(spec.frequency === 'daily' || spec.frequency === 'weekdays') && (
+        <div className="flex items-center gap-2 text-xs font-sans text-muted-foreground">
+          At <TimeFields spec={spec} onChange={onChange} withHour />
+        </div>
+      )}
+
+      {spec.frequency === 'weekly' && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-1.5">
+            {DAY_NAMES.map((name, day) => (
+              <button
+                key={name}
+                type="button"
+                onClick={() => toggleDay(day)}
+                aria-pressed={spec.daysOfWeek.includes(day)}
+                className={cn(
+                  'h-8 px-2.5 rounded-md border text-xs font-sans transition-colors',
+                  spec.daysOfWeek.includes(day)
+                    ? 'border-accent bg-accent text-accent-foreground'
+                    : 'border-border text-muted-foreground hover:bg-secondary'
+                )}
+              >
+                {name.slice(0, 3)}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-xs font-sans text-muted-foreground">
+            At <TimeFields spec={spec} onChange={onChange} withHour />
+          </div>
+        </div>
+      )}
+
+      {spec.frequency === 'monthly' && (
+        <div className="flex items-center gap-2 text-xs font-sans text-muted-foreground">
+          On day
+          <Select value={String(spec.dayOfMonth)} onValueChange={(value) => onChange({ ...spec, dayOfMonth: Number(value) })}>
+            <SelectTrigger className="h-9 w-20 text-xs font-mono">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="max-h-64">
+              {/* Days 29–31 are skipped in shorter months, so stop at 28 */}
+              {Array.from({ length: 28 }, (_, i) => i + 1).map((day) => (
+                <SelectItem key={day} value={String(day)} className="text-xs font-mono">
+                  {day}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          at <TimeFields spec={spec} onChange={onChange} withHour />
+        </div>
+      )}
+
+      {spec.frequency === 'custom' && (
+        <div className="space-y-1">
+          <Input
+            value={spec.expression}
+            onChange={(e) => onChange({ ...spec, expression: e.target.value })}
+            placeholder="*/30 9-17 * * 1-5"
+            className="h-9 text-xs font-mono"
+            aria-label="Cron expression"
+          />
+          <p className="text-[11px] text-muted-foreground font-sans">
+            Five fields: minute, hour, day of month, month, day of week.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ─── Timezone Picker ───
+
+function TimezonePicker({ value, onChange }: { value: string; onChange: (timezone: string) => void }) {
+  const timezones = React.useMemo(() => {
+    const zones = listTimezones()
+    return zones.includes(value) ? zones : [value, ...zones]
+  }, [value])
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id="schedule-timezone" className="h-9 text-xs font-sans">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="max-h-72">
+        {timezones.map((zone) => (
+          <SelectItem key={zone} value={zone} className="text-xs">
+            {zone.replace(/_/g, ' ')}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+// ─── Schedule Dialog ───
+
+/**
+ * Create a schedule, or edit `schedule` when one is given. Edits replace the
+ * schedule (the scheduler API cannot update one in place), so its run history
+ * starts over.
+ */
+export function ScheduleDialog({
+  open,
+  onOpenChange,
+  schedule,
+  onSaved,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** The schedule to edit; omit to create a new one */
+  schedule?: Schedule | null
+  onSaved: (schedule: Schedule) => void
+}) {
+  const schedulable = React.useMemo(() => AGENTS.filter((agent) => agent.capabilities.has_schedule), [])
+  const agentOptions = schedulable.length > 0 ? schedulable : AGENTS
+
+  const [agentId, setAgentId] = React.useState('')
+  const [message, setMessage] = React.useState('')
+  const [spec, setSpec] = React.useState<CronSpec>(DEFAULT_CRON_SPEC)
+  const [timezone, setTimezone] = React.useState('UTC')
+  const [maxRetries, setMaxRetries] = React.useState(3)
+  const [saving, setSaving] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  // Reset the form each time the dialog opens
+  React.useEffect(() => {
+    if (!open) return
+    setAgentId(schedule?.agent_id ?? agentOptions[0]?.id ?? '')
+    setMessage(schedule?.message ?? '')
+    setSpec(schedule ? parseCron(schedule.cron_expression) : DEFAULT_CRON_SPEC)
+    setTimezone(schedule?.timezone || browserTimezone())
+    setMaxRetries(schedule?.max_retries ?? 3)
+    setSaving(false)
+    setError(null)
+  }, [open, schedule, agentOptions])
+
+  const cron = buildCron(spec)
+  const cronValid = isValidCron(cron) && !(spec.frequency === 'weekly' && spec.daysOfWeek.length === 0)
+  const canSave = !!agentId && message.trim().length > 0 && cronValid && !saving
+
+  const save = async () => {
+    setSaving(true)
+    setError(null)
+    const params = {
+      agent_id: agentId,
+      message: message.trim(),
+      cron_expression: cron,
+      timezone,
+      max_retries: maxRetries,
+      retry_delay: schedule?.retry_delay,
+    }
+    const result = schedule ? await replaceSchedule(schedule.id, params) : await createSchedule(params)
+    setSaving(false)
+    if (result.schedule) onSaved(result.schedule)
+    if (!result.success || !result.schedule) {
+      setError(result.error ?? 'Could not save schedule')
+      return
+    }
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif">{schedule ? 'Edit schedule' : 'New schedule'}</DialogTitle>
+          <DialogDescription className="font-sans text-xs">
+            {schedule
+              ? 'Saving replaces this schedule with a new one, so its run history starts over.'
+              : 'Send a message to an agent on a recurring schedule.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="schedule-agent" className="text-xs">Agent</Label>
+            <Select value={agentId} onValueChange={setAgentId}>
+              <SelectTrigger id="schedule-agent" className="h-9 text-xs font-sans">
+                <SelectValue placeholder="Choose an agent" />
+              </SelectTrigger>
+              <SelectContent>
+                {agentOptions.map((agent) => (
+                  <SelectItem key={agent.id} value={agent.id} className="text-xs">
+                    {agent.name}
+                  </SelectItem>
+                ))}
+                {agentId && !getAgent(agentId) && (
+                  <SelectItem value={agentId} className="text-xs font-mono">
+                    {agentId}
+                  </SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-message" className="text-xs">Message</Label>
+            <Textarea
+              id="schedule-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Summarize yesterday's support tickets"
+              className="min-h-[80px] text-sm font-sans"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Repeat</Label>
+            <CronBuilder spec={spec} onChange={setSpec} />
+            <p className={cn('flex items-center gap-1.5 text-xs font-sans', cronValid ? 'text-muted-foreground' : 'text-destructive')}>
+              <CalendarClock className="w-3.5 h-3.5 flex-shrink-0" />
+              {cronValid ? (
+                <>
+                  {cronToHuman(cron)} <span className="font-mono text-[11px]">({cron})</span>
+                </>
+              ) : (
+                'Enter a valid schedule'
+              )}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-[1fr_auto] gap-3">
+            <div className="space-y-2 min-w-0">
+              <Label htmlFor="schedule-timezone" className="text-xs">Timezone</Label>
+              <TimezonePicker value={timezone} onChange={setTimezone} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-retries" className="text-xs">Retries</Label>
+              <Input
+                id="schedule-retries"
+                type="number"
+                min={0}
+                max={10}
+                value={maxRetries}
+                onChange={(e) => setMaxRetries(Math.min(10, Math.max(0, Number(e.target.value) || 0)))}
+                className="h-9 w-20 text-xs font-mono"
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-xs text-destructive font-sans break-words">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} className="h-9 text-xs">
+            Cancel
+          </Button>
+          <Button
+            onClick={save}
+            disabled={!canSave}
+            className="h-9 gap-1.5 text-xs bg-accent text-accent-foreground hover:bg-accent/80"
+          >
+            {saving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+            {schedule ? 'Save changes' : 'Create schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,160 @@
+'use client'
+
+import * as React from 'react'
+import { CheckCircle2, Loader2, RefreshCw, XCircle } from 'lucide-react'
+import { cronToHuman, executionOutputText, getScheduleLogs, type ExecutionLog, type Schedule } from '@/lib/scheduler'
+import { getAgent } from '@/lib/agentRegistry'
+import { MarkdownRenderer } from '@/components/MarkdownRenderer'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+
+const PAGE_SIZE = 20
+
+// ─── Execution Row ───
+
+function ExecutionRow({ execution }: { execution: ExecutionLog }) {
+  const [expanded, setExpanded] = React.useState(false)
+  const output = executionOutputText(execution)
+
+  return (
+    <div className="rounded-lg border border-border p-3 space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        {execution.success ? (
+          <Badge variant="secondary" className="gap-1 text-[11px]">
+            <CheckCircle2 className="w-3 h-3 text-green-600" /> Success
+          </Badge>
+        ) : (
+          <Badge variant="destructive" className="gap-1 text-[11px]">
+            <XCircle className="w-3 h-3" /> Failed
+          </Badge>
+        )}
+        <span className="text-xs text-foreground font-sans">{new Date(execution.executed_at).toLocaleString()}</span>
+        <span className="ml-auto text-[11px] text-muted-foreground font-sans">
+          Attempt {execution.attempt}/{execution.max_attempts}
+          {execution.response_status ? ` · HTTP ${execution.response_status}` : ''}
+        </span>
+      </div>
+
+      {execution.error_message && (
+        <p className="text-xs text-destructive font-sans break-words">{execution.error_message}</p>
+      )}
+
+      {output && (
+        <div>
+          <div className={expanded ? undefined : 'max-h-40 overflow-hidden'}>
+            <MarkdownRenderer content={output} className="text-sm" />
+          </div>
+          {output.length > 400 && (
+            <button
+              type="button"
+              onClick={() => setExpanded((prev) => !prev)}
+              className="mt-1 text-xs text-accent underline hover:no-underline font-sans"
+            >
+              {expanded ? 'Show less' : 'Show full response'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ─── Schedule Logs ───
+
+/** Execution history of a schedule, newest first, a page at a time. */
+export function ScheduleLogs({
+  schedule,
+  onOpenChange,
+}: {
+  /** The schedule to show; the sheet is open while one is set */
+  schedule: Schedule | null
+  onOpenChange: (open: boolean) => void
+}) {
+  const [executions, setExecutions] = React.useState<ExecutionLog[]>([])
+  const [total, setTotal] = React.useState(0)
+  const [loading, setLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const requestRef = React.useRef(0)
+
+  const load = React.useCallback(async (scheduleId: string, skip: number) => {
+    const request = ++requestRef.current
+    setLoading(true)
+    setError(null)
+    const result = await getScheduleLogs(scheduleId, { skip, limit: PAGE_SIZE })
+    // A newer request (another schedule, or a refresh) has taken over
+    if (request !== requestRef.current) return
+    if (result.success) {
+      setExecutions((prev) => (skip === 0 ? result.executions : [...prev, ...result.executions]))
+      setTotal(result.total)
+    } else {
+      setError(result.error ?? 'Could not load run history')
+    }
+    setLoading(false)
+  }, [])
+
+  React.useEffect(() => {
+    setExecutions([])
+    setTotal(0)
+    if (schedule) load(schedule.id, 0)
+    else requestRef.current++
+  }, [schedule, load])
+
+  const agentName = schedule ? getAgent(schedule.agent_id)?.name ?? schedule.agent_id : ''
+
+  return (
+    <Sheet open={!!schedule} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-serif">Run history</SheetTitle>
+          {schedule && (
+            <SheetDescription className="font-sans text-xs">
+              {agentName} · {cronToHuman(schedule.cron_expression)} ({schedule.timezone})
+            </SheetDescription>
+          )}
+        </SheetHeader>
+
+        {schedule && (
+          <div className="mt-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <p className="flex-1 text-[11px] uppercase tracking-wider text-muted-foreground font-sans">
+                {total} {total === 1 ? 'run' : 'runs'}
+              </p>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 gap-1.5 px-2 text-xs"
+                disabled={loading}
+                onClick={() => load(schedule.id, 0)}
+              >
+                <RefreshCw className="w-3.5 h-3.5" /> Refresh
+              </Button>
+            </div>
+
+            {error && <p className="text-xs text-destructive font-sans break-words">{error}</p>}
+
+            {executions.map((execution) => (
+              <ExecutionRow key={execution.id} execution={execution} />
+            ))}
+
+            {loading ? (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Loader2 className="w-3 h-3 animate-spin" /> Loading…
+              </div>
+            ) : executions.length === 0 && !error ? (
+              <p className="text-xs text-muted-foreground font-sans">This schedule has not run yet.</p>
+            ) : executions.length < total ? (
+              <Button
+                variant="outline"
+                className="w-full h-8 text-xs"
+                onClick={() => load(schedule.id, executions.length)}
+              >
+                Load more
+              </Button>
+            ) : null}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
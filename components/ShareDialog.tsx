@@ -0,0 +1,190 @@
+'use client'
+
+import * as React from 'react'
+import { Check, Copy, Link2, Loader2, Trash2 } from 'lucide-react'
+import type { Conversation } from '@/lib/conversations'
+import { createShare, listShares, revokeShare, shareUrl, type ShareSummary } from '@/lib/shareClient'
+import { copyToClipboard } from '@/lib/clipboard'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+const EXPIRY_OPTIONS: { value: string; label: string; days: number | null }[] = [
+  { value: 'never', label: 'Never expires', days: null },
+  { value: '1', label: 'Expires in 1 day', days: 1 },
+  { value: '7', label: 'Expires in 7 days', days: 7 },
+  { value: '30', label: 'Expires in 30 days', days: 30 },
+]
+
+function describeExpiry(share: ShareSummary): string {
+  if (share.expiresAt === null) return 'Never expires'
+  if (share.expiresAt <= Date.now()) return 'Expired'
+  return `Expires ${new Date(share.expiresAt).toLocaleDateString()}`
+}
+
+function ShareRow({ share, onRevoke }: { share: ShareSummary; onRevoke: () => Promise<void> }) {
+  const [copied, setCopied] = React.useState(false)
+  const [revoking, setRevoking] = React.useState(false)
+  const url = shareUrl(share.id)
+
+  return (
+    <div className="flex items-center gap-2 rounded-lg border border-border px-3 py-2">
+      <div className="min-w-0 flex-1">
+        <a href={url} target="_blank" rel="noopener noreferrer" className="block truncate text-xs font-mono text-foreground hover:underline">
+          {url}
+        </a>
+        <p className="text-[10px] text-muted-foreground font-sans">
+          Created {new Date(share.createdAt).toLocaleString()} · {describeExpiry(share)}
+        </p>
+      </div>
+      <Button
+        size="sm"
+        variant="ghost"
+        className="h-7 px-2"
+        title="Copy link"
+        onClick={async () => {
+          if (await copyToClipboard(url)) {
+            setCopied(true)
+            setTimeout(() => setCopied(false), 1500)
+          }
+        }}
+      >
+        {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+      </Button>
+      <Button
+        size="sm"
+        variant="ghost"
+        className="h-7 px-2 text-destructive hover:text-destructive"
+        title="Revoke link"
+        disabled={revoking}
+        onClick={async () => {
+          setRevoking(true)
+          await onRevoke()
+          setRevoking(false)
+        }}
+      >
+        {revoking ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Create, copy and revoke read-only links to a conversation. Each link is a
+ * snapshot of the displayed branch at the time it was created.
+ */
+export function ShareDialog({
+  conversation,
+  children,
+}: {
+  conversation: Conversation
+  /** The trigger element */
+  children: React.ReactNode
+}) {
+  const [open, setOpen] = React.useState(false)
+  const [expiry, setExpiry] = React.useState('never')
+  const [shares, setShares] = React.useState<ShareSummary[]>([])
+  const [loading, setLoading] = React.useState(false)
+  const [creating, setCreating] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    listShares(conversation.id).then((result) => {
+      if (cancelled) return
+      setShares(result.shares)
+      if (!result.success) setError(result.error ?? 'Could not load links')
+      setLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [open, conversation.id])
+
+  const create = async () => {
+    setCreating(true)
+    setError(null)
+    const days = EXPIRY_OPTIONS.find((option) => option.value === expiry)?.days ?? null
+    const result = await createShare(conversation, days)
+    setCreating(false)
+    if (!result.success || !result.share) {
+      setError(result.error ?? 'Could not create link')
+      return
+    }
+    const created = result.share
+    setShares((prev) => [created, ...prev])
+    await copyToClipboard(shareUrl(created.id))
+  }
+
+  const revoke = async (id: string) => {
+    const result = await revokeShare(id)
+    if (result.success) setShares((prev) => prev.filter((share) => share.id !== id))
+    else setError(result.error ?? 'Could not revoke link')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-serif">Share conversation</DialogTitle>
+          <DialogDescription className="font-sans text-xs">
+            Anyone with the link can read a copy of this conversation as it is now. Later messages are not included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="h-9 flex-1 text-xs font-sans">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value} className="text-xs">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={create}
+            disabled={creating}
+            className="h-9 gap-1.5 text-xs bg-accent text-accent-foreground hover:bg-accent/80"
+          >
+            {creating ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Link2 className="w-3.5 h-3.5" />}
+            Create &amp; copy link
+          </Button>
+        </div>
+
+        {error && <p className="text-xs text-destructive font-sans break-words">{error}</p>}
+
+        <div className="space-y-2">
+          <p className="text-[11px] uppercase tracking-wider text-muted-foreground font-sans">Active links</p>
+          {loading ? (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="w-3 h-3 animate-spin" /> Loading…
+            </div>
+          ) : shares.length === 0 ? (
+            <p className="text-xs text-muted-foreground font-sans">This conversation has not been shared.</p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {shares.map((share) => (
+                <ShareRow key={share.id} share={share} onRevoke={() => revoke(share.id)} />
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,91 @@
+import { expect, test } from '@playwright/test'
+import { signUp } from './helpers'
+
+test('a signed-out visitor is sent to sign in', async ({ page }) => {
+  await page.goto('/')
+  await expect(page).toHaveURL(/\/login\?next=%2F/)
+  await expect(page.getByRole('heading', { name: 'Sign in to SimpleChat' })).toBeVisible()
+})
+
+test('streams the mock reply into the conversation', async ({ page }) => {
+  const username = await signUp(page)
+  await expect(page.getByText(username)).toBeVisible()
+
+  const composer = page.getByPlaceholder('Type a message...')
+  await composer.fill('hello')
+  await composer.press('Enter')
+
+  await expect(page.getByText('Hello! This reply comes from the mock Lyzr server.')).toBeVisible()
+})
+
+test('shows an upstream failure in the conversation', async ({ page }) => {
+  await signUp(page)
+  const composer = page.getByPlaceholder('Type a message...')
+  await composer.fill('fail')
+  await composer.press('Enter')
+
+  await expect(page.getByText(/Mock upstream failure|500/).first()).toBeVisible()
+})
+
+test('signing out returns to the sign-in page', async ({ page }) => {
+  await signUp(page)
+  await page.getByRole('button', { name: 'Sign out' }).click()
+  await expect(page).toHaveURL(/\/login/)
+})
+
+test('retrying a failed reply sends the message again', async ({ page }) => {
+  await signUp(page)
+  const composer = page.getByPlaceholder('Type a message...')
+  await composer.fill('fail')
+  await composer.press('Enter')
+  await expect(page.getByRole('button', { name: 'Retry' })).toBeVisible()
+
+  const resent = page.waitForRequest(
+    (request) => request.url().endsWith('/api/agent') && request.method() === 'POST' && (request.postData() ?? '').includes('"fail"')
+  )
+  await page.getByRole('button', { name: 'Retry' }).click()
+  await resent
+  await expect(page.getByRole('button', { name: 'Retry' })).toBeVisible()
+})
+
+test('new chat starts an empty conversation and keeps the old one', async ({ page }) => {
+  await signUp(page)
+  const composer = page.getByPlaceholder('Type a message...')
+  await composer.fill('hello')
+  await composer.press('Enter')
+  await expect(page.getByText('Hello! This reply comes from the mock Lyzr server.')).toBeVisible()
+
+  await page.getByRole('button', { name: 'New Chat' }).click()
+  await expect(page.getByText('Hello! This reply comes from the mock Lyzr server.')).toHaveCount(0)
+  const sidebar = page.locator('aside')
+  await expect(sidebar.locator('[role="button"]', { hasText: 'hello' })).toBeVisible()
+})
+
+test('deleting a conversation removes it from the sidebar', async ({ page }) => {
+  await signUp(page)
+  const composer = page.getByPlaceholder('Type a message...')
+  await composer.fill('delete me')
+  await composer.press('Enter')
+  await expect(page.getByText('Mock reply to: delete me')).toBeVisible()
+
+  const item = page.locator('aside [role="button"]', { hasText: 'delete me' })
+  await item.hover()
+  await item.getByTitle('Conversation actions').click()
+  await page.getByRole('menuitem', { name: 'Delete' }).click()
+  await page.getByRole('alertdialog').getByRole('button', { name: 'Delete' }).click()
+
+  await expect(item).toHaveCount(0)
+  await expect(page.getByText('Mock reply to: delete me')).toHaveCount(0)
+})
+
+test('conversations survive a reload', async ({ page }) => {
+  await signUp(page)
+  const composer = page.getByPlaceholder('Type a message...')
+  await composer.fill('remember this')
+  await composer.press('Enter')
+  await expect(page.getByText('Mock reply to: remember this')).toBeVisible()
+
+  await page.reload()
+  await page.locator('aside [role="button"]', { hasText: 'remember this' }).click()
+  await expect(page.getByText('Mock reply to: remember this')).toBeVisible()
+})
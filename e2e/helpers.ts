@@ -0,0 +1,14 @@
+import { expect, type Page } from '@playwright/test'
+
+/** Create a fresh account through the sign-in page and land on the chat */
+export async function signUp(page: Page, path = '/'): Promise<string> {
+  const username = `e2e-${Date.now()}-${Math.floor(Math.random() * 1000)}`
+  await page.goto(path)
+  await expect(page).toHaveURL(/\/login/)
+  await page.getByRole('button', { name: 'Create an account' }).click()
+  await page.getByLabel('Username').fill(username)
+  await page.getByLabel('Password').fill('correct horse battery')
+  await page.getByRole('button', { name: 'Create account' }).click()
+  await expect(page).toHaveURL(new RegExp(`^https?://[^/]+${path}$`))
+  return username
+}
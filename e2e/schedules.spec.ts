@@ -0,0 +1,63 @@
+import { expect, test } from '@playwright/test'
+import { signUp } from './helpers'
+
+test('creates, runs, pauses and deletes a schedule', async ({ page }) => {
+  await signUp(page, '/schedules')
+  await expect(page.getByText('No schedules yet.')).toBeVisible()
+
+  // Create
+  await page.getByRole('button', { name: 'New schedule' }).click()
+  const dialog = page.getByRole('dialog')
+  await dialog.getByLabel('Message').fill('Morning digest')
+  await expect(dialog.getByText('Every day at 9:00')).toBeVisible()
+  await dialog.getByRole('button', { name: 'Create schedule' }).click()
+  await expect(dialog).toBeHidden()
+
+  const row = page.getByRole('row', { name: /Morning digest/ })
+  await expect(row).toBeVisible()
+  await expect(row.getByText('Every day at 9:00')).toBeVisible()
+  await expect(row.getByText('Never run')).toBeVisible()
+
+  // Run now, then read the result in the run history
+  await row.getByTitle('Run now').click()
+  await expect(page.getByText(/Run started/)).toBeVisible()
+  await row.getByTitle('Run history').click()
+  const history = page.getByRole('dialog')
+  await expect(history.getByText('1 run')).toBeVisible()
+  await expect(history.getByText('Success')).toBeVisible()
+  await expect(history.getByText('Mock reply to: Morning digest')).toBeVisible()
+  await page.keyboard.press('Escape')
+
+  // Pause
+  await row.getByRole('switch', { name: 'Pause schedule' }).click()
+  await expect(row.getByText('Paused')).toBeVisible()
+  await expect(row.getByRole('switch', { name: 'Resume schedule' })).toBeVisible()
+
+  // Delete
+  await row.getByTitle('Delete').click()
+  await page.getByRole('alertdialog').getByRole('button', { name: 'Delete' }).click()
+  await expect(page.getByText('No schedules yet.')).toBeVisible()
+})
+
+test('edits a schedule with the cron builder', async ({ page }) => {
+  await signUp(page, '/schedules')
+
+  await page.getByRole('button', { name: 'New schedule' }).click()
+  let dialog = page.getByRole('dialog')
+  await dialog.getByLabel('Message').fill('Weekly report')
+  await dialog.getByRole('button', { name: 'Create schedule' }).click()
+  await expect(dialog).toBeHidden()
+
+  const row = page.getByRole('row', { name: /Weekly report/ })
+  await row.getByTitle('Edit').click()
+  dialog = page.getByRole('dialog')
+  await dialog.getByRole('combobox').filter({ hasText: 'Every day' }).click()
+  await page.getByRole('option', { name: 'On chosen days of the week' }).click()
+  await dialog.getByRole('button', { name: 'Fri' }).click()
+  await expect(dialog.getByText('Every Monday and Friday at 9:00')).toBeVisible()
+  await dialog.getByRole('button', { name: 'Save changes' }).click()
+  await expect(dialog).toBeHidden()
+
+  await expect(page.getByRole('row', { name: /Weekly report/ }).getByText('Every Monday and Friday at 9:00')).toBeVisible()
+  await expect(page.getByRole('row', { name: /Weekly report/ })).toHaveCount(1)
+})
@@ -6,14 +6,14 @@
  *
  * @example
  * ```tsx
- * const { callAgent, loading, error, response } = useAgent({ agentId: 'xxx' })
+ * const { callAgent, cancel, loading, error, response } = useAgent({ agentId: 'xxx' })
  *
  * // response is NormalizedAgentResponse:
  * // { status: 'success', result: {...}, message?: string }
  * ```
  */
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef } from 'react'
 import { isInIframe, sendErrorToParent, requestFixFromParent } from '@/components/ErrorBoundary'
 import { callAIAgent, NormalizedAgentResponse, AIAgentResponse } from '@/lib/aiAgent'
 
@@ -44,6 +44,8 @@ interface AgentCallOptions {
   agentId?: string
   userId?: string
   sessionId?: string
+  /** Aborts this call in addition to cancel() */
+  signal?: AbortSignal
 }
 
 interface UseAgentResult {
@@ -51,6 +53,8 @@ interface UseAgentResult {
   response: NormalizedAgentResponse
   raw_response?: string
   error?: ErrorDetails
+  /** The call was cancelled; no error is reported for it */
+  cancelled?: boolean
 }
 
 // =============================================================================
@@ -122,9 +126,10 @@ export const useAgent = (options: UseAgentOptions = {}) => {
   const [error, setError] = useState<ErrorDetails | null>(null)
   const [response, setResponse] = useState<NormalizedAgentResponse | null>(null)
   const [lastResult, setLastResult] = useState<AIAgentResponse | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
 
   const callAgent = useCallback(async (callOptions: AgentCallOptions): Promise<UseAgentResult> => {
-    const { message, agentId, userId, sessionId } = callOptions
+    const { message, agentId, userId, sessionId, signal } = callOptions
     const finalAgentId = agentId || options.agentId || process.env.NEXT_PUBLIC_AGENT_ID
 
     if (!finalAgentId) {
@@ -137,6 +142,14 @@ export const useAgent = (options: UseAgentOptions = {}) => {
       }
     }
 
+    // Only one call is in flight per hook; a new call supersedes the last
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+    const onAbort = () => controller.abort()
+    signal?.addEventListener('abort', onAbort, { once: true })
+    if (signal?.aborted) controller.abort()
+
     setLoading(true)
     setError(null)
 
@@ -145,8 +158,13 @@ export const useAgent = (options: UseAgentOptions = {}) => {
       const result = await callAIAgent(message, finalAgentId, {
         user_id: userId,
         session_id: sessionId,
+        signal: controller.signal,
       })
 
+      if (result.error_code === 'cancelled') {
+        return { success: false, response: result.response, cancelled: true }
+      }
+
       setLastResult(result)
       setResponse(result.response)
 
@@ -231,10 +249,18 @@ export const useAgent = (options: UseAgentOptions = {}) => {
       }
 
     } finally {
-      setLoading(false)
+      signal?.removeEventListener('abort', onAbort)
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        setLoading(false)
+      }
     }
   }, [options])
 
+  const cancel = useCallback(() => {
+    abortRef.current?.abort()
+  }, [])
+
   const requestFix = useCallback(() => {
     if (error) {
       requestFixFromParent(error)
@@ -247,6 +273,7 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 
   return {
     callAgent,
+    cancel,
     loading,
     error,
     response,
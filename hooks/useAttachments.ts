@@ -0,0 +1,200 @@
+/**
+ * useAttachments Hook
+ *
+ * Composer-side state for files attached to the next message. Every file starts
+ * uploading as soon as it is added, with its own progress and error, so the
+ * message can be sent with asset ids that already exist.
+ *
+ * @example
+ * ```tsx
+ * const attachments = useAttachments()
+ * attachments.addFiles(event.dataTransfer.files)
+ * if (attachments.isReady) send(text, attachments.uploaded)
+ * ```
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { uploadFile } from '@/lib/aiAgent'
+import type { MessageAttachment } from '@/lib/conversations'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PendingAttachment {
+  id: string
+  file: File
+  status: 'uploading' | 'uploaded' | 'error'
+  /** 0–1 */
+  progress: number
+  /** Object URL for image previews in the composer */
+  previewUrl?: string
+  /** Data-URL thumbnail persisted with the message */
+  thumbnail?: string
+  assetId?: string
+  error?: string
+}
+
+// =============================================================================
+// Limits
+// =============================================================================
+
+export const MAX_ATTACHMENTS = 10
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024
+
+const THUMBNAIL_SIZE = 160
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Downscale an image to a small JPEG data URL; resolves undefined if it cannot be decoded. */
+function createThumbnail(url: string): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    const img = new Image()
+    img.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height))
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.max(1, Math.round(img.width * scale))
+      canvas.height = Math.max(1, Math.round(img.height * scale))
+      const ctx = canvas.getContext('2d')
+      if (!ctx) {
+        resolve(undefined)
+        return
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+      resolve(canvas.toDataURL('image/jpeg', 0.7))
+    }
+    img.onerror = () => resolve(undefined)
+    img.src = url
+  })
+}
+
+function formatLimit(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`
+}
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+export function useAttachments() {
+  const [items, setItems] = useState<PendingAttachment[]>([])
+  const itemsRef = useRef(items)
+  itemsRef.current = items
+  const controllers = useRef(new Map<string, AbortController>())
+
+  const update = useCallback((id: string, patch: Partial<PendingAttachment>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)))
+  }, [])
+
+  const startUpload = useCallback(
+    async (item: PendingAttachment) => {
+      const controller = new AbortController()
+      controllers.current.set(item.id, controller)
+
+      const result = await uploadFile(item.file, {
+        signal: controller.signal,
+        onProgress: (progress) => update(item.id, { progress }),
+      })
+
+      controllers.current.delete(item.id)
+      if (controller.signal.aborted) return
+
+      const assetId = result.asset_ids?.[0]
+      if (result.success && assetId) {
+        update(item.id, { status: 'uploaded', progress: 1, assetId })
+      } else {
+        update(item.id, { status: 'error', error: result.error || result.message || 'Upload failed' })
+      }
+    },
+    [update]
+  )
+
+  const addFiles = useCallback(
+    (files: FileList | File[]) => {
+      const incoming = Array.from(files).slice(0, Math.max(0, MAX_ATTACHMENTS - itemsRef.current.length))
+
+      const added: PendingAttachment[] = incoming.map((file) => {
+        const id = `att-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
+        const previewUrl = file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined
+        if (file.size > MAX_ATTACHMENT_BYTES) {
+          return { id, file, previewUrl, status: 'error', progress: 0, error: `Larger than ${formatLimit(MAX_ATTACHMENT_BYTES)}` }
+        }
+        return { id, file, previewUrl, status: 'uploading', progress: 0 }
+      })
+      if (added.length === 0) return
+
+      setItems((prev) => [...prev, ...added])
+
+      for (const item of added) {
+        if (item.previewUrl) {
+          createThumbnail(item.previewUrl).then((thumbnail) => thumbnail && update(item.id, { thumbnail }))
+        }
+        if (item.status === 'uploading') startUpload(item)
+      }
+    },
+    [startUpload, update]
+  )
+
+  const retry = useCallback(
+    (id: string) => {
+      const item = itemsRef.current.find((i) => i.id === id)
+      if (!item || item.status !== 'error' || item.file.size > MAX_ATTACHMENT_BYTES) return
+      update(id, { status: 'uploading', progress: 0, error: undefined })
+      startUpload(item)
+    },
+    [startUpload, update]
+  )
+
+  const remove = useCallback((id: string) => {
+    controllers.current.get(id)?.abort()
+    controllers.current.delete(id)
+    setItems((prev) => {
+      const item = prev.find((i) => i.id === id)
+      if (item?.previewUrl) URL.revokeObjectURL(item.previewUrl)
+      return prev.filter((i) => i.id !== id)
+    })
+  }, [])
+
+  /** Forget every attachment, e.g. once the message has been sent. */
+  const clear = useCallback(() => {
+    controllers.current.forEach((controller) => controller.abort())
+    controllers.current.clear()
+    setItems((prev) => {
+      prev.forEach((item) => item.previewUrl && URL.revokeObjectURL(item.previewUrl))
+      return []
+    })
+  }, [])
+
+  // Release object URLs and in-flight uploads on unmount
+  useEffect(() => {
+    const active = controllers.current
+    return () => {
+      active.forEach((controller) => controller.abort())
+      itemsRef.current.forEach((item) => item.previewUrl && URL.revokeObjectURL(item.previewUrl))
+    }
+  }, [])
+
+  const uploaded: MessageAttachment[] = items
+    .filter((item) => item.status === 'uploaded' && item.assetId)
+    .map((item) => ({
+      assetId: item.assetId!,
+      name: item.file.name,
+      mimeType: item.file.type || 'application/octet-stream',
+      size: item.file.size,
+      ...(item.thumbnail && { thumbnail: item.thumbnail }),
+    }))
+
+  return {
+    items,
+    uploaded,
+    addFiles,
+    retry,
+    remove,
+    clear,
+    isUploading: items.some((item) => item.status === 'uploading'),
+    /** Every attachment uploaded and none failed */
+    isReady: items.every((item) => item.status === 'uploaded'),
+  }
+}
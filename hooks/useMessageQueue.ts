@@ -0,0 +1,69 @@
+/**
+ * useMessageQueue Hook
+ *
+ * Per-conversation queue of messages typed while that conversation is still
+ * waiting for a reply. The page drains a conversation's queue in order once
+ * its current request settles. Queues live in memory only; they are not part
+ * of the stored Conversation.
+ *
+ * @example
+ * ```tsx
+ * const queue = useMessageQueue()
+ * if (isBusy(convo.id)) queue.enqueue(convo.id, { text, attachments })
+ * ```
+ */
+
+import { useState, useCallback, useMemo } from 'react'
+import type { MessageAttachment } from '@/lib/conversations'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface QueuedMessage {
+  id: string
+  text: string
+  attachments: MessageAttachment[]
+  queuedAt: number
+}
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+let nextQueuedId = 0
+
+export function useMessageQueue() {
+  // conversation id → messages waiting to be sent, oldest first
+  const [queues, setQueues] = useState<Record<string, QueuedMessage[]>>({})
+
+  const enqueue = useCallback((conversationId: string, message: Pick<QueuedMessage, 'text' | 'attachments'>) => {
+    const queued: QueuedMessage = { ...message, id: `queued-${++nextQueuedId}`, queuedAt: Date.now() }
+    setQueues((prev) => ({ ...prev, [conversationId]: [...(prev[conversationId] ?? []), queued] }))
+    return queued
+  }, [])
+
+  const remove = useCallback((conversationId: string, id: string) => {
+    setQueues((prev) => {
+      const items = prev[conversationId]
+      if (!items?.some((m) => m.id === id)) return prev
+      const rest = items.filter((m) => m.id !== id)
+      const next = { ...prev }
+      if (rest.length > 0) next[conversationId] = rest
+      else delete next[conversationId]
+      return next
+    })
+  }, [])
+
+  const clear = useCallback((conversationId: string) => {
+    setQueues((prev) => {
+      if (!(conversationId in prev)) return prev
+      const next = { ...prev }
+      delete next[conversationId]
+      return next
+    })
+  }, [])
+
+  // Stable between queue changes so callers can list it as an effect dependency
+  return useMemo(() => ({ queues, enqueue, remove, clear }), [queues, enqueue, remove, clear])
+}
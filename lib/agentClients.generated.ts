@@ -0,0 +1,40 @@
+'use client'
+
+// Generated by scripts/generate-agent-clients.mjs from response_schemas/*_response.json.
+// Do not edit by hand; run `npm run generate:agents` instead.
+
+/* eslint-disable */
+
+import { callTypedAgent, streamTypedAgent, type TypedAgentResponse } from '@/lib/typedAgent'
+import type { CallAgentOptions, StreamAgentOptions } from '@/lib/aiAgent'
+
+export type { TypedAgentResponse }
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+// ---------------------------------------------------------------------------
+// Chat Agent
+// ---------------------------------------------------------------------------
+
+export const CHAT_AGENT_ID = '69942cebc194d78a6a0240a4'
+
+export interface ChatAgentResult {
+  response: string
+}
+
+export function isChatAgentResult(value: unknown): value is ChatAgentResult {
+  const v = value as any
+  return isObject(v) &&
+    typeof v.response === 'string'
+}
+
+/** A conversational AI agent that engages in natural dialogue, answers questions, provides explanations, and maintains context across the conversation using memory */
+export function callChatAgent(message: string, options?: CallAgentOptions): Promise<TypedAgentResponse<ChatAgentResult>> {
+  return callTypedAgent(message, CHAT_AGENT_ID, isChatAgentResult, options)
+}
+
+export function streamChatAgent(message: string, options?: StreamAgentOptions): Promise<TypedAgentResponse<ChatAgentResult>> {
+  return streamTypedAgent(message, CHAT_AGENT_ID, isChatAgentResult, options)
+}
@@ -0,0 +1,120 @@
+/**
+ * Agent Events Relay (server-only)
+ *
+ * Holds one upstream Lyzr metrics WebSocket per session and fans its events out
+ * to every browser subscriber. The API key is only ever used here, on the server.
+ * The upstream connection reconnects with exponential backoff while anyone is
+ * subscribed and is closed when the last subscriber leaves.
+ */
+
+import WebSocket from 'ws'
+import { LYZR_METRICS_WS_URL } from '@/lib/lyzrEndpoints'
+
+const WS_BASE_URL = `${LYZR_METRICS_WS_URL}/session`
+const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+const MAX_RECONNECT_DELAY_MS = 30000
+
+export interface RelaySubscriber {
+  onEvent: (data: string) => void
+  onStatus: (connected: boolean) => void
+}
+
+interface RelayChannel {
+  sessionId: string
+  ws: WebSocket | null
+  connected: boolean
+  subscribers: Set<RelaySubscriber>
+  reconnectAttempts: number
+  reconnectTimer: NodeJS.Timeout | null
+}
+
+const channels = new Map<string, RelayChannel>()
+
+function broadcastStatus(channel: RelayChannel, connected: boolean) {
+  channel.connected = connected
+  channel.subscribers.forEach((sub) => sub.onStatus(connected))
+}
+
+function scheduleReconnect(channel: RelayChannel) {
+  if (channel.subscribers.size === 0 || channel.reconnectTimer) return
+  const delay = Math.min(1000 * Math.pow(2, channel.reconnectAttempts), MAX_RECONNECT_DELAY_MS)
+  channel.reconnectAttempts++
+  channel.reconnectTimer = setTimeout(() => {
+    channel.reconnectTimer = null
+    openUpstream(channel)
+  }, delay)
+}
+
+function openUpstream(channel: RelayChannel) {
+  if (channel.subscribers.size === 0) return
+
+  const url = `${WS_BASE_URL}/${encodeURIComponent(channel.sessionId)}?x-api-key=${encodeURIComponent(LYZR_API_KEY)}`
+  const ws = new WebSocket(url)
+  channel.ws = ws
+
+  ws.on('open', () => {
+    channel.reconnectAttempts = 0
+    broadcastStatus(channel, true)
+  })
+
+  ws.on('message', (raw) => {
+    const data = raw.toString()
+    channel.subscribers.forEach((sub) => sub.onEvent(data))
+  })
+
+  ws.on('error', (error) => {
+    console.error('Agent events upstream error:', channel.sessionId, error.message)
+  })
+
+  ws.on('close', () => {
+    if (channel.ws === ws) channel.ws = null
+    if (channel.connected) broadcastStatus(channel, false)
+    scheduleReconnect(channel)
+  })
+}
+
+function closeChannel(channel: RelayChannel) {
+  if (channel.reconnectTimer) {
+    clearTimeout(channel.reconnectTimer)
+    channel.reconnectTimer = null
+  }
+  if (channel.ws) {
+    const ws = channel.ws
+    channel.ws = null
+    ws.removeAllListeners()
+    ws.on('error', () => {})
+    ws.close()
+  }
+  channels.delete(channel.sessionId)
+}
+
+/**
+ * Subscribe to a session's agent events. Returns an unsubscribe function.
+ */
+export function subscribeToSession(sessionId: string, subscriber: RelaySubscriber): () => void {
+  let channel = channels.get(sessionId)
+  if (!channel) {
+    channel = {
+      sessionId,
+      ws: null,
+      connected: false,
+      subscribers: new Set(),
+      reconnectAttempts: 0,
+      reconnectTimer: null,
+    }
+    channels.set(sessionId, channel)
+  }
+
+  channel.subscribers.add(subscriber)
+  if (channel.connected) {
+    subscriber.onStatus(true)
+  } else if (!channel.ws && !channel.reconnectTimer) {
+    openUpstream(channel)
+  }
+
+  const ch = channel
+  return () => {
+    ch.subscribers.delete(subscriber)
+    if (ch.subscribers.size === 0) closeChannel(ch)
+  }
+}
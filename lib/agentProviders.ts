@@ -0,0 +1,449 @@
+/**
+ * Agent Providers (server-only)
+ *
+ * The LLM backends behind /api/agent. Each provider turns an
+ * AgentUpstreamRequest into a finished reply (or a stream of text deltas);
+ * agentUpstream normalizes every reply into the same AIAgentResponse, so
+ * clients never see which backend answered. Providers:
+ *   - lyzr   (default) the Lyzr inference API; sessions keep their own memory
+ *   - openai           any OpenAI-compatible /chat/completions endpoint
+ *                      (OpenAI, Ollama, vLLM, LM Studio, ...)
+ *   - echo             deterministic replies from a fixtures file, or the
+ *                      message echoed back, for tests and offline development
+ *
+ * AGENT_PROVIDER picks the default; AGENT_PROVIDERS overrides it per agent id
+ * with a JSON object whose values are a provider name or
+ * `{ provider, model?, baseUrl?, system? }`.
+ */
+
+import { readFileSync } from 'fs'
+import parseLLMJson from '@/lib/jsonParser'
+import { parseSSEStream } from '@/lib/sse'
+import { resilientFetch } from '@/lib/resilientFetch'
+import { getAgent } from '@/lib/agentRegistry'
+import { LYZR_AGENT_BASE_URL } from '@/lib/lyzrEndpoints'
+import type { ModuleOutputs } from '@/lib/agentResponse'
+import type { AgentUpstreamRequest } from '@/lib/agentUpstream'
+
+export const LYZR_API_URL = `${LYZR_AGENT_BASE_URL}/v3/inference/chat/`
+export const LYZR_STREAM_URL = `${LYZR_AGENT_BASE_URL}/v3/inference/stream/`
+export const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+/** Circuit breaker shared by buffered and streaming Lyzr agent calls */
+export const AGENT_UPSTREAM = 'Lyzr agent API'
+
+const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ProviderName = 'lyzr' | 'openai' | 'echo'
+
+export interface ProviderConfig {
+  provider: ProviderName
+  /** Model name for OpenAI-compatible endpoints */
+  model?: string
+  /** Endpoint root, e.g. "http://localhost:11434/v1" */
+  baseUrl?: string
+  /** System prompt; defaults to one built from the agent's registry entry */
+  system?: string
+}
+
+/** A finished reply, before it is normalized into an AIAgentResponse */
+export interface ProviderReply {
+  /** The agent's answer: plain text, or the JSON it produced */
+  answer: any
+  module_outputs?: ModuleOutputs
+  /** The upstream body as received, reported as raw_response */
+  raw: string
+}
+
+export interface ProviderFailure {
+  status: number
+  error: string
+  raw: string
+}
+
+export interface ReplyStream {
+  /** Text chunks as they arrive; throws if the upstream reports a failure mid-stream */
+  deltas: AsyncIterable<string>
+  /** Turn the concatenated deltas into the finished reply */
+  finish(text: string): ProviderReply
+  /** Release the upstream connection early */
+  cancel(): void
+}
+
+export type ProviderResult = { reply: ProviderReply } | ProviderFailure
+export type ProviderStream = ReplyStream | ProviderFailure
+
+/**
+ * One LLM backend. Network errors and aborts reject; upstream errors resolve
+ * as a ProviderFailure carrying the HTTP status to pass on.
+ */
+export interface AgentProvider {
+  /** Why the provider cannot be called (e.g. a missing API key), or null */
+  configError(): string | null
+  send(request: AgentUpstreamRequest, signal: AbortSignal): Promise<ProviderResult>
+  stream(request: AgentUpstreamRequest, signal: AbortSignal): Promise<ProviderStream>
+}
+
+function failure(status: number, error: string, raw: string): ProviderFailure {
+  return { status, error, raw }
+}
+
+/** Best error message in an upstream error body. */
+export function extractUpstreamError(rawText: string, status: number): string {
+  let errorMsg = `API returned status ${status}`
+  try {
+    const errorData = JSON.parse(rawText)
+    // OpenAI-style bodies nest the message: { error: { message } }
+    const nested = errorData?.error && typeof errorData.error === 'object' ? errorData.error.message : undefined
+    errorMsg = errorData?.detail || nested || errorData?.error || errorData?.message || errorMsg
+  } catch {
+    try {
+      const errorData = parseLLMJson(rawText)
+      errorMsg = errorData?.error || errorData?.message || errorMsg
+    } catch {}
+  }
+  return errorMsg
+}
+
+// ---------------------------------------------------------------------------
+// Lyzr
+// ---------------------------------------------------------------------------
+
+/** Split the Lyzr envelope so module_outputs survive parsing of the answer. */
+function parseLyzrReply(rawText: string): ProviderReply {
+  try {
+    const envelope = JSON.parse(rawText)
+    if (envelope && typeof envelope === 'object' && 'response' in envelope) {
+      return { answer: envelope.response, module_outputs: envelope.module_outputs, raw: rawText }
+    }
+  } catch {
+    // Not the standard JSON envelope; the whole body is the answer
+  }
+  return { answer: rawText, raw: rawText }
+}
+
+async function* lyzrDeltas(body: ReadableStream<Uint8Array> | null): AsyncGenerator<string> {
+  if (!body) return
+  for await (const evt of parseSSEStream(body)) {
+    if (evt.data === '[DONE]') return
+    if (evt.data.startsWith('[ERROR]')) {
+      throw new Error(evt.data.slice('[ERROR]'.length).trim() || 'Agent stream failed')
+    }
+    yield evt.data
+  }
+}
+
+function createLyzrProvider(): AgentProvider {
+  const post = (url: string, request: AgentUpstreamRequest, signal: AbortSignal) => {
+    const payload: Record<string, any> = {
+      message: request.message,
+      agent_id: request.agent_id,
+      user_id: request.user_id,
+      session_id: request.session_id,
+    }
+    if (request.assets && request.assets.length > 0) {
+      payload.assets = request.assets
+    }
+    return resilientFetch(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': LYZR_API_KEY,
+        },
+        body: JSON.stringify(payload),
+        signal,
+      },
+      { upstream: AGENT_UPSTREAM }
+    )
+  }
+
+  return {
+    configError: () => (LYZR_API_KEY ? null : 'LYZR_API_KEY not configured'),
+
+    async send(request, signal) {
+      const response = await post(LYZR_API_URL, request, signal)
+      const rawText = await response.text()
+      if (!response.ok) return failure(response.status, extractUpstreamError(rawText, response.status), rawText)
+      return { reply: parseLyzrReply(rawText) }
+    },
+
+    // Retries only happen before the first byte, so no partial reply is repeated
+    async stream(request, signal) {
+      const response = await post(LYZR_STREAM_URL, request, signal)
+      if (!response.ok) {
+        const rawText = await response.text()
+        return failure(response.status, extractUpstreamError(rawText, response.status), rawText)
+      }
+      return {
+        deltas: lyzrDeltas(response.body),
+        // The stream carries the answer's tokens only; there is no envelope to unwrap
+        finish: (text) => ({ answer: text, raw: text }),
+        cancel: () => {
+          response.body?.cancel().catch(() => {})
+        },
+      }
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible
+// ---------------------------------------------------------------------------
+
+interface ChatTurn {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+// Completion endpoints are stateless, so the last turns of each session are
+// kept in process memory and resent with every message
+const HISTORY_MESSAGES = 20
+const HISTORY_SESSIONS = 1000
+const histories = new Map<string, ChatTurn[]>()
+
+function remember(sessionId: string, user: string, assistant: string): void {
+  const turns = [...(histories.get(sessionId) ?? []), { role: 'user' as const, content: user }, { role: 'assistant' as const, content: assistant }]
+  // Re-insert so the Map's order tracks recency
+  histories.delete(sessionId)
+  histories.set(sessionId, turns.slice(-HISTORY_MESSAGES))
+  if (histories.size > HISTORY_SESSIONS) {
+    histories.delete(histories.keys().next().value as string)
+  }
+}
+
+/** Who the agent is and, for JSON agents, the shape its reply must take. */
+function defaultSystemPrompt(agentId: string): string | undefined {
+  const agent = getAgent(agentId)
+  if (!agent) return undefined
+  const parts = [`You are ${agent.name}.`]
+  if (agent.description) parts.push(agent.description)
+  if (agent.responseSchema) {
+    parts.push(`Reply with only a JSON object matching this JSON Schema:\n${JSON.stringify(agent.responseSchema, null, 2)}`)
+  }
+  return parts.join('\n\n')
+}
+
+async function* openAIDeltas(body: ReadableStream<Uint8Array> | null): AsyncGenerator<string> {
+  if (!body) return
+  for await (const evt of parseSSEStream(body)) {
+    if (evt.data === '[DONE]') return
+    const chunk = JSON.parse(evt.data)
+    if (chunk?.error) throw new Error(chunk.error.message || 'Agent stream failed')
+    const text = chunk?.choices?.[0]?.delta?.content
+    if (typeof text === 'string' && text) yield text
+  }
+}
+
+function createOpenAIProvider(config: ProviderConfig): AgentProvider {
+  const baseUrl = (config.baseUrl || process.env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '')
+  const apiKey = process.env.OPENAI_API_KEY || ''
+  const model = config.model || process.env.OPENAI_MODEL || 'gpt-4o-mini'
+  // One circuit breaker per endpoint, so a down local server does not trip a hosted one
+  const upstream = `OpenAI-compatible API (${baseUrl})`
+
+  const post = (request: AgentUpstreamRequest, signal: AbortSignal, stream: boolean) => {
+    const system = config.system ?? defaultSystemPrompt(request.agent_id)
+    const messages: ChatTurn[] = [
+      ...(system ? [{ role: 'system' as const, content: system }] : []),
+      ...(histories.get(request.session_id) ?? []),
+      { role: 'user', content: request.message },
+    ]
+    return resilientFetch(
+      `${baseUrl}/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({ model, messages, stream, user: request.user_id }),
+        signal,
+      },
+      { upstream }
+    )
+  }
+
+  const reply = (request: AgentUpstreamRequest, answer: string, raw: string): ProviderReply => {
+    remember(request.session_id, request.message, answer)
+    return { answer, raw }
+  }
+
+  return {
+    // Self-hosted servers usually need no key; the hosted API always does
+    configError: () =>
+      !apiKey && baseUrl === OPENAI_DEFAULT_BASE_URL ? 'OPENAI_API_KEY not configured' : null,
+
+    async send(request, signal) {
+      const response = await post(request, signal, false)
+      const rawText = await response.text()
+      if (!response.ok) return failure(response.status, extractUpstreamError(rawText, response.status), rawText)
+      let content: unknown
+      try {
+        content = JSON.parse(rawText)?.choices?.[0]?.message?.content
+      } catch {}
+      if (typeof content !== 'string') return failure(502, 'Malformed completion response', rawText)
+      return { reply: reply(request, content, rawText) }
+    },
+
+    async stream(request, signal) {
+      const response = await post(request, signal, true)
+      if (!response.ok) {
+        const rawText = await response.text()
+        return failure(response.status, extractUpstreamError(rawText, response.status), rawText)
+      }
+      return {
+        deltas: openAIDeltas(response.body),
+        finish: (text) => reply(request, text, text),
+        cancel: () => {
+          response.body?.cancel().catch(() => {})
+        },
+      }
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Echo / fixtures
+// ---------------------------------------------------------------------------
+
+let fixtures: Record<string, unknown> | null = null
+
+/**
+ * AGENT_FIXTURES_FILE: a JSON object of message → answer, with "*" as the
+ * fallback. Read once per process.
+ */
+function loadFixtures(): Record<string, unknown> {
+  if (!fixtures) {
+    const file = process.env.AGENT_FIXTURES_FILE
+    fixtures = file ? JSON.parse(readFileSync(file, 'utf8')) : {}
+  }
+  return fixtures!
+}
+
+/** A value of the schema's type, with every string set to `text`. */
+function sampleFor(schema: Record<string, any> | undefined, text: string): unknown {
+  switch (schema?.type) {
+    case 'object': {
+      const value: Record<string, unknown> = {}
+      for (const [key, property] of Object.entries<Record<string, any>>(schema.properties ?? {})) {
+        value[key] = sampleFor(property, text)
+      }
+      return value
+    }
+    case 'array':
+      return []
+    case 'number':
+    case 'integer':
+      return 0
+    case 'boolean':
+      return false
+    default:
+      return text
+  }
+}
+
+function echoAnswer(request: AgentUpstreamRequest): string {
+  const table = loadFixtures()
+  const fixture = request.message in table ? table[request.message] : table['*']
+  // JSON agents get their declared shape, so echo replies pass validation
+  const answer = fixture ?? sampleFor(getAgent(request.agent_id)?.responseSchema, `Echo: ${request.message}`)
+  return typeof answer === 'string' ? answer : JSON.stringify(answer)
+}
+
+async function* chunksOf(text: string): AsyncGenerator<string> {
+  for (const chunk of text.match(/\S+\s*|\s+/g) ?? []) yield chunk
+}
+
+function createEchoProvider(): AgentProvider {
+  return {
+    configError: () => null,
+
+    async send(request, signal) {
+      signal.throwIfAborted()
+      const answer = echoAnswer(request)
+      return { reply: { answer, raw: answer } }
+    },
+
+    async stream(request, signal) {
+      signal.throwIfAborted()
+      return {
+        deltas: chunksOf(echoAnswer(request)),
+        finish: (text) => ({ answer: text, raw: text }),
+        cancel: () => {},
+      }
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+const PROVIDER_NAMES: ReadonlySet<string> = new Set<ProviderName>(['lyzr', 'openai', 'echo'])
+
+/** A provider that only reports why the configuration is unusable. */
+function misconfigured(message: string): AgentProvider {
+  const reject = () => Promise.reject(new Error(message))
+  return { configError: () => message, send: reject, stream: reject }
+}
+
+function parseOverrides(): Record<string, unknown> {
+  const value = process.env.AGENT_PROVIDERS
+  if (!value) return {}
+  const parsed = JSON.parse(value)
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('not an object')
+  return parsed
+}
+
+/**
+ * The configured provider settings for an agent. Throws with a readable
+ * message when AGENT_PROVIDER or AGENT_PROVIDERS is invalid.
+ */
+export function getProviderConfig(agentId: string): ProviderConfig {
+  let overrides: Record<string, unknown>
+  try {
+    overrides = parseOverrides()
+  } catch {
+    throw new Error('AGENT_PROVIDERS must be a JSON object of agent id → provider')
+  }
+
+  const fallback = process.env.AGENT_PROVIDER || 'lyzr'
+  const entry = overrides[agentId] ?? fallback
+  const config: ProviderConfig = typeof entry === 'string' ? { provider: entry as ProviderName } : (entry as ProviderConfig)
+  if (!config || !PROVIDER_NAMES.has(config.provider)) {
+    throw new Error(`Unknown agent provider for ${agentId}; expected lyzr, openai or echo`)
+  }
+  return config
+}
+
+// Keyed by configuration, not agent id: every agent without an override shares
+// the fallback provider, so arbitrary agent ids in requests cannot grow the cache
+const providers = new Map<string, AgentProvider>()
+
+/** The provider that answers `agentId`, created once per distinct configuration. */
+export function getAgentProvider(agentId: string): AgentProvider {
+  let config: ProviderConfig
+  try {
+    config = getProviderConfig(agentId)
+  } catch (error) {
+    return misconfigured(error instanceof Error ? error.message : 'Invalid agent provider configuration')
+  }
+
+  const key = JSON.stringify(config)
+  let provider = providers.get(key)
+  if (!provider) {
+    provider =
+      config.provider === 'openai'
+        ? createOpenAIProvider(config)
+        : config.provider === 'echo'
+          ? createEchoProvider()
+          : createLyzrProvider()
+    providers.set(key, provider)
+  }
+  return provider
+}
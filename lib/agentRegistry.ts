@@ -0,0 +1,133 @@
+/**
+ * Agent Registry
+ *
+ * Typed view of the agents declared in workflow.json, workflow_state.json and
+ * response_schemas/*.json. Safe to import from both client and server code.
+ *
+ * To register a new agent, add it to workflow_state.json (and workflow.json if it
+ * takes part in the workflow graph), then import its response schema below.
+ */
+
+import workflow from '@/workflow.json'
+import workflowState from '@/workflow_state.json'
+import chatAgentSchema from '@/response_schemas/chat_agent.json'
+import chatAgentResponseSchema from '@/response_schemas/chat_agent_response.json'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AgentCapabilities {
+  has_voice: boolean
+  has_image_output: boolean
+  has_file_output: boolean
+  has_schedule: boolean
+  has_knowledge_base: boolean
+}
+
+export interface AgentDefinition {
+  id: string
+  name: string
+  description?: string
+  type: string
+  capabilities: AgentCapabilities
+  /** JSON Schema for the agent's parsed response, when one is declared */
+  responseSchema?: Record<string, any>
+  /** Key of the agent's text answer in its response (e.g. "response") */
+  accessor?: string
+}
+
+interface ResponseSchemaFile {
+  agent_name?: string
+  agent_id: string
+  description?: string
+  accessor?: string
+  response_schema?: Record<string, any>
+}
+
+// ---------------------------------------------------------------------------
+// Sources
+// ---------------------------------------------------------------------------
+
+const RESPONSE_SCHEMA_FILES: ResponseSchemaFile[] = [chatAgentSchema, chatAgentResponseSchema]
+
+const DEFAULT_CAPABILITIES: AgentCapabilities = {
+  has_voice: false,
+  has_image_output: false,
+  has_file_output: false,
+  has_schedule: false,
+  has_knowledge_base: false,
+}
+
+/** A JSON Schema object, as opposed to the `{ field: "type" }` shorthand. */
+function isJsonSchema(schema: Record<string, any> | undefined): boolean {
+  return !!schema && typeof schema.type === 'string' && typeof schema.properties === 'object'
+}
+
+function buildRegistry(): AgentDefinition[] {
+  const agents = new Map<string, AgentDefinition>()
+
+  for (const entry of workflowState.agents) {
+    agents.set(entry.agent_id, {
+      id: entry.agent_id,
+      name: entry.name,
+      type: entry.type,
+      capabilities: {
+        has_voice: !!entry.has_voice,
+        has_image_output: !!entry.has_image_output,
+        has_file_output: !!entry.has_file_output,
+        has_schedule: !!entry.has_schedule,
+        has_knowledge_base: !!entry.has_knowledge_base,
+      },
+    })
+  }
+
+  // Agent nodes in the workflow graph that workflow_state does not list yet
+  for (const node of workflow.nodes) {
+    if (node.type !== 'Agent' || !('agent_id' in node) || !node.agent_id) continue
+    if (!agents.has(node.agent_id)) {
+      agents.set(node.agent_id, {
+        id: node.agent_id,
+        name: node.label,
+        type: 'single',
+        capabilities: { ...DEFAULT_CAPABILITIES },
+      })
+    }
+  }
+
+  for (const file of RESPONSE_SCHEMA_FILES) {
+    const agent = agents.get(file.agent_id)
+    if (!agent) continue
+    agent.description = agent.description ?? file.description
+    agent.accessor = agent.accessor ?? file.accessor
+    if (isJsonSchema(file.response_schema)) {
+      agent.responseSchema = file.response_schema
+    }
+  }
+
+  return Array.from(agents.values())
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export const AGENTS: AgentDefinition[] = buildRegistry()
+
+export const DEFAULT_AGENT_ID: string = AGENTS[0]?.id ?? ''
+
+export function getAgent(agentId: string | null | undefined): AgentDefinition | undefined {
+  if (!agentId) return undefined
+  return AGENTS.find((agent) => agent.id === agentId)
+}
+
+/** Human-readable labels for an agent's enabled capabilities. */
+export function describeCapabilities(capabilities: AgentCapabilities): string[] {
+  const labels: string[] = []
+  if (capabilities.has_knowledge_base) labels.push('Knowledge base')
+  if (capabilities.has_schedule) labels.push('Schedules')
+  if (capabilities.has_file_output) labels.push('Files')
+  if (capabilities.has_image_output) labels.push('Images')
+  if (capabilities.has_voice) labels.push('Voice')
+  return labels
+}
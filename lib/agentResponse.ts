@@ -0,0 +1,82 @@
+/**
+ * Agent response shapes
+ *
+ * The normalized payload returned by /api/agent, shared by client wrappers and
+ * server code (agent route, workflow runner).
+ */
+
+export interface NormalizedAgentResponse {
+  status: 'success' | 'error'
+  result: Record<string, any>
+  message?: string
+  metadata?: {
+    agent_name?: string
+    timestamp?: string
+    [key: string]: any
+  }
+}
+
+export interface ArtifactFile {
+  file_url: string
+  name: string
+  format_type: string
+}
+
+export interface ModuleOutputs {
+  artifact_files?: ArtifactFile[]
+  [key: string]: any
+}
+
+export interface SchemaValidationIssue {
+  /** Dot path of the offending field, or "(root)" */
+  path: string
+  code: string
+  message: string
+}
+
+/** Result of checking an agent's output against its declared response schema */
+export interface SchemaValidation {
+  valid: boolean
+  errors: SchemaValidationIssue[]
+  /** The conforming payload, when valid */
+  data?: any
+  /** Set when a repair re-ask was made; `valid` reflects the returned response */
+  repaired?: boolean
+}
+
+/** Why a call ended without a reply, when it was not an agent or network failure */
+export type AgentErrorCode = 'cancelled' | 'timeout' | 'rate_limited' | 'quota_exceeded'
+
+export interface AIAgentResponse {
+  success: boolean
+  response: NormalizedAgentResponse
+  module_outputs?: ModuleOutputs
+  agent_id?: string
+  user_id?: string
+  session_id?: string
+  timestamp?: string
+  raw_response?: string
+  /** Present when the agent declares a response schema */
+  validation?: SchemaValidation
+  error?: string
+  error_code?: AgentErrorCode
+  /** Epoch ms after which a rate-limited or over-quota caller may try again */
+  retry_at?: number
+  details?: string
+}
+
+/**
+ * Extract text from agent response
+ */
+export function extractText(response: NormalizedAgentResponse): string {
+  if (response.message) return response.message
+  if (response.result?.text) return response.result.text
+  if (response.result?.message) return response.result.message
+  if (response.result?.response) return response.result.response
+  if (response.result?.answer) return response.result.answer
+  if (response.result?.answer_text) return response.result.answer_text
+  if (response.result?.summary) return response.result.summary
+  if (response.result?.content) return response.result.content
+  if (typeof response.result === 'string') return response.result
+  return ''
+}
@@ -0,0 +1,297 @@
+/**
+ * Agent Upstream (server-only)
+ *
+ * Calls the agent's configured provider (see agentProviders) and normalizes
+ * its output into the AIAgentResponse shape returned by /api/agent. Shared by
+ * the agent route and the workflow runner so both apply the same parsing rules.
+ */
+
+import parseLLMJson from '@/lib/jsonParser'
+import { buildRepairPrompt, validateAgentOutput } from '@/lib/responseSchema'
+import { upstreamErrorStatus } from '@/lib/resilientFetch'
+import { getAgentProvider, type ProviderReply, type ProviderResult } from '@/lib/agentProviders'
+import type { AgentErrorCode, AIAgentResponse, NormalizedAgentResponse } from '@/lib/agentResponse'
+
+// ---------------------------------------------------------------------------
+// Timeouts
+// ---------------------------------------------------------------------------
+
+function envMs(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+/** Longest wait for a buffered reply, or for a stream's first byte */
+export const AGENT_TIMEOUT_MS = envMs('AGENT_TIMEOUT_MS', 120_000)
+/** Longest silence allowed between streamed chunks */
+export const AGENT_STREAM_IDLE_TIMEOUT_MS = envMs('AGENT_STREAM_IDLE_TIMEOUT_MS', 60_000)
+
+export interface Deadline {
+  /** Aborts when the caller's signal aborts or the timer runs out */
+  signal: AbortSignal
+  /** True once the abort came from the timer */
+  readonly timedOut: boolean
+  /** The duration that is (or was last) armed */
+  readonly ms: number
+  /** Restart the timer, optionally with a new duration */
+  extend(ms?: number): void
+  /** Stop the timer and detach from the caller's signal */
+  clear(): void
+}
+
+/**
+ * Combine a caller's AbortSignal with a timeout. Streams call `extend` on
+ * every chunk so the timer measures silence rather than total duration.
+ */
+export function createDeadline(ms: number, parent?: AbortSignal): Deadline {
+  const controller = new AbortController()
+  let timedOut = false
+  let current = ms
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const arm = (duration: number) => {
+    clearTimeout(timer)
+    if (controller.signal.aborted) return
+    current = duration
+    timer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, duration)
+  }
+  const onParentAbort = () => {
+    clearTimeout(timer)
+    controller.abort()
+  }
+
+  if (parent?.aborted) controller.abort()
+  else parent?.addEventListener('abort', onParentAbort, { once: true })
+  arm(ms)
+
+  return {
+    signal: controller.signal,
+    get timedOut() {
+      return timedOut
+    },
+    get ms() {
+      return current
+    },
+    extend(duration = current) {
+      arm(duration)
+    },
+    clear() {
+      clearTimeout(timer)
+      parent?.removeEventListener('abort', onParentAbort)
+    },
+  }
+}
+
+export function timeoutPayload(ms: number, rawText?: string): AIAgentResponse {
+  return errorPayload(`The agent did not respond within ${Math.round(ms / 1000)} seconds`, rawText, 'timeout')
+}
+
+export function cancelledPayload(rawText?: string): AIAgentResponse {
+  return errorPayload('Request cancelled', rawText, 'cancelled')
+}
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+export interface AgentUpstreamRequest {
+  message: string
+  agent_id: string
+  user_id: string
+  session_id: string
+  assets?: string[]
+}
+
+export function normalizeResponse(parsed: any): NormalizedAgentResponse {
+  if (!parsed) {
+    return {
+      status: 'error',
+      result: {},
+      message: 'Empty response from agent',
+    }
+  }
+
+  if (typeof parsed === 'string') {
+    return {
+      status: 'success',
+      result: { text: parsed },
+      message: parsed,
+    }
+  }
+
+  if (typeof parsed !== 'object') {
+    return {
+      status: 'success',
+      result: { value: parsed },
+      message: String(parsed),
+    }
+  }
+
+  if ('status' in parsed && 'result' in parsed) {
+    return {
+      status: parsed.status === 'error' ? 'error' : 'success',
+      result: parsed.result || {},
+      message: parsed.message,
+      metadata: parsed.metadata,
+    }
+  }
+
+  if ('status' in parsed) {
+    const { status, message, metadata, ...rest } = parsed
+    return {
+      status: status === 'error' ? 'error' : 'success',
+      result: Object.keys(rest).length > 0 ? rest : {},
+      message,
+      metadata,
+    }
+  }
+
+  if ('result' in parsed) {
+    const r = parsed.result
+    const msg = parsed.message
+      ?? (typeof r === 'string' ? r : null)
+      ?? (r && typeof r === 'object'
+          ? (r.text ?? r.message ?? r.response ?? r.answer ?? r.summary ?? r.content)
+          : null)
+    return {
+      status: 'success',
+      result: typeof r === 'string' ? { text: r } : (r || {}),
+      message: typeof msg === 'string' ? msg : undefined,
+      metadata: parsed.metadata,
+    }
+  }
+
+  if ('message' in parsed && typeof parsed.message === 'string') {
+    return {
+      status: 'success',
+      result: { text: parsed.message },
+      message: parsed.message,
+    }
+  }
+
+  if ('response' in parsed) {
+    return normalizeResponse(parsed.response)
+  }
+
+  return {
+    status: 'success',
+    result: parsed,
+    message: undefined,
+    metadata: undefined,
+  }
+}
+
+/**
+ * Build the success payload from a provider's finished reply.
+ * Shared by the buffered and streaming paths so both return the same shape.
+ */
+export function buildSuccessPayload(
+  reply: ProviderReply,
+  ids: { agent_id: string; user_id: string; session_id: string }
+): AIAgentResponse {
+  // Parse the agent's answer with LLM JSON recovery
+  const parsed = parseLLMJson(reply.answer)
+
+  // If parseLLMJson couldn't find JSON, the agent returned plain text — that's valid.
+  // Pass the raw agent response to normalizeResponse which handles strings.
+  const toNormalize =
+    parsed && typeof parsed === 'object' && parsed.success === false && parsed.data === null
+      ? reply.answer
+      : parsed
+
+  const normalized = normalizeResponse(toNormalize)
+  const validation = validateAgentOutput(ids.agent_id, toNormalize)
+
+  return {
+    success: true,
+    response: normalized,
+    ...(validation && { validation }),
+    module_outputs: reply.module_outputs,
+    agent_id: ids.agent_id,
+    user_id: ids.user_id,
+    session_id: ids.session_id,
+    timestamp: new Date().toISOString(),
+    raw_response: reply.raw,
+  }
+}
+
+/** Payload for an agent whose provider cannot be called, e.g. a missing API key. */
+export function configErrorPayload(message: string): AIAgentResponse {
+  return { ...errorPayload(message), error: `${message} on server` }
+}
+
+export function errorPayload(errorMsg: string, rawText?: string, code?: AgentErrorCode): AIAgentResponse {
+  return {
+    success: false,
+    response: {
+      status: 'error' as const,
+      result: {},
+      message: errorMsg,
+    },
+    error: errorMsg,
+    ...(code && { error_code: code }),
+    ...(rawText !== undefined && { raw_response: rawText }),
+  }
+}
+
+/**
+ * Re-ask once when a successful response does not match the agent's schema.
+ * The repair prompt goes to the same session so the agent can see its own
+ * previous answer. Returns the repaired response if it conforms, otherwise the
+ * original one; either way `validation.repaired` records the attempt.
+ */
+export async function repairAgentResponse(
+  request: AgentUpstreamRequest,
+  result: AIAgentResponse,
+  init?: { signal?: AbortSignal }
+): Promise<AIAgentResponse> {
+  if (!result.success || !result.validation || result.validation.valid) return result
+
+  const { body: retry } = await callAgentUpstream(
+    { ...request, message: buildRepairPrompt(request.agent_id, result.validation), assets: undefined },
+    { signal: init?.signal }
+  )
+
+  const best = retry.success && retry.validation?.valid ? retry : result
+  return { ...best, validation: { ...best.validation!, repaired: true } }
+}
+
+/**
+ * Run one buffered (non-streaming) agent call.
+ * Never throws for upstream failures; the HTTP status is returned alongside the payload.
+ * With `repair`, a response that fails schema validation gets one re-ask.
+ * Gives up after `timeoutMs` (default AGENT_TIMEOUT_MS) with a 504 timeout
+ * payload; an aborted `signal` yields a 499 cancelled payload.
+ */
+export async function callAgentUpstream(
+  request: AgentUpstreamRequest,
+  init?: { signal?: AbortSignal; repair?: boolean; timeoutMs?: number }
+): Promise<{ status: number; body: AIAgentResponse }> {
+  const provider = getAgentProvider(request.agent_id)
+  const configError = provider.configError()
+  if (configError) {
+    return { status: 500, body: configErrorPayload(configError) }
+  }
+
+  const deadline = createDeadline(init?.timeoutMs ?? AGENT_TIMEOUT_MS, init?.signal)
+  let result: ProviderResult
+  try {
+    result = await provider.send(request, deadline.signal)
+  } catch (error) {
+    if (deadline.timedOut) return { status: 504, body: timeoutPayload(deadline.ms) }
+    if (init?.signal?.aborted) return { status: 499, body: cancelledPayload() }
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
+    return { status: upstreamErrorStatus(error), body: errorPayload(errorMsg) }
+  } finally {
+    deadline.clear()
+  }
+
+  if ('reply' in result) {
+    const payload = buildSuccessPayload(result.reply, request)
+    return { status: 200, body: init?.repair ? await repairAgentResponse(request, payload, init) : payload }
+  }
+  return { status: result.status, body: errorPayload(result.error, result.raw) }
+}
@@ -17,43 +17,14 @@
  * ```
  */
 
-import { useState } from 'react'
+import { useState, useRef } from 'react'
+import { parseSSEStream } from '@/lib/sse'
+import { extractText, type AIAgentResponse, type NormalizedAgentResponse } from '@/lib/agentResponse'
 
-// Types
-export interface NormalizedAgentResponse {
-  status: 'success' | 'error'
-  result: Record<string, any>
-  message?: string
-  metadata?: {
-    agent_name?: string
-    timestamp?: string
-    [key: string]: any
-  }
-}
-
-export interface ArtifactFile {
-  file_url: string
-  name: string
-  format_type: string
-}
-
-export interface ModuleOutputs {
-  artifact_files?: ArtifactFile[]
-  [key: string]: any
-}
+export { extractText }
 
-export interface AIAgentResponse {
-  success: boolean
-  response: NormalizedAgentResponse
-  module_outputs?: ModuleOutputs
-  agent_id?: string
-  user_id?: string
-  session_id?: string
-  timestamp?: string
-  raw_response?: string
-  error?: string
-  details?: string
-}
+// Types
+export type { NormalizedAgentResponse, ArtifactFile, ModuleOutputs, AIAgentResponse, AgentErrorCode } from '@/lib/agentResponse'
 
 export interface UploadedFile {
   asset_id: string
@@ -74,13 +45,44 @@ export interface UploadResponse {
   error?: string
 }
 
+export interface CallAgentOptions {
+  user_id?: string
+  session_id?: string
+  assets?: string[]
+  /** Aborting cancels the request here and upstream */
+  signal?: AbortSignal
+  /** Re-ask once when the reply does not match the agent's response schema (off by default) */
+  repair?: boolean
+  /** Background summary calls count against their own daily quota, not the message quota */
+  purpose?: 'chat' | 'summary'
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+function failurePayload(error: unknown): AIAgentResponse {
+  const cancelled = isAbortError(error)
+  const errorMsg = cancelled ? 'Request cancelled' : error instanceof Error ? error.message : 'Network error'
+  return {
+    success: false,
+    response: {
+      status: 'error',
+      result: {},
+      message: errorMsg,
+    },
+    error: errorMsg,
+    ...(cancelled && { error_code: 'cancelled' as const }),
+  }
+}
+
 /**
  * Call the AI Agent via server-side API route
  */
 export async function callAIAgent(
   message: string,
   agent_id: string,
-  options?: { user_id?: string; session_id?: string; assets?: string[] }
+  options?: CallAgentOptions
 ): Promise<AIAgentResponse> {
   try {
     const response = await fetch('/api/agent', {
@@ -94,24 +96,121 @@ export async function callAIAgent(
         user_id: options?.user_id,
         session_id: options?.session_id,
         assets: options?.assets,
+        repair: options?.repair,
+        purpose: options?.purpose,
       }),
+      signal: options?.signal,
     })
 
     const data = await response.json()
     return data
   } catch (error) {
-    return {
-      success: false,
-      response: {
-        status: 'error',
-        result: {},
-        message: error instanceof Error ? error.message : 'Network error',
+    return failurePayload(error)
+  }
+}
+
+export interface StreamAgentOptions extends CallAgentOptions {
+  /** Called for every chunk with the chunk and the full text received so far */
+  onToken?: (chunk: string, accumulated: string) => void
+}
+
+/**
+ * Call the AI Agent in streaming mode.
+ *
+ * Tokens are delivered through `onToken` as they arrive; the returned promise
+ * resolves with the same normalized AIAgentResponse as callAIAgent.
+ */
+export async function streamAIAgent(
+  message: string,
+  agent_id: string,
+  options?: StreamAgentOptions
+): Promise<AIAgentResponse> {
+  try {
+    const response = await fetch('/api/agent', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
       },
-      error: error instanceof Error ? error.message : 'Network error',
+      body: JSON.stringify({
+        message,
+        agent_id,
+        user_id: options?.user_id,
+        session_id: options?.session_id,
+        assets: options?.assets,
+        repair: options?.repair,
+        purpose: options?.purpose,
+        stream: true,
+      }),
+      signal: options?.signal,
+    })
+
+    // Validation and upstream errors come back as plain JSON
+    const contentType = response.headers.get('content-type') || ''
+    if (!contentType.includes('text/event-stream') || !response.body) {
+      return await response.json()
+    }
+
+    let accumulated = ''
+    for await (const evt of parseSSEStream(response.body)) {
+      if (evt.event === 'delta') {
+        const { text } = JSON.parse(evt.data) as { text: string }
+        accumulated += text
+        options?.onToken?.(text, accumulated)
+      } else if (evt.event === 'done' || evt.event === 'error') {
+        return JSON.parse(evt.data) as AIAgentResponse
+      }
     }
+
+    throw new Error('Stream ended unexpectedly')
+  } catch (error) {
+    return failurePayload(error)
   }
 }
 
+const JSON_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  b: '\b',
+  f: '\f',
+}
+
+/**
+ * Best-effort display text for a partially streamed agent response.
+ *
+ * JSON agents stream `{"response": "..."}` token by token, so show the
+ * growing string value instead of raw JSON. Plain-text output is returned as-is.
+ */
+export function extractStreamingText(partial: string): string {
+  const trimmed = partial.trimStart()
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('```')) return partial
+
+  const match = /"(?:response|text|message|answer|content)"\s*:\s*"/.exec(trimmed)
+  if (!match) return ''
+
+  let out = ''
+  for (let i = match.index + match[0].length; i < trimmed.length; i++) {
+    const ch = trimmed[i]
+    if (ch === '"') break
+    if (ch !== '\\') {
+      out += ch
+      continue
+    }
+    const next = trimmed[i + 1]
+    if (next === undefined) break
+    if (next === 'u') {
+      const hex = trimmed.slice(i + 2, i + 6)
+      if (hex.length < 4) break
+      out += String.fromCharCode(parseInt(hex, 16))
+      i += 5
+      continue
+    }
+    out += JSON_ESCAPES[next] ?? next
+    i++
+  }
+  return out
+}
+
 /**
  * Upload files via server-side API route
  */
@@ -160,6 +259,67 @@ export async function uploadFiles(files: File | File[]): Promise<UploadResponse>
   }
 }
 
+/**
+ * Upload a single file, reporting progress as a 0–1 fraction.
+ *
+ * Uses XMLHttpRequest because fetch cannot observe upload progress.
+ */
+export function uploadFile(
+  file: File,
+  options?: { onProgress?: (fraction: number) => void; signal?: AbortSignal }
+): Promise<UploadResponse> {
+  const failure = (error: string): UploadResponse => ({
+    success: false,
+    asset_ids: [],
+    files: [],
+    total_files: 1,
+    successful_uploads: 0,
+    failed_uploads: 1,
+    message: 'Upload failed',
+    timestamp: new Date().toISOString(),
+    error,
+  })
+
+  return new Promise((resolve) => {
+    const formData = new FormData()
+    formData.append('files', file, file.name)
+
+    const xhr = new XMLHttpRequest()
+    xhr.open('POST', '/api/upload')
+    xhr.responseType = 'json'
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) options?.onProgress?.(e.loaded / e.total)
+    }
+    xhr.onload = () => {
+      const data = xhr.response as UploadResponse | null
+      if (!data) {
+        resolve(failure(`Upload failed with status ${xhr.status}`))
+        return
+      }
+      // A file the upstream rejected still comes back as a 200 with success: false on the file
+      const rejected = data.files?.find((f) => !f.success)
+      if (data.success && rejected) {
+        resolve({ ...data, success: false, error: rejected.error || 'Upload rejected' })
+        return
+      }
+      resolve(data)
+    }
+    xhr.onerror = () => resolve(failure('Network error during upload'))
+    xhr.onabort = () => resolve(failure('Upload cancelled'))
+
+    if (options?.signal) {
+      if (options.signal.aborted) {
+        resolve(failure('Upload cancelled'))
+        return
+      }
+      options.signal.addEventListener('abort', () => xhr.abort(), { once: true })
+    }
+
+    xhr.send(formData)
+  })
+}
+
 /**
  * React hook for using AI Agent in components
  */
@@ -167,21 +327,26 @@ export function useAIAgent() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [response, setResponse] = useState<NormalizedAgentResponse | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const callAgent = async (message: string, agent_id: string, options?: Omit<CallAgentOptions, 'signal'>) => {
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
 
-  const callAgent = async (
-    message: string,
-    agent_id: string,
-    options?: { user_id?: string; session_id?: string; assets?: string[] }
-  ) => {
     setLoading(true)
     setError(null)
     setResponse(null)
 
-    const result = await callAIAgent(message, agent_id, options)
+    const result = await callAIAgent(message, agent_id, { ...options, signal: controller.signal })
+
+    // A newer call owns the state now
+    if (abortRef.current !== controller) return result
+    abortRef.current = null
 
     if (result.success) {
       setResponse(result.response)
-    } else {
+    } else if (result.error_code !== 'cancelled') {
       setError(result.error || 'Unknown error')
       setResponse(result.response)
     }
@@ -190,8 +355,13 @@ export function useAIAgent() {
     return result
   }
 
+  const cancel = () => {
+    abortRef.current?.abort()
+  }
+
   return {
     callAgent,
+    cancel,
     loading,
     error,
     response,
@@ -231,19 +401,3 @@ export function useFileUpload() {
     result,
   }
 }
-
-/**
- * Extract text from agent response
- */
-export function extractText(response: NormalizedAgentResponse): string {
-  if (response.message) return response.message
-  if (response.result?.text) return response.result.text
-  if (response.result?.message) return response.result.message
-  if (response.result?.response) return response.result.response
-  if (response.result?.answer) return response.result.answer
-  if (response.result?.answer_text) return response.result.answer_text
-  if (response.result?.summary) return response.result.summary
-  if (response.result?.content) return response.result.content
-  if (typeof response.result === 'string') return response.result
-  return ''
-}
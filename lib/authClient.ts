@@ -0,0 +1,84 @@
+'use client'
+
+/**
+ * Auth Client Utility
+ *
+ * Client-side wrapper for the /api/auth routes. The session itself lives in an
+ * httpOnly cookie, so the browser never sees the token; these calls only
+ * report who is signed in.
+ */
+
+import type { AuthUser } from '@/lib/authSession'
+
+export type { AuthUser }
+
+type AuthResult = { success: boolean; user?: AuthUser; error?: string }
+
+async function post(url: string, body: unknown): Promise<AuthResult> {
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, user: data.user }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** The signed-in user; `success` is false when signed out. */
+export async function getCurrentUser(): Promise<AuthResult> {
+  try {
+    const res = await fetch('/api/auth/session', { cache: 'no-store' })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, user: data.user }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+export function signIn(username: string, password: string): Promise<AuthResult> {
+  return post('/api/auth/session', { username, password })
+}
+
+/** Create an account and sign in to it. */
+export function signUp(username: string, password: string): Promise<AuthResult> {
+  return post('/api/auth/register', { username, password })
+}
+
+export async function signOut(): Promise<{ success: boolean; error?: string }> {
+  try {
+    const res = await fetch('/api/auth/session', { method: 'DELETE' })
+    const data = await res.json()
+    return { success: !!data.success, error: data.error }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Send the browser to the sign-in page, returning here afterwards. */
+export function redirectToSignIn(): void {
+  const next = window.location.pathname + window.location.search
+  window.location.href = `/login?next=${encodeURIComponent(next)}`
+}
+
+const SAME_SITE_BASE = 'http://same-site.invalid'
+
+/**
+ * The sign-in page's `next` parameter as a same-site path, or `/`. Browsers
+ * read `/\evil.com` as `//evil.com`, so backslashes and control characters
+ * are refused and the rest must resolve to this origin.
+ */
+export function safeNextPath(value: string | null): string {
+  if (!value || !value.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(value)) return '/'
+  try {
+    const url = new URL(value, SAME_SITE_BASE)
+    return url.origin === SAME_SITE_BASE ? url.pathname + url.search + url.hash : '/'
+  } catch {
+    return '/'
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Signed sign-in sessions (server and middleware)
+ *
+ * A session is an HMAC-signed token in an httpOnly cookie. The middleware
+ * verifies it on every protected request and forwards the user to the route
+ * handlers in request headers it controls, so handlers never trust a
+ * `user_id` sent by the client. Only Web Crypto is used, so this module runs
+ * in the edge runtime as well as in Node route handlers.
+ *
+ * The signing key is AUTH_SECRET, derived from LYZR_API_KEY when unset. The
+ * middleware and the route handlers do not share memory, so the key must come
+ * from configuration; outside production a fixed development key is the last
+ * resort.
+ */
+
+export interface AuthUser {
+  id: string
+  username: string
+}
+
+export const SESSION_COOKIE = 'simplechat_session'
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+/** Set by the middleware from the verified session; incoming values are discarded */
+export const USER_ID_HEADER = 'x-simplechat-user-id'
+export const USER_NAME_HEADER = 'x-simplechat-username'
+
+const encoder = new TextEncoder()
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach((b) => (binary += String.fromCharCode(b)))
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0))
+}
+
+// ---------------------------------------------------------------------------
+// Signing
+// ---------------------------------------------------------------------------
+
+let keyPromise: Promise<CryptoKey> | null = null
+
+async function secretBytes(): Promise<ArrayBuffer> {
+  if (process.env.AUTH_SECRET) return encoder.encode(process.env.AUTH_SECRET).buffer as ArrayBuffer
+  const seed =
+    process.env.LYZR_API_KEY || (process.env.NODE_ENV !== 'production' ? 'simplechat-development-only' : '')
+  if (!seed) throw new Error('AUTH_SECRET is not configured on server')
+  return crypto.subtle.digest('SHA-256', encoder.encode(`auth-session:${seed}`))
+}
+
+function getKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    keyPromise = secretBytes().then((secret) =>
+      crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+    )
+    // Retry on the next call instead of caching a configuration error
+    keyPromise.catch(() => (keyPromise = null))
+  }
+  return keyPromise
+}
+
+/** Token for a freshly signed-in user, valid for SESSION_TTL_MS. */
+export async function signSession(user: AuthUser, now = Date.now()): Promise<string> {
+  const body = toBase64Url(encoder.encode(JSON.stringify({ u: user.id, n: user.username, e: now + SESSION_TTL_MS })))
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(body))
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+/** The token's user, or null if it is malformed, forged or expired. */
+export async function verifySession(token: string | undefined, now = Date.now()): Promise<AuthUser | null> {
+  const [body, signature] = token?.split('.') ?? []
+  if (!body || !signature) return null
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await getKey(), fromBase64Url(signature), encoder.encode(body))
+    if (!valid) return null
+    const { u, n, e } = JSON.parse(new TextDecoder().decode(fromBase64Url(body)))
+    if (typeof u !== 'string' || typeof n !== 'string' || typeof e !== 'number' || e < now) return null
+    return { id: u, username: n }
+  } catch {
+    return null
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Request helpers
+// ---------------------------------------------------------------------------
+
+/** Cookie attributes for the session token; pass maxAge 0 to sign out. */
+export function sessionCookieOptions(maxAgeMs = SESSION_TTL_MS) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: Math.floor(maxAgeMs / 1000),
+  }
+}
+
+/** Sign `user` in on `response`. */
+export async function setSessionCookie<T extends { cookies: { set(name: string, value: string, options: object): unknown } }>(
+  response: T,
+  user: AuthUser
+): Promise<T> {
+  response.cookies.set(SESSION_COOKIE, await signSession(user), sessionCookieOptions())
+  return response
+}
+
+/**
+ * The signed-in user of a request that passed the middleware. Route handlers
+ * use this instead of any `user_id` in the request.
+ */
+export function getRequestUser(request: Request): AuthUser | null {
+  const id = request.headers.get(USER_ID_HEADER)
+  const username = request.headers.get(USER_NAME_HEADER)
+  return id && username ? { id, username: decodeURIComponent(username) } : null
+}
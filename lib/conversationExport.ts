@@ -0,0 +1,287 @@
+/**
+ * Conversation Export / Import
+ *
+ * Serializes conversations to three formats:
+ *   - JSON:     versioned, lossless (full message tree); the only importable format
+ *   - Markdown: readable transcript of each conversation's displayed branch
+ *   - HTML:     self-contained printable page (inline CSS, no scripts)
+ *
+ * Imports are validated with zod before they reach the conversation list.
+ */
+
+import { z } from 'zod'
+import { Conversation, getActivePath, isMessageTree, mergeConversations } from '@/lib/conversations'
+
+// ---------------------------------------------------------------------------
+// Versioned JSON format
+// ---------------------------------------------------------------------------
+
+export const EXPORT_FORMAT = 'simplechat.conversations'
+export const EXPORT_VERSION = 1
+
+export interface ConversationExportFile {
+  format: typeof EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  conversations: Conversation[]
+}
+
+const attachmentSchema = z.object({
+  assetId: z.string(),
+  name: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  thumbnail: z.string().optional(),
+})
+
+const artifactSchema = z.object({
+  file_url: z.string(),
+  name: z.string(),
+  format_type: z.string(),
+})
+
+const messageSchema = z.object({
+  id: z.string().min(1),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  timestamp: z.number(),
+  error: z.boolean().optional(),
+  streaming: z.boolean().optional(),
+  stopReason: z.enum(['cancelled', 'timeout']).optional(),
+  parentId: z.string().nullable().optional(),
+  attachments: z.array(attachmentSchema).optional(),
+  artifacts: z.array(artifactSchema).optional(),
+})
+
+const conversationSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  sessionId: z.string(),
+  messages: z.array(messageSchema),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  activeLeafId: z.string().optional(),
+  agentId: z.string().optional(),
+  pinned: z.boolean().optional(),
+  folder: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  archived: z.boolean().optional(),
+  summary: z.string().optional(),
+  summarizedCount: z.number().optional(),
+  autoTitled: z.boolean().optional(),
+}).refine((convo) => isMessageTree(convo.messages as Conversation['messages']), {
+  message: 'message parent links must form a tree',
+  path: ['messages'],
+})
+
+const exportFileSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string().optional(),
+  conversations: z.array(conversationSchema),
+})
+
+export function toJsonExport(conversations: Conversation[]): string {
+  const file: ConversationExportFile = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations,
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Parse an export file. A bare conversation array (the localStorage layout)
+ * is accepted too, so old backups can be restored.
+ */
+export function parseJsonExport(text: string): { success: boolean; conversations: Conversation[]; error?: string } {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { success: false, conversations: [], error: 'File is not valid JSON' }
+  }
+
+  if (data && typeof data === 'object' && !Array.isArray(data) && (data as any).version > EXPORT_VERSION) {
+    return {
+      success: false,
+      conversations: [],
+      error: `Export version ${(data as any).version} is newer than this app supports (${EXPORT_VERSION})`,
+    }
+  }
+
+  const parsed = Array.isArray(data)
+    ? z.array(conversationSchema).safeParse(data)
+    : exportFileSchema.transform((file) => file.conversations).safeParse(data)
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    const where = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : ''
+    return { success: false, conversations: [], error: `Invalid export file${where}: ${issue.message}` }
+  }
+
+  // Streaming flags are transient and never meaningful after a round trip.
+  // (The cast is needed because zod marks every field optional without strictNullChecks.)
+  const conversations: Conversation[] = (parsed.data as Conversation[]).map((convo) => ({
+    ...convo,
+    messages: convo.messages.map(({ streaming: _streaming, ...msg }) => msg),
+  }))
+  return { success: true, conversations }
+}
+
+function randomSessionId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID()
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 10)
+}
+
+/**
+ * Merge imported conversations into the existing list. Duplicate ids keep the
+ * more recently updated copy; returns how many conversations were added or replaced.
+ *
+ * An export's agent session ids belong to whoever exported it, so imported
+ * conversations never keep them: a replaced conversation keeps the session of
+ * the copy it replaces, and a new one starts a session of its own.
+ */
+export function mergeImported(
+  existing: Conversation[],
+  imported: Conversation[],
+  newSessionId: () => string = randomSessionId
+): { conversations: Conversation[]; added: number; updated: number } {
+  const byId = new Map(existing.map((c) => [c.id, c]))
+  const deduped = Array.from(new Map(imported.map((c) => [c.id, c])).values())
+  let added = 0
+  let updated = 0
+  const rehomed = deduped.map((convo) => {
+    const current = byId.get(convo.id)
+    if (!current) added++
+    else if (convo.updatedAt > current.updatedAt) updated++
+    return { ...convo, sessionId: current ? current.sessionId : newSessionId() }
+  })
+  // mergeConversations keeps `local` on ties, so existing copies win unless the import is newer
+  return { conversations: mergeConversations(existing, rehomed), added, updated }
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString()
+}
+
+export function toMarkdown(conversations: Conversation[]): string {
+  return conversations
+    .map((convo) => {
+      const lines = [`# ${convo.title || 'Untitled conversation'}`, '', `_Started ${formatDate(convo.createdAt)}_`, '']
+      for (const msg of getActivePath(convo)) {
+        lines.push(`## ${msg.role === 'user' ? 'You' : 'Assistant'} · ${formatDate(msg.timestamp)}`, '')
+        if (msg.content) lines.push(msg.content, '')
+        for (const file of msg.attachments ?? []) lines.push(`- Attachment: ${file.name}`)
+        for (const file of msg.artifacts ?? []) lines.push(`- [${file.name || file.file_url}](${file.file_url})`)
+        if (msg.attachments?.length || msg.artifacts?.length) lines.push('')
+      }
+      return lines.join('\n').trimEnd()
+    })
+    .join('\n\n---\n\n')
+    .concat('\n')
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function isHttpUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url)
+}
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #222; line-height: 1.55; }
+  h1 { font-size: 1.4rem; margin: 2rem 0 0.25rem; }
+  .meta { color: #777; font-size: 0.8rem; margin-bottom: 1rem; }
+  .msg { border-radius: 12px; padding: 0.75rem 1rem; margin: 0.75rem 0; break-inside: avoid; }
+  .user { background: #f1ece6; margin-left: 15%; }
+  .assistant { background: #f6f6f6; margin-right: 15%; }
+  .role { font-size: 0.75rem; font-weight: 600; color: #71514f; margin-bottom: 0.25rem; }
+  .content { white-space: pre-wrap; word-wrap: break-word; font-size: 0.9rem; }
+  .files { font-size: 0.8rem; color: #555; margin-top: 0.5rem; }
+  hr { border: none; border-top: 1px solid #ddd; margin: 2.5rem 0; }
+  @media print { body { margin: 0; } .msg { border: 1px solid #ddd; } }
+`
+
+export function toHtml(conversations: Conversation[]): string {
+  const title = conversations.length === 1 ? conversations[0].title || 'Conversation' : `${conversations.length} conversations`
+  const sections = conversations.map((convo) => {
+    const messages = getActivePath(convo)
+      .map((msg) => {
+        const files = [
+          ...(msg.attachments ?? []).map((f) => `<div>Attachment: ${escapeHtml(f.name)}</div>`),
+          ...(msg.artifacts ?? []).map((f) =>
+            isHttpUrl(f.file_url)
+              ? `<div><a href="${escapeHtml(f.file_url)}">${escapeHtml(f.name || f.file_url)}</a></div>`
+              : `<div>${escapeHtml(f.name)}</div>`
+          ),
+        ]
+        return [
+          `<div class="msg ${msg.role}">`,
+          `<div class="role">${msg.role === 'user' ? 'You' : 'Assistant'} · ${escapeHtml(formatDate(msg.timestamp))}</div>`,
+          msg.content ? `<div class="content">${escapeHtml(msg.content)}</div>` : '',
+          files.length > 0 ? `<div class="files">${files.join('')}</div>` : '',
+          `</div>`,
+        ].join('')
+      })
+      .join('\n')
+    return `<section>\n<h1>${escapeHtml(convo.title || 'Untitled conversation')}</h1>\n<div class="meta">Started ${escapeHtml(formatDate(convo.createdAt))}</div>\n${messages}\n</section>`
+  })
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${sections.join('\n<hr>\n')}
+</body>
+</html>
+`
+}
+
+// ---------------------------------------------------------------------------
+// File naming
+// ---------------------------------------------------------------------------
+
+export type ExportFormat = 'markdown' | 'json' | 'html'
+
+const EXTENSIONS: Record<ExportFormat, { ext: string; mime: string }> = {
+  markdown: { ext: 'md', mime: 'text/markdown' },
+  json: { ext: 'json', mime: 'application/json' },
+  html: { ext: 'html', mime: 'text/html' },
+}
+
+/** File name, MIME type and contents for an export. */
+export function buildExport(
+  conversations: Conversation[],
+  format: ExportFormat
+): { filename: string; mimeType: string; content: string } {
+  const base =
+    conversations.length === 1
+      ? (conversations[0].title || 'conversation').replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-').slice(0, 60) ||
+        'conversation'
+      : `conversations-${new Date().toISOString().slice(0, 10)}`
+  const { ext, mime } = EXTENSIONS[format]
+  const content =
+    format === 'json' ? toJsonExport(conversations) : format === 'html' ? toHtml(conversations) : toMarkdown(conversations)
+  return { filename: `${base}.${ext}`, mimeType: `${mime};charset=utf-8`, content }
+}
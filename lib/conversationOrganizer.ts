@@ -0,0 +1,94 @@
+/**
+ * Sidebar organization
+ *
+ * Filtering and grouping of conversations by the metadata stored on each
+ * Conversation (pinned, folder, tags, archived). Folders and tags have no
+ * records of their own: a folder exists while a conversation is in it, and a
+ * tag's color is derived from its name (see ConversationList) so every
+ * device agrees on it.
+ */
+
+import type { Conversation } from '@/lib/conversations'
+
+// ---------------------------------------------------------------------------
+// Filters
+// ---------------------------------------------------------------------------
+
+export type ConversationView = 'all' | 'pinned' | 'archived'
+
+export interface ConversationFilter {
+  view: ConversationView
+  /** Only conversations carrying this tag */
+  tag: string | null
+}
+
+export const DEFAULT_FILTER: ConversationFilter = { view: 'all', tag: null }
+
+/** Archived conversations only show in the archived view. */
+export function filterConversations(conversations: Conversation[], filter: ConversationFilter): Conversation[] {
+  return conversations.filter((convo) => {
+    if (filter.view === 'archived' ? !convo.archived : convo.archived) return false
+    if (filter.view === 'pinned' && !convo.pinned) return false
+    if (filter.tag && !convo.tags?.includes(filter.tag)) return false
+    return true
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Grouping
+// ---------------------------------------------------------------------------
+
+export interface ConversationGroups {
+  pinned: Conversation[]
+  folders: { name: string; conversations: Conversation[] }[]
+  unfiled: Conversation[]
+}
+
+/**
+ * Pinned conversations first (whatever their folder), then folders by name,
+ * then everything else. Input order is kept within each group.
+ */
+export function groupConversations(conversations: Conversation[]): ConversationGroups {
+  const pinned: Conversation[] = []
+  const unfiled: Conversation[] = []
+  const folders = new Map<string, Conversation[]>()
+
+  for (const convo of conversations) {
+    if (convo.pinned) pinned.push(convo)
+    else if (convo.folder) folders.set(convo.folder, [...(folders.get(convo.folder) ?? []), convo])
+    else unfiled.push(convo)
+  }
+
+  return {
+    pinned,
+    folders: Array.from(folders, ([name, items]) => ({ name, conversations: items })).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    ),
+    unfiled,
+  }
+}
+
+/** Every folder name in use, sorted. */
+export function collectFolders(conversations: Conversation[]): string[] {
+  const names = new Set<string>()
+  for (const convo of conversations) if (convo.folder) names.add(convo.folder)
+  return Array.from(names).sort((a, b) => a.localeCompare(b))
+}
+
+/** Every tag in use, sorted. */
+export function collectTags(conversations: Conversation[]): string[] {
+  const names = new Set<string>()
+  for (const convo of conversations) convo.tags?.forEach((tag) => names.add(tag))
+  return Array.from(names).sort((a, b) => a.localeCompare(b))
+}
+
+// ---------------------------------------------------------------------------
+// Names
+// ---------------------------------------------------------------------------
+
+const MAX_LABEL_LENGTH = 40
+
+/** Trim and collapse whitespace; returns '' for an unusable name. */
+export function normalizeLabel(name: string): string {
+  return name.replace(/\s+/g, ' ').trim().slice(0, MAX_LABEL_LENGTH)
+}
@@ -0,0 +1,171 @@
+/**
+ * Conversation Store (server-only)
+ *
+ * Persistence behind the /api/conversations routes. Conversations are scoped
+ * per user_id. Adapters:
+ *   - file   (default) one JSON document per user under CONVERSATION_STORE_DIR
+ *   - memory           process-local, for tests and ephemeral deployments
+ *
+ * Writes resolve conflicts by `updatedAt`: an older copy never overwrites a
+ * newer one, and a deleted conversation is not revived by a stale client.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createHash } from 'crypto'
+import { Conversation, sortConversations } from '@/lib/conversations'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ConversationStore {
+  list(userId: string): Promise<Conversation[]>
+  get(userId: string, id: string): Promise<Conversation | null>
+  /** Upsert; returns the copy that is stored after conflict resolution, or null if it was deleted. */
+  put(userId: string, conversation: Conversation): Promise<Conversation | null>
+  delete(userId: string, id: string): Promise<boolean>
+}
+
+interface UserDocument {
+  conversations: Record<string, Conversation>
+  /** Tombstones: conversation id → deletion time */
+  deleted: Record<string, number>
+}
+
+interface DocumentBackend {
+  load(userId: string): Promise<UserDocument>
+  save(userId: string, doc: UserDocument): Promise<void>
+}
+
+// ---------------------------------------------------------------------------
+// Shared implementation
+// ---------------------------------------------------------------------------
+
+function emptyDocument(): UserDocument {
+  return { conversations: {}, deleted: {} }
+}
+
+function createDocumentStore(backend: DocumentBackend): ConversationStore {
+  // Serialize read-modify-write cycles per user
+  const locks = new Map<string, Promise<unknown>>()
+
+  function withLock<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = locks.get(userId) ?? Promise.resolve()
+    const next = previous.catch(() => {}).then(fn)
+    locks.set(userId, next)
+    next.finally(() => {
+      if (locks.get(userId) === next) locks.delete(userId)
+    }).catch(() => {})
+    return next
+  }
+
+  return {
+    async list(userId) {
+      const doc = await backend.load(userId)
+      return sortConversations(Object.values(doc.conversations))
+    },
+
+    async get(userId, id) {
+      const doc = await backend.load(userId)
+      return doc.conversations[id] ?? null
+    },
+
+    put(userId, conversation) {
+      return withLock(userId, async () => {
+        const doc = await backend.load(userId)
+        const deletedAt = doc.deleted[conversation.id]
+        if (deletedAt !== undefined && deletedAt >= conversation.updatedAt) {
+          return null
+        }
+
+        const existing = doc.conversations[conversation.id]
+        if (existing && existing.updatedAt > conversation.updatedAt) {
+          return existing
+        }
+
+        doc.conversations[conversation.id] = conversation
+        delete doc.deleted[conversation.id]
+        await backend.save(userId, doc)
+        return conversation
+      })
+    },
+
+    delete(userId, id) {
+      return withLock(userId, async () => {
+        const doc = await backend.load(userId)
+        const existed = id in doc.conversations
+        delete doc.conversations[id]
+        doc.deleted[id] = Date.now()
+        await backend.save(userId, doc)
+        return existed
+      })
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Adapters
+// ---------------------------------------------------------------------------
+
+export function createMemoryConversationStore(): ConversationStore {
+  const docs = new Map<string, UserDocument>()
+  return createDocumentStore({
+    async load(userId) {
+      return structuredClone(docs.get(userId) ?? emptyDocument())
+    },
+    async save(userId, doc) {
+      docs.set(userId, structuredClone(doc))
+    },
+  })
+}
+
+export function createFileConversationStore(dir: string): ConversationStore {
+  // Hash user ids so arbitrary client input can never escape the directory
+  const fileFor = (userId: string) =>
+    path.join(dir, `${createHash('sha256').update(userId).digest('hex')}.json`)
+
+  return createDocumentStore({
+    async load(userId) {
+      try {
+        const raw = await fs.readFile(fileFor(userId), 'utf8')
+        const parsed = JSON.parse(raw)
+        return {
+          conversations: parsed.conversations ?? {},
+          deleted: parsed.deleted ?? {},
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return emptyDocument()
+        throw error
+      }
+    },
+    async save(userId, doc) {
+      await fs.mkdir(dir, { recursive: true })
+      const file = fileFor(userId)
+      const tmp = `${file}.${process.pid}.tmp`
+      await fs.writeFile(tmp, JSON.stringify(doc), 'utf8')
+      await fs.rename(tmp, file)
+    },
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Configured instance
+// ---------------------------------------------------------------------------
+
+let store: ConversationStore | null = null
+
+/**
+ * The store selected by CONVERSATION_STORE ("file" | "memory").
+ */
+export function getConversationStore(): ConversationStore {
+  if (!store) {
+    store =
+      process.env.CONVERSATION_STORE === 'memory'
+        ? createMemoryConversationStore()
+        : createFileConversationStore(
+            process.env.CONVERSATION_STORE_DIR || path.join(process.cwd(), '.data', 'conversations')
+          )
+  }
+  return store
+}
@@ -0,0 +1,125 @@
+'use client'
+
+/**
+ * Conversation titles and summaries
+ *
+ * After the first exchange, and again every SUMMARY_REFRESH_EVERY messages,
+ * the conversation's own agent is asked for a short title and a one-sentence
+ * summary. The request runs in a separate session so it never shows up in
+ * the chat's memory. A title the user renamed (`autoTitled === false`) is
+ * never replaced; only the summary is refreshed.
+ */
+
+import { callAIAgent, extractText } from '@/lib/aiAgent'
+import parseLLMJson from '@/lib/jsonParser'
+import { Conversation, getActivePath } from '@/lib/conversations'
+import { DEFAULT_AGENT_ID } from '@/lib/agentRegistry'
+
+/** Messages on the displayed branch between summary refreshes */
+export const SUMMARY_REFRESH_EVERY = 10
+
+const MAX_TITLE_LENGTH = 60
+const MAX_SUMMARY_LENGTH = 300
+/** Transcript budget; the most recent messages are kept */
+const MAX_TRANSCRIPT_CHARS = 6000
+
+// ---------------------------------------------------------------------------
+// Scheduling
+// ---------------------------------------------------------------------------
+
+/**
+ * True once the displayed branch ends in a completed reply and either nothing
+ * was summarized yet or enough messages were added since.
+ */
+export function needsSummary(conversation: Conversation): boolean {
+  const path = getActivePath(conversation)
+  const last = path[path.length - 1]
+  if (path.length < 2 || !last || last.role !== 'assistant' || last.streaming || last.error) return false
+  if (conversation.summarizedCount === undefined) return true
+  return path.length - conversation.summarizedCount >= SUMMARY_REFRESH_EVERY
+}
+
+// ---------------------------------------------------------------------------
+// Prompt
+// ---------------------------------------------------------------------------
+
+function buildTranscript(conversation: Conversation): string {
+  const lines: string[] = []
+  let length = 0
+  for (const msg of getActivePath(conversation).reverse()) {
+    const attachments = msg.attachments?.length ? ` [attached: ${msg.attachments.map((a) => a.name).join(', ')}]` : ''
+    const line = `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}${attachments}`
+    if (length + line.length > MAX_TRANSCRIPT_CHARS && lines.length > 0) break
+    lines.unshift(line.slice(0, MAX_TRANSCRIPT_CHARS))
+    length += line.length
+  }
+  return lines.join('\n\n')
+}
+
+export function buildSummaryPrompt(conversation: Conversation): string {
+  return [
+    'Give this conversation a title and a summary.',
+    `Reply with only a JSON object: {"title": string, "summary": string}.`,
+    `The title is at most 6 words, without quotes or a trailing period. The summary is one sentence of at most ${MAX_SUMMARY_LENGTH} characters.`,
+    'Use the language of the conversation.',
+    '',
+    '--- Conversation ---',
+    buildTranscript(conversation),
+  ].join('\n')
+}
+
+// ---------------------------------------------------------------------------
+// Request
+// ---------------------------------------------------------------------------
+
+export interface SummaryResult {
+  success: boolean
+  title?: string
+  summary?: string
+  error?: string
+}
+
+function clean(value: unknown, max: number): string {
+  if (typeof value !== 'string') return ''
+  return value.replace(/\s+/g, ' ').trim().replace(/^["'“”]+|["'“”]+$/g, '').slice(0, max).trim()
+}
+
+function readSummary(value: any): { title: string; summary: string } | null {
+  if (!value || typeof value !== 'object') return null
+  const title = clean(value.title, MAX_TITLE_LENGTH).replace(/\.$/, '')
+  const summary = clean(value.summary, MAX_SUMMARY_LENGTH)
+  return title || summary ? { title, summary } : null
+}
+
+export async function summarizeConversation(conversation: Conversation): Promise<SummaryResult> {
+  const result = await callAIAgent(buildSummaryPrompt(conversation), conversation.agentId ?? DEFAULT_AGENT_ID, {
+    session_id: `${conversation.sessionId}-summary`,
+    // The reply is {title, summary}, not the agent's own schema, so it must not be "repaired"
+    repair: false,
+    purpose: 'summary',
+  })
+  if (!result.success) return { success: false, error: result.error || 'Summary request failed' }
+
+  // Agents with a structured result may return the fields directly
+  const parsed = readSummary(result.response?.result) ?? readSummary(parseLLMJson(extractText(result.response)))
+  if (!parsed) return { success: false, error: 'Agent did not return a title and summary' }
+  return { success: true, ...parsed }
+}
+
+/**
+ * Fields to store after summarizing `messageCount` messages. The title is
+ * only replaced when the user has not renamed the conversation.
+ */
+export function summaryPatch(
+  conversation: Conversation,
+  result: SummaryResult,
+  messageCount: number
+): Partial<Conversation> {
+  const patch: Partial<Conversation> = { summarizedCount: messageCount }
+  if (result.summary) patch.summary = result.summary
+  if (result.title && conversation.autoTitled !== false) {
+    patch.title = result.title
+    patch.autoTitled = true
+  }
+  return patch
+}
@@ -0,0 +1,66 @@
+'use client'
+
+/**
+ * Conversation Sync Client Utility
+ *
+ * Client-side wrapper for the /api/conversations routes. localStorage stays the
+ * offline cache; these calls keep it in step with server-side storage. The
+ * server scopes every call to the signed-in user.
+ */
+
+import { Conversation } from '@/lib/conversations'
+
+/**
+ * Push local conversations and receive the merged server list.
+ * The first call for a browser migrates its existing localStorage history.
+ */
+export async function syncConversations(
+  conversations: Conversation[]
+): Promise<{ success: boolean; conversations: Conversation[]; error?: string }> {
+  try {
+    const res = await fetch('/api/conversations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ conversations }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, conversations: [], error: data.error }
+    return { success: true, conversations: data.conversations || [] }
+  } catch (error) {
+    return { success: false, conversations: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Save one conversation. Returns the server copy, which may be newer on conflict. */
+export async function saveConversation(
+  conversation: Conversation
+): Promise<{ success: boolean; conversation?: Conversation; conflict?: boolean; error?: string }> {
+  try {
+    const res = await fetch(`/api/conversations/${encodeURIComponent(conversation.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ conversation }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, conversation: data.conversation, conflict: data.conflict }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Delete a conversation from server storage. */
+export async function deleteConversation(
+  conversationId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const res = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}`, {
+      method: 'DELETE',
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Conversation model
+ *
+ * Shared by the chat page, the /api/conversations routes and the server-side
+ * ConversationStore so every layer agrees on the stored shape.
+ *
+ * Messages form a tree: editing a user message or regenerating a reply adds a
+ * sibling under the same parent. `messages` holds every node in creation order
+ * and `activeLeafId` selects the branch that is displayed. Histories stored
+ * before branching existed have no `parentId`; they read as a single chain.
+ */
+
+import type { ArtifactFile } from '@/lib/agentResponse'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A file uploaded with a user message, referenced by its Lyzr asset id */
+export interface MessageAttachment {
+  assetId: string
+  name: string
+  mimeType: string
+  size: number
+  /** Small data-URL preview for images, so history renders without refetching */
+  thumbnail?: string
+}
+
+export interface ChatMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  timestamp: number
+  error?: boolean
+  streaming?: boolean
+  /** Why an assistant reply ended early: stopped by the user or timed out */
+  stopReason?: 'cancelled' | 'timeout'
+  /** Previous message on this branch; null for a root, undefined for legacy linear history */
+  parentId?: string | null
+  attachments?: MessageAttachment[]
+  /** Files the agent produced with this reply (module_outputs.artifact_files) */
+  artifacts?: ArtifactFile[]
+}
+
+export interface Conversation {
+  id: string
+  title: string
+  sessionId: string
+  messages: ChatMessage[]
+  createdAt: number
+  updatedAt: number
+  /** Last message of the displayed branch; defaults to the newest message */
+  activeLeafId?: string
+  /** Agent this conversation talks to; defaults to the registry's first agent */
+  agentId?: string
+  /** Listed above everything else in the sidebar */
+  pinned?: boolean
+  /** Sidebar folder name; unset for the top level */
+  folder?: string
+  /** User-defined labels; each tag's color is derived from its name */
+  tags?: string[]
+  /** Hidden from the sidebar list but still searchable */
+  archived?: boolean
+  /** One-sentence description generated by the agent */
+  summary?: string
+  /** Length of the displayed branch when `summary` was generated */
+  summarizedCount?: number
+  /** False once the user renames the conversation; generated titles never replace it */
+  autoTitled?: boolean
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function isMessageAttachment(value: any): value is MessageAttachment {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof value.assetId === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.mimeType === 'string' &&
+    typeof value.size === 'number' &&
+    (value.thumbnail === undefined || typeof value.thumbnail === 'string')
+  )
+}
+
+function isArtifactFile(value: any): value is ArtifactFile {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof value.file_url === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.format_type === 'string'
+  )
+}
+
+function isChatMessage(value: any): value is ChatMessage {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof value.id === 'string' &&
+    (value.role === 'user' || value.role === 'assistant') &&
+    typeof value.content === 'string' &&
+    typeof value.timestamp === 'number' &&
+    (value.stopReason === undefined || value.stopReason === 'cancelled' || value.stopReason === 'timeout') &&
+    (value.parentId === undefined || value.parentId === null || typeof value.parentId === 'string') &&
+    (value.attachments === undefined || (Array.isArray(value.attachments) && value.attachments.every(isMessageAttachment))) &&
+    (value.artifacts === undefined || (Array.isArray(value.artifacts) && value.artifacts.every(isArtifactFile)))
+  )
+}
+
+/** Structural check for a conversation received from an untrusted source. */
+export function isConversation(value: any): value is Conversation {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof value.id === 'string' &&
+    value.id.length > 0 &&
+    typeof value.title === 'string' &&
+    typeof value.sessionId === 'string' &&
+    typeof value.createdAt === 'number' &&
+    typeof value.updatedAt === 'number' &&
+    (value.agentId === undefined || typeof value.agentId === 'string') &&
+    (value.pinned === undefined || typeof value.pinned === 'boolean') &&
+    (value.folder === undefined || typeof value.folder === 'string') &&
+    (value.tags === undefined || (Array.isArray(value.tags) && value.tags.every((t: unknown) => typeof t === 'string'))) &&
+    (value.archived === undefined || typeof value.archived === 'boolean') &&
+    (value.summary === undefined || typeof value.summary === 'string') &&
+    (value.summarizedCount === undefined || typeof value.summarizedCount === 'number') &&
+    (value.autoTitled === undefined || typeof value.autoTitled === 'boolean') &&
+    Array.isArray(value.messages) &&
+    value.messages.every(isChatMessage) &&
+    isMessageTree(value.messages)
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Conflict resolution
+// ---------------------------------------------------------------------------
+
+/** Newest first, matching the order new chats are prepended in the sidebar. */
+export function sortConversations(conversations: Conversation[]): Conversation[] {
+  return [...conversations].sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * Merge two conversation lists by id. When both sides have a conversation the
+ * one with the later `updatedAt` wins (ties keep `local`).
+ */
+export function mergeConversations(local: Conversation[], remote: Conversation[]): Conversation[] {
+  const merged = new Map<string, Conversation>()
+  for (const convo of remote) merged.set(convo.id, convo)
+  for (const convo of local) {
+    const existing = merged.get(convo.id)
+    if (!existing || convo.updatedAt >= existing.updatedAt) {
+      merged.set(convo.id, convo)
+    }
+  }
+  return sortConversations(Array.from(merged.values()))
+}
+
+// ---------------------------------------------------------------------------
+// Message tree
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve each message's parent, treating legacy messages (no parentId) as
+ * following the message stored before them.
+ */
+function parentMap(messages: ChatMessage[]): Map<string, string | null> {
+  const parents = new Map<string, string | null>()
+  messages.forEach((msg, i) => {
+    parents.set(msg.id, msg.parentId !== undefined ? msg.parentId : i > 0 ? messages[i - 1].id : null)
+  })
+  return parents
+}
+
+/**
+ * True when the parent links form a tree: ids are unique, every parent exists
+ * and following parents always reaches a root. Tree walks below stop at
+ * revisited messages anyway, but data from outside is checked up front.
+ */
+export function isMessageTree(messages: ChatMessage[]): boolean {
+  const parents = parentMap(messages)
+  if (parents.size !== messages.length) return false
+  // Messages already known to lead to a root
+  const rooted = new Set<string>()
+  for (const msg of messages) {
+    const visited = new Set<string>()
+    let cursor: string | null = msg.id
+    while (cursor && !rooted.has(cursor)) {
+      if (visited.has(cursor) || !parents.has(cursor)) return false
+      visited.add(cursor)
+      cursor = parents.get(cursor) ?? null
+    }
+    visited.forEach((id) => rooted.add(id))
+  }
+  return true
+}
+
+/** Id of the last message on the displayed branch. */
+export function getActiveLeafId(conversation: Conversation): string | null {
+  const { messages, activeLeafId } = conversation
+  if (activeLeafId && messages.some((m) => m.id === activeLeafId)) return activeLeafId
+  return messages.length > 0 ? messages[messages.length - 1].id : null
+}
+
+/** Messages on the displayed branch, root first. */
+export function getActivePath(conversation: Conversation): ChatMessage[] {
+  const byId = new Map(conversation.messages.map((m) => [m.id, m]))
+  const parents = parentMap(conversation.messages)
+  const path: ChatMessage[] = []
+  const visited = new Set<string>()
+  let cursor = getActiveLeafId(conversation)
+  while (cursor && !visited.has(cursor)) {
+    const msg = byId.get(cursor)
+    if (!msg) break
+    visited.add(cursor)
+    path.push(msg)
+    cursor = parents.get(cursor) ?? null
+  }
+  return path.reverse()
+}
+
+/** Alternative versions of a message (same parent), in creation order, including itself. */
+export function getSiblings(conversation: Conversation, messageId: string): ChatMessage[] {
+  const parents = parentMap(conversation.messages)
+  if (!parents.has(messageId)) return []
+  const parentId = parents.get(messageId)
+  return conversation.messages.filter((m) => parents.get(m.id) === parentId)
+}
+
+/** Follow the newest child from `messageId` down to a leaf. */
+export function getLatestLeaf(conversation: Conversation, messageId: string): string {
+  const parents = parentMap(conversation.messages)
+  const visited = new Set([messageId])
+  let leaf = messageId
+  while (true) {
+    const children = conversation.messages.filter((m) => parents.get(m.id) === leaf)
+    if (children.length === 0) return leaf
+    const next = children[children.length - 1].id
+    if (visited.has(next)) return leaf
+    visited.add(next)
+    leaf = next
+  }
+}
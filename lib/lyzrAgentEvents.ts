@@ -51,8 +51,6 @@ export interface AgentActivityState {
   isProcessing: boolean;
 }
 
-const WS_BASE_URL = "wss://metrics.studio.lyzr.ai/session";
-
 /**
  * Check if event is a "thinking" event
  * 
@@ -108,15 +106,19 @@ function isThinkingEvent(event: LyzrAgentEvent): boolean {
 }
 
 /**
- * Hook to subscribe to Lyzr Agent Events via WebSocket
+ * Hook to subscribe to Lyzr Agent Events
  * 
- * SECURITY: Uses server-side API route to get WebSocket credentials
+ * SECURITY: The Lyzr WebSocket is held by the server and relayed over SSE
+ * (/api/agent-events/stream). The browser only receives a short-lived ticket
+ * scoped to a session it owns — never the API key.
  * 
  * @param sessionId - The Lyzr session ID (from agent response)
+ * @param userId - The signed-in user; nothing connects until it is known
  * @returns Agent activity state and control functions
  */
 export function useLyzrAgentEvents(
-  sessionId: string | null
+  sessionId: string | null,
+  userId?: string | null
 ): AgentActivityState & {
   reset: () => void;
   setProcessing: (processing: boolean) => void;
@@ -129,7 +131,7 @@ export function useLyzrAgentEvents(
   const [activeAgentName, setActiveAgentName] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
 
-  const wsRef = useRef<WebSocket | null>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const reconnectAttemptsRef = useRef(0);
   const isProcessingRef = useRef(false);
@@ -147,11 +149,11 @@ export function useLyzrAgentEvents(
     setActiveAgentName(null);
     setIsProcessing(false);
     
-    // Close existing WebSocket connection
-    if (wsRef.current) {
-      console.log("🔌 Closing existing WebSocket connection");
-      wsRef.current.close();
-      wsRef.current = null;
+    // Close existing event stream
+    if (eventSourceRef.current) {
+      console.log("🔌 Closing existing agent event stream");
+      eventSourceRef.current.close();
+      eventSourceRef.current = null;
     }
     
     // Clear any pending reconnect
@@ -180,7 +182,7 @@ export function useLyzrAgentEvents(
   }, []);
 
   /**
-   * Handle incoming WebSocket message
+   * Handle incoming agent event
    */
   const handleMessage = useCallback((event: MessageEvent) => {
     try {
@@ -229,95 +231,101 @@ export function useLyzrAgentEvents(
         setIsProcessing(false);
       }
     } catch (error) {
-      console.error("Error parsing WebSocket message:", error, event.data);
+      console.error("Error parsing agent event:", error, event.data);
     }
   }, []);
 
   /**
-   * Connect to WebSocket
+   * Connect to the agent events relay
    * 
-   * First fetches WebSocket credentials from server-side API,
-   * then establishes the WebSocket connection
+   * First fetches a session ticket from the server,
+   * then opens the SSE stream the server relays events over
    */
   const connect = useCallback(async () => {
-    if (!sessionId) {
-      console.warn("Cannot connect: missing sessionId");
+    if (!sessionId || !userId) {
+      console.warn("Cannot connect: missing sessionId or userId");
       return;
     }
 
     // Close existing connection
-    if (wsRef.current) {
-      wsRef.current.close();
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close();
     }
 
+    const scheduleReconnect = () => {
+      if (isProcessingRef.current && reconnectAttemptsRef.current < maxReconnectAttempts) {
+        const delay = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 30000);
+        reconnectAttemptsRef.current++;
+        console.log(`⏳ Reconnecting in ${delay}ms (attempt ${reconnectAttemptsRef.current})`);
+        reconnectTimeoutRef.current = setTimeout(connect, delay);
+      }
+    };
+
     try {
-      // Get WebSocket credentials from server (keeps API key secure)
+      // Get a ticket for this session (the server checks we own it)
       const response = await fetch('/api/agent-events', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
+        // The server identifies the user from the sign-in session
         body: JSON.stringify({ session_id: sessionId }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to get WebSocket credentials');
+        if (response.status === 403) {
+          console.error("❌ Not authorized for agent events of this session");
+          return;
+        }
+        throw new Error('Failed to get agent events ticket');
       }
 
-      const { apiKey, wsUrl } = await response.json();
-
-      // Connect to Lyzr WebSocket with API key from server
-      const fullWsUrl = `${wsUrl}?x-api-key=${encodeURIComponent(apiKey)}`;
-      console.log("🔌 Connecting to Lyzr WebSocket");
+      const { streamUrl } = await response.json();
+      console.log("🔌 Connecting to agent events relay");
 
-      const ws = new WebSocket(fullWsUrl);
-      wsRef.current = ws;
+      const es = new EventSource(streamUrl);
+      eventSourceRef.current = es;
 
-      ws.onopen = () => {
-        console.log("✅ Lyzr WebSocket connected successfully");
-        setIsConnected(true);
-        reconnectAttemptsRef.current = 0;
-      };
-
-      ws.onmessage = handleMessage;
+      es.addEventListener("status", (event) => {
+        const { connected } = JSON.parse((event as MessageEvent).data);
+        setIsConnected(connected);
+        if (connected) {
+          console.log("✅ Agent events relay connected");
+          reconnectAttemptsRef.current = 0;
+        }
+      });
 
-      ws.onerror = (error) => {
-        console.error("❌ Lyzr WebSocket error:", {
-          type: error.type,
-          message: error instanceof ErrorEvent ? error.message : "Connection error",
-        });
-        setIsConnected(false);
-      };
+      es.addEventListener("agent_event", (event) => handleMessage(event as MessageEvent));
 
-      ws.onclose = (event) => {
-        console.log("🔴 Lyzr WebSocket closed:", event.code, event.reason);
+      es.onerror = () => {
         setIsConnected(false);
-        wsRef.current = null;
-
-        // Attempt reconnect with exponential backoff
-        if (isProcessingRef.current && reconnectAttemptsRef.current < maxReconnectAttempts) {
-          const delay = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 30000);
-          reconnectAttemptsRef.current++;
-          console.log(`⏳ Reconnecting in ${delay}ms (attempt ${reconnectAttemptsRef.current})`);
-          reconnectTimeoutRef.current = setTimeout(connect, delay);
+        // EventSource retries transient drops itself; a CLOSED stream
+        // (e.g. expired ticket) needs a fresh ticket
+        if (es.readyState === EventSource.CLOSED) {
+          console.log("🔴 Agent events stream closed");
+          if (eventSourceRef.current === es) {
+            eventSourceRef.current = null;
+          }
+          scheduleReconnect();
         }
       };
     } catch (error) {
-      console.error("Error creating WebSocket:", error);
+      console.error("Error connecting to agent events:", error);
       setIsConnected(false);
+      scheduleReconnect();
     }
-  }, [sessionId, handleMessage]);
+  }, [sessionId, userId, handleMessage]);
 
   /**
-   * Effect to manage WebSocket connection
+   * Effect to manage the event stream connection
    */
   useEffect(() => {
     // Only connect while processing (prevents idle errors/spam)
-    if (!sessionId || !isProcessing) {
+    if (!sessionId || !userId || !isProcessing) {
       // Ensure we are disconnected in idle state
-      if (wsRef.current) {
-        wsRef.current.close();
-        wsRef.current = null;
+      if (eventSourceRef.current) {
+        eventSourceRef.current.close();
+        eventSourceRef.current = null;
       }
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
@@ -336,16 +344,16 @@ export function useLyzrAgentEvents(
     
     return () => {
       clearTimeout(timeoutId);
-      if (wsRef.current) {
-        wsRef.current.close();
-        wsRef.current = null;
+      if (eventSourceRef.current) {
+        eventSourceRef.current.close();
+        eventSourceRef.current = null;
       }
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
         reconnectTimeoutRef.current = null;
       }
     };
-  }, [sessionId, connect, isProcessing]);
+  }, [sessionId, userId, connect, isProcessing]);
 
   return {
     isConnected,
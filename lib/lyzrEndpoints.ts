@@ -0,0 +1,33 @@
+/**
+ * Lyzr Endpoints (server-only)
+ *
+ * Base URLs of the upstream services the API routes proxy to. Each defaults to
+ * production and can be overridden on its own; LYZR_BASE_URL points all of
+ * them at one host that serves every contract, such as the bundled mock
+ * server (`npm run mock:lyzr`), so the app runs without network access.
+ */
+
+const SHARED_BASE_URL = trimSlash(process.env.LYZR_BASE_URL || '')
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '')
+}
+
+function baseUrl(name: string, production: string): string {
+  return trimSlash(process.env[name] || SHARED_BASE_URL || production)
+}
+
+/** Inference (chat + stream) and assets upload */
+export const LYZR_AGENT_BASE_URL = baseUrl('LYZR_AGENT_BASE_URL', 'https://agent-prod.studio.lyzr.ai')
+/** Knowledge base documents and training */
+export const LYZR_RAG_BASE_URL = baseUrl('LYZR_RAG_BASE_URL', 'https://rag-prod.studio.lyzr.ai')
+export const LYZR_SCHEDULER_BASE_URL = baseUrl('LYZR_SCHEDULER_BASE_URL', 'https://scheduler.studio.lyzr.ai')
+/** Website crawling into a knowledge base */
+export const RAG_CRAWL_BASE_URL = baseUrl('RAG_CRAWL_BASE_URL', 'https://api.beta.architect.new')
+
+/** Session events WebSocket; an http(s) LYZR_BASE_URL maps to ws(s) */
+export const LYZR_METRICS_WS_URL = trimSlash(
+  process.env.LYZR_METRICS_WS_URL ||
+    SHARED_BASE_URL.replace(/^http/, 'ws') ||
+    'wss://metrics.studio.lyzr.ai'
+)
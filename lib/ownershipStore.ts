@@ -0,0 +1,144 @@
+/**
+ * Ownership Store (server-only)
+ *
+ * Which user owns an upstream id that every user reaches through the shared
+ * API key: agent session ids and knowledge base ids. The first user to claim
+ * an id owns it for good. Adapters mirror the other stores:
+ *   - file   (default) one JSON document per claimed id under OWNERSHIP_STORE_DIR,
+ *            created exclusively so concurrent claims (or instances sharing the
+ *            directory) cannot both win, and kept across restarts
+ *   - memory           process-local, for tests and ephemeral deployments
+ * CONVERSATION_STORE selects the adapter.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createHash } from 'crypto'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type OwnedKind = 'session' | 'knowledge_base'
+
+export interface OwnershipRecord {
+  kind: OwnedKind
+  id: string
+  ownerId: string
+  claimedAt: number
+}
+
+export interface OwnershipStore {
+  /** The owning user id, or null if nobody has claimed the id yet. */
+  owner(kind: OwnedKind, id: string): Promise<string | null>
+  /** Claim the id for `userId`; false if another user already owns it. */
+  claim(kind: OwnedKind, id: string, userId: string): Promise<boolean>
+}
+
+interface OwnershipBackend {
+  read(kind: OwnedKind, id: string): Promise<OwnershipRecord | null>
+  /** Writes only if the id is unclaimed; returns false otherwise. */
+  insert(record: OwnershipRecord): Promise<boolean>
+}
+
+// ---------------------------------------------------------------------------
+// Shared implementation
+// ---------------------------------------------------------------------------
+
+function createOwnershipStoreFrom(backend: OwnershipBackend): OwnershipStore {
+  // Ownership never changes once claimed, so known owners need no re-read
+  const known = new Map<string, string>()
+  const keyFor = (kind: OwnedKind, id: string) => `${kind}:${id}`
+
+  const owner = async (kind: OwnedKind, id: string): Promise<string | null> => {
+    const key = keyFor(kind, id)
+    const cached = known.get(key)
+    if (cached) return cached
+    const record = await backend.read(kind, id)
+    if (record) known.set(key, record.ownerId)
+    return record?.ownerId ?? null
+  }
+
+  return {
+    owner,
+
+    async claim(kind, id, userId) {
+      const existing = await owner(kind, id)
+      if (existing) return existing === userId
+      if (await backend.insert({ kind, id, ownerId: userId, claimedAt: Date.now() })) {
+        known.set(keyFor(kind, id), userId)
+        return true
+      }
+      // Someone claimed it between the read and the write
+      return (await owner(kind, id)) === userId
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Adapters
+// ---------------------------------------------------------------------------
+
+export function createMemoryOwnershipStore(): OwnershipStore {
+  const records = new Map<string, OwnershipRecord>()
+  const keyFor = (kind: OwnedKind, id: string) => `${kind}:${id}`
+  return createOwnershipStoreFrom({
+    async read(kind, id) {
+      const record = records.get(keyFor(kind, id))
+      return record ? { ...record } : null
+    },
+    async insert(record) {
+      const key = keyFor(record.kind, record.id)
+      if (records.has(key)) return false
+      records.set(key, { ...record })
+      return true
+    },
+  })
+}
+
+export function createFileOwnershipStore(dir: string): OwnershipStore {
+  // Hash ids so the file name never depends on raw client input
+  const fileFor = (kind: OwnedKind, id: string) =>
+    path.join(dir, kind, `${createHash('sha256').update(id).digest('hex')}.json`)
+
+  return createOwnershipStoreFrom({
+    async read(kind, id) {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(kind, id), 'utf8'))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+    },
+    async insert(record) {
+      await fs.mkdir(path.join(dir, record.kind), { recursive: true })
+      try {
+        // 'wx' fails if the file exists, so two users cannot claim one id
+        await fs.writeFile(fileFor(record.kind, record.id), JSON.stringify(record), { encoding: 'utf8', flag: 'wx' })
+        return true
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false
+        throw error
+      }
+    },
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Configured instance
+// ---------------------------------------------------------------------------
+
+let store: OwnershipStore | null = null
+
+/**
+ * The store selected by CONVERSATION_STORE ("file" | "memory").
+ */
+export function getOwnershipStore(): OwnershipStore {
+  if (!store) {
+    store =
+      process.env.CONVERSATION_STORE === 'memory'
+        ? createMemoryOwnershipStore()
+        : createFileOwnershipStore(process.env.OWNERSHIP_STORE_DIR || path.join(process.cwd(), '.data', 'owners'))
+  }
+  return store
+}
@@ -0,0 +1,164 @@
+/**
+ * Rate limits and daily quotas (middleware)
+ *
+ * Every API route that forwards to Lyzr draws from a per-caller token bucket:
+ * `capacity` requests in a burst, refilled continuously at `capacity` per
+ * minute. Agent messages additionally count against a daily quota that resets
+ * at midnight UTC; a workflow run counts once per agent node, and conversation
+ * summaries draw from a quota of their own. Callers are
+ * identified by their signed-in user id, except on sign-in and registration,
+ * which are limited per client IP to slow down password guessing.
+ *
+ * State lives in the middleware's memory, so limits are per server instance.
+ * No Node APIs are used; this module runs in the edge runtime.
+ */
+
+function envCount(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback
+}
+
+export type LimitedRoute = 'agent' | 'upload' | 'rag' | 'scheduler' | 'auth'
+
+/** Requests per minute (and burst size) for each route; 0 disables the limit */
+export const ROUTE_LIMITS: Record<LimitedRoute, number> = {
+  agent: envCount('RATE_LIMIT_AGENT_PER_MINUTE', 20),
+  upload: envCount('RATE_LIMIT_UPLOAD_PER_MINUTE', 10),
+  rag: envCount('RATE_LIMIT_RAG_PER_MINUTE', 30),
+  scheduler: envCount('RATE_LIMIT_SCHEDULER_PER_MINUTE', 30),
+  auth: envCount('RATE_LIMIT_AUTH_PER_MINUTE', 10),
+}
+
+/** Agent messages per caller per UTC day; 0 disables the quota */
+export const DAILY_MESSAGE_QUOTA = envCount('DAILY_MESSAGE_QUOTA', 500)
+/** Background title/summary calls per caller per UTC day; 0 disables the quota */
+export const DAILY_SUMMARY_QUOTA = envCount('DAILY_SUMMARY_QUOTA', 100)
+
+export type QuotaKind = 'messages' | 'summaries'
+
+const DAILY_QUOTAS: Record<QuotaKind, number> = {
+  messages: DAILY_MESSAGE_QUOTA,
+  summaries: DAILY_SUMMARY_QUOTA,
+}
+
+const MINUTE_MS = 60_000
+const DAY_MS = 24 * 60 * 60 * 1000
+/** Takes between sweeps of buckets idle long enough to be full again */
+const SWEEP_EVERY = 500
+
+export interface LimitDecision {
+  allowed: boolean
+  limit: number
+  remaining: number
+  /** Epoch ms at which the caller is back to a full bucket (or a fresh quota) */
+  resetAt: number
+  /** Epoch ms after which a rejected caller may try again */
+  retryAt: number
+}
+
+// ---------------------------------------------------------------------------
+// Token buckets
+// ---------------------------------------------------------------------------
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+}
+
+// `${route}:${caller}` → bucket (process-local)
+const buckets = new Map<string, Bucket>()
+let takesSinceSweep = 0
+
+function sweepBuckets(now: number): void {
+  buckets.forEach((bucket, key) => {
+    if (now - bucket.updatedAt > MINUTE_MS) buckets.delete(key)
+  })
+}
+
+/** Take one token from the caller's bucket for `route`. */
+export function takeToken(route: LimitedRoute, caller: string, now = Date.now()): LimitDecision | null {
+  const capacity = ROUTE_LIMITS[route]
+  if (!capacity) return null
+
+  if (++takesSinceSweep >= SWEEP_EVERY) {
+    takesSinceSweep = 0
+    sweepBuckets(now)
+  }
+
+  const key = `${route}:${caller}`
+  const perMs = capacity / MINUTE_MS
+  const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now }
+  bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * perMs)
+  bucket.updatedAt = now
+
+  const allowed = bucket.tokens >= 1
+  if (allowed) bucket.tokens -= 1
+  buckets.set(key, bucket)
+
+  return {
+    allowed,
+    limit: capacity,
+    remaining: Math.floor(bucket.tokens),
+    resetAt: now + Math.ceil((capacity - bucket.tokens) / perMs),
+    retryAt: allowed ? now : now + Math.ceil((1 - bucket.tokens) / perMs),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Daily quota
+// ---------------------------------------------------------------------------
+
+// `${kind}:${caller}` → calls made on `day` (process-local)
+const usage = new Map<string, { day: number; count: number }>()
+
+function utcDay(now: number): number {
+  return Math.floor(now / DAY_MS)
+}
+
+/** Count `messages` agent calls against the caller's daily `kind` quota; all or none are taken. */
+export function consumeQuota(
+  caller: string,
+  now = Date.now(),
+  messages = 1,
+  kind: QuotaKind = 'messages'
+): LimitDecision | null {
+  const limit = DAILY_QUOTAS[kind]
+  if (!limit) return null
+
+  const day = utcDay(now)
+  // A new day makes every stored count stale
+  const first = usage.values().next().value
+  if (first && first.day !== day) usage.clear()
+
+  const key = `${kind}:${caller}`
+  const entry = usage.get(key) ?? { day, count: 0 }
+  const allowed = entry.count + messages <= limit
+  if (allowed) entry.count += messages
+  usage.set(key, entry)
+
+  const resetAt = (day + 1) * DAY_MS
+  return {
+    allowed,
+    limit,
+    remaining: limit - entry.count,
+    resetAt,
+    retryAt: allowed ? now : resetAt,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Headers
+// ---------------------------------------------------------------------------
+
+/**
+ * `${prefix}-Limit`, `-Remaining` and `-Reset` (epoch seconds) headers, plus
+ * Retry-After when the request was rejected.
+ */
+export function limitHeaders(decision: LimitDecision, prefix = 'X-RateLimit', now = Date.now()): Record<string, string> {
+  return {
+    [`${prefix}-Limit`]: String(decision.limit),
+    [`${prefix}-Remaining`]: String(Math.max(0, decision.remaining)),
+    [`${prefix}-Reset`]: String(Math.ceil(decision.resetAt / 1000)),
+    ...(!decision.allowed && { 'Retry-After': String(Math.max(1, Math.ceil((decision.retryAt - now) / 1000))) }),
+  }
+}
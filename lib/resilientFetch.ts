@@ -0,0 +1,245 @@
+/**
+ * Resilient upstream fetch (server-only)
+ *
+ * `fetch` with retries and a circuit breaker, shared by the routes that call
+ * Lyzr services. Retryable statuses (429, 5xx gateway errors) and network
+ * failures are retried with jittered exponential backoff; a `Retry-After`
+ * header replaces the computed delay when present. Each upstream has its own
+ * breaker: after repeated failed calls it opens and further calls fail fast
+ * with CircuitOpenError until a cooldown has passed, then one probe call is
+ * let through to decide whether to close it again.
+ *
+ * A caller abort is never retried and never counts against the breaker.
+ */
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+const DEFAULT_RETRIES = envNumber('UPSTREAM_MAX_RETRIES', 2)
+const DEFAULT_BASE_DELAY_MS = 500
+const DEFAULT_MAX_DELAY_MS = 8_000
+/** A Retry-After longer than this is not waited out; the response is returned as-is */
+const MAX_RETRY_AFTER_MS = 30_000
+
+const BREAKER_FAILURE_THRESHOLD = envNumber('UPSTREAM_BREAKER_THRESHOLD', 5)
+const BREAKER_COOLDOWN_MS = envNumber('UPSTREAM_BREAKER_COOLDOWN_MS', 30_000)
+
+export const RETRYABLE_STATUSES: ReadonlySet<number> = new Set([408, 425, 429, 500, 502, 503, 504])
+/** Statuses that say the request was not acted on, so even a non-idempotent call can repeat it */
+const NOT_PROCESSED_STATUSES: ReadonlySet<number> = new Set([425, 429, 503])
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+export class CircuitOpenError extends Error {
+  constructor(
+    readonly upstream: string,
+    /** Time until the breaker lets a probe call through */
+    readonly retryAfterMs: number
+  ) {
+    super(
+      `${upstream} is temporarily unavailable after repeated failures; try again in ${Math.ceil(retryAfterMs / 1000)} seconds`
+    )
+    this.name = 'CircuitOpenError'
+  }
+}
+
+/** HTTP status a route should answer with for an error thrown while calling upstream. */
+export function upstreamErrorStatus(error: unknown): number {
+  return error instanceof CircuitOpenError ? 503 : 500
+}
+
+// ---------------------------------------------------------------------------
+// Circuit breaker
+// ---------------------------------------------------------------------------
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+interface Breaker {
+  state: CircuitState
+  failures: number
+  openedAt: number
+  /** A half-open probe is in flight; other calls keep failing fast */
+  probing: boolean
+}
+
+// upstream name → breaker (process-local)
+const breakers = new Map<string, Breaker>()
+
+function getBreaker(upstream: string): Breaker {
+  let breaker = breakers.get(upstream)
+  if (!breaker) {
+    breaker = { state: 'closed', failures: 0, openedAt: 0, probing: false }
+    breakers.set(upstream, breaker)
+  }
+  return breaker
+}
+
+/** Throws CircuitOpenError unless the call may proceed. */
+function admit(upstream: string, now: number): void {
+  const breaker = getBreaker(upstream)
+  if (breaker.state === 'closed') return
+
+  const remaining = breaker.openedAt + BREAKER_COOLDOWN_MS - now
+  if (breaker.state === 'open' && remaining <= 0) breaker.state = 'half-open'
+  if (breaker.state === 'half-open' && !breaker.probing) {
+    breaker.probing = true
+    return
+  }
+  throw new CircuitOpenError(upstream, Math.max(remaining, 1000))
+}
+
+function recordSuccess(upstream: string): void {
+  const breaker = getBreaker(upstream)
+  breaker.state = 'closed'
+  breaker.failures = 0
+  breaker.probing = false
+}
+
+function recordFailure(upstream: string, now: number): void {
+  const breaker = getBreaker(upstream)
+  breaker.failures += 1
+  breaker.probing = false
+  if (breaker.state === 'half-open' || breaker.failures >= BREAKER_FAILURE_THRESHOLD) {
+    breaker.state = 'open'
+    breaker.openedAt = now
+  }
+}
+
+/** A released probe that neither succeeded nor failed (the caller aborted). */
+function releaseProbe(upstream: string): void {
+  getBreaker(upstream).probing = false
+}
+
+export function getCircuitState(upstream: string): CircuitState {
+  return breakers.get(upstream)?.state ?? 'closed'
+}
+
+/** Forget every breaker's history. */
+export function resetCircuitBreakers(): void {
+  breakers.clear()
+}
+
+// ---------------------------------------------------------------------------
+// Backoff
+// ---------------------------------------------------------------------------
+
+/**
+ * Milliseconds from a Retry-After header (delta-seconds or an HTTP date), or
+ * null when absent or unparseable.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null
+  const trimmed = value.trim()
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000
+  const date = Date.parse(trimmed)
+  return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+/** Full-jitter exponential backoff for the given (0-based) retry. */
+export function backoffDelay(attempt: number, baseDelayMs = DEFAULT_BASE_DELAY_MS, maxDelayMs = DEFAULT_MAX_DELAY_MS) {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+  return Math.round(Math.random() * ceiling)
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? new DOMException('Aborted', 'AbortError'))
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason ?? new DOMException('Aborted', 'AbortError'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Fetch
+// ---------------------------------------------------------------------------
+
+export interface ResilientFetchOptions {
+  /** Breaker name; calls to the same upstream share one breaker */
+  upstream: string
+  /** Retries after the first attempt (default UPSTREAM_MAX_RETRIES, 2) */
+  retries?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  /**
+   * False for calls with side effects (create, trigger, train). Those are only
+   * retried on statuses saying the request was not processed, never after a
+   * network error that may have hidden a success.
+   */
+  idempotent?: boolean
+}
+
+/**
+ * `fetch` that retries retryable statuses and network errors, then returns
+ * the last response (or throws the last error) like `fetch` would. Throws
+ * CircuitOpenError without calling upstream while its breaker is open.
+ *
+ * The request body must be re-readable (string, FormData, URLSearchParams).
+ */
+export async function resilientFetch(
+  url: string,
+  init: RequestInit,
+  options: ResilientFetchOptions
+): Promise<Response> {
+  const { upstream } = options
+  const retries = options.retries ?? DEFAULT_RETRIES
+  const idempotent = options.idempotent !== false
+  admit(upstream, Date.now())
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response
+    try {
+      response = await fetch(url, init)
+    } catch (error) {
+      if (init.signal?.aborted) {
+        releaseProbe(upstream)
+        throw error
+      }
+      if (attempt >= retries || !idempotent) {
+        recordFailure(upstream, Date.now())
+        throw error
+      }
+      await waitBeforeRetry(upstream, backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs), init.signal)
+      continue
+    }
+
+    if (!RETRYABLE_STATUSES.has(response.status)) {
+      recordSuccess(upstream)
+      return response
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'))
+    const mayRepeat = idempotent || NOT_PROCESSED_STATUSES.has(response.status)
+    if (attempt >= retries || !mayRepeat || (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS)) {
+      recordFailure(upstream, Date.now())
+      return response
+    }
+
+    // Free the connection before waiting
+    await response.body?.cancel().catch(() => {})
+    await waitBeforeRetry(
+      upstream,
+      retryAfter ?? backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs),
+      init.signal
+    )
+  }
+}
+
+async function waitBeforeRetry(upstream: string, ms: number, signal?: AbortSignal | null): Promise<void> {
+  try {
+    await sleep(ms, signal ?? undefined)
+  } catch (error) {
+    releaseProbe(upstream)
+    throw error
+  }
+}
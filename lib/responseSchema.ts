@@ -0,0 +1,122 @@
+/**
+ * Agent Response Schemas
+ *
+ * Validates an agent's parsed output against the JSON Schema declared for it in
+ * response_schemas/ (looked up through the agent registry). The schema is
+ * compiled to zod once per agent; the supported subset covers what the schema
+ * files use: object/array/string/number/integer/boolean/null, `properties`,
+ * `required`, `items`, `enum`, `const`, `anyOf`/`oneOf` and `nullable`.
+ */
+
+import { z } from 'zod'
+import { getAgent } from '@/lib/agentRegistry'
+import type { SchemaValidation, SchemaValidationIssue } from '@/lib/agentResponse'
+
+// ---------------------------------------------------------------------------
+// JSON Schema → zod
+// ---------------------------------------------------------------------------
+
+export function jsonSchemaToZod(schema: Record<string, any> | undefined): z.ZodTypeAny {
+  if (!schema || typeof schema !== 'object') return z.any()
+
+  let result: z.ZodTypeAny
+
+  if ('const' in schema) {
+    result = z.literal(schema.const)
+  } else if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    const literals: z.ZodTypeAny[] = schema.enum.map((v: any) => z.literal(v))
+    result = literals.length === 1 ? literals[0] : z.union(literals as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]])
+  } else if (Array.isArray(schema.anyOf ?? schema.oneOf)) {
+    const options = (schema.anyOf ?? schema.oneOf).map(jsonSchemaToZod)
+    result = options.length === 1 ? options[0] : z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]])
+  } else if (Array.isArray(schema.type)) {
+    const options = schema.type.map((type: string) => jsonSchemaToZod({ ...schema, type }))
+    result = options.length === 1 ? options[0] : z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]])
+  } else {
+    switch (schema.type) {
+      case 'object': {
+        const required = new Set<string>(Array.isArray(schema.required) ? schema.required : [])
+        const shape: Record<string, z.ZodTypeAny> = {}
+        for (const [key, child] of Object.entries<Record<string, any>>(schema.properties ?? {})) {
+          const field = jsonSchemaToZod(child)
+          shape[key] = required.has(key) ? field : field.optional()
+        }
+        const object = z.object(shape)
+        result = schema.additionalProperties === false ? object.strict() : object.passthrough()
+        break
+      }
+      case 'array':
+        result = z.array(jsonSchemaToZod(schema.items))
+        break
+      case 'string':
+        result = z.string()
+        break
+      case 'integer':
+        result = z.number().int()
+        break
+      case 'number':
+        result = z.number()
+        break
+      case 'boolean':
+        result = z.boolean()
+        break
+      case 'null':
+        result = z.null()
+        break
+      default:
+        result = z.any()
+    }
+  }
+
+  return schema.nullable === true ? result.nullable() : result
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const compiled = new Map<string, z.ZodTypeAny>()
+
+function validatorFor(agentId: string): z.ZodTypeAny | undefined {
+  const schema = getAgent(agentId)?.responseSchema
+  if (!schema) return undefined
+  let validator = compiled.get(agentId)
+  if (!validator) {
+    validator = jsonSchemaToZod(schema)
+    compiled.set(agentId, validator)
+  }
+  return validator
+}
+
+function toIssues(error: z.ZodError): SchemaValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+    code: issue.code,
+    message: issue.message,
+  }))
+}
+
+/**
+ * Validate an agent's parsed output against its declared schema.
+ * Returns undefined when the agent has no JSON Schema to check against.
+ */
+export function validateAgentOutput(agentId: string, payload: unknown): SchemaValidation | undefined {
+  const validator = validatorFor(agentId)
+  if (!validator) return undefined
+
+  const parsed = validator.safeParse(payload)
+  return parsed.success
+    ? { valid: true, errors: [], data: parsed.data }
+    : { valid: false, errors: toIssues(parsed.error) }
+}
+
+/** Follow-up message asking the agent to resend its last answer in the declared shape. */
+export function buildRepairPrompt(agentId: string, validation: SchemaValidation): string {
+  const schema = getAgent(agentId)?.responseSchema
+  const problems = validation.errors.map((e) => `- ${e.path}: ${e.message}`).join('\n')
+  return [
+    'Your previous reply did not match the required JSON response format.',
+    `Problems:\n${problems}`,
+    `Reply again to the previous message with only a JSON object matching this JSON Schema:\n${JSON.stringify(schema, null, 2)}`,
+  ].join('\n\n')
+}
@@ -7,7 +7,8 @@
  * All API calls are proxied through the server so the API key never reaches the browser.
  */
 
-import { useState } from 'react'
+import { useCallback, useState } from 'react'
+import { extractText } from '@/lib/agentResponse'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -243,6 +244,35 @@ export async function createSchedule(params: {
   }
 }
 
+/**
+ * Change a schedule. The scheduler API has no update call, so this creates a
+ * schedule with the new settings and then deletes the old one; the
+ * replacement starts with an empty execution history. If the old schedule
+ * cannot be deleted, the new one is deleted again so the change is undone.
+ * Only when that fails too is the new schedule returned, with an error saying
+ * both now exist.
+ */
+export async function replaceSchedule(
+  scheduleId: string,
+  params: Parameters<typeof createSchedule>[0]
+): Promise<{ success: boolean; schedule?: Schedule; error?: string }> {
+  const created = await createSchedule(params)
+  if (!created.success || !created.schedule) return created
+  const removed = await deleteSchedule(scheduleId)
+  if (removed.success) return created
+
+  const reason = removed.error || 'the old schedule could not be removed'
+  const rolledBack = await deleteSchedule(created.schedule.id)
+  if (rolledBack.success) {
+    return { success: false, error: `Changes not saved: ${reason}` }
+  }
+  return {
+    success: false,
+    schedule: created.schedule,
+    error: `Saved as a new schedule, but the old one could not be removed (${reason}), so both now exist. Delete the one you no longer need.`,
+  }
+}
+
 /**
  * Pause a schedule (it will not run until resumed).
  * 
@@ -373,6 +403,22 @@ export async function deleteSchedule(scheduleId: string): Promise<ApiResult> {
   }
 }
 
+/**
+ * The readable answer in a run's `response_output`. Agents usually reply with a
+ * JSON envelope (e.g. `{"response": "..."}`); anything else is returned as is.
+ */
+export function executionOutputText(execution: ExecutionLog): string {
+  const output = execution.response_output?.trim() ?? ''
+  if (!output.startsWith('{')) return output
+  try {
+    const parsed = JSON.parse(output)
+    const text = parsed && typeof parsed === 'object' ? extractText({ status: 'success', result: parsed }) : ''
+    return text || output
+  } catch {
+    return output
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Cron helpers
 // ---------------------------------------------------------------------------
@@ -385,6 +431,8 @@ export function cronToHuman(cron: string): string {
 
   const [minute, hour, dayOfMonth, month, dayOfWeek] = parts
 
+  const time = `${hour}:${minute.padStart(2, '0')}`
+
   if (dayOfMonth === '*' && month === '*') {
     if (dayOfWeek === '*') {
       if (hour === '*') {
@@ -392,22 +440,110 @@ export function cronToHuman(cron: string): string {
         return `Every hour at :${minute.padStart(2, '0')}`
       }
       if (hour.startsWith('*/')) return `Every ${hour.slice(2)} hours`
-      return `Every day at ${hour}:${minute.padStart(2, '0')}`
+      return `Every day at ${time}`
     }
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
-    if (dayOfWeek === '1-5') return `Weekdays at ${hour}:${minute.padStart(2, '0')}`
-    if (dayOfWeek === '0,6') return `Weekends at ${hour}:${minute.padStart(2, '0')}`
-    const dayName = days[parseInt(dayOfWeek)] || dayOfWeek
-    return `Every ${dayName} at ${hour}:${minute.padStart(2, '0')}`
+    if (dayOfWeek === '1-5') return `Weekdays at ${time}`
+    if (dayOfWeek === '0,6') return `Weekends at ${time}`
+    const dayNames = dayOfWeek.split(',').map((day) => DAY_NAMES[parseInt(day) % 7] || day)
+    const dayList = dayNames.length > 1 ? `${dayNames.slice(0, -1).join(', ')} and ${dayNames[dayNames.length - 1]}` : dayNames[0]
+    return `Every ${dayList} at ${time}`
   }
 
   if (dayOfMonth !== '*' && month === '*') {
-    return `Day ${dayOfMonth} of every month at ${hour}:${minute.padStart(2, '0')}`
+    return `Day ${dayOfMonth} of every month at ${time}`
   }
 
   return cron
 }
 
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const CRON_FIELD = /^(\*|\d+(-\d+)?)(\/\d+)?(,(\*|\d+(-\d+)?)(\/\d+)?)*$/
+
+/** True for a 5-field cron expression made of numbers, ranges, lists, steps and `*`. */
+export function isValidCron(cron: string): boolean {
+  const parts = cron.trim().split(/\s+/)
+  return parts.length === 5 && parts.every((part) => CRON_FIELD.test(part))
+}
+
+/** The schedules the visual cron builder can express; anything else is `custom`. */
+export type CronFrequency = 'minutes' | 'hourly' | 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'custom'
+
+export interface CronSpec {
+  frequency: CronFrequency
+  /** Minutes between runs, for `minutes` */
+  interval: number
+  minute: number
+  hour: number
+  /** 0 = Sunday, for `weekly` */
+  daysOfWeek: number[]
+  dayOfMonth: number
+  /** The raw expression, for `custom` */
+  expression: string
+}
+
+export const DEFAULT_CRON_SPEC: CronSpec = {
+  frequency: 'daily',
+  interval: 15,
+  minute: 0,
+  hour: 9,
+  daysOfWeek: [1],
+  dayOfMonth: 1,
+  expression: '0 9 * * *',
+}
+
+/** The cron expression for a builder state. */
+export function buildCron(spec: CronSpec): string {
+  const { minute, hour } = spec
+  switch (spec.frequency) {
+    case 'minutes':
+      return `*/${spec.interval} * * * *`
+    case 'hourly':
+      return `${minute} * * * *`
+    case 'daily':
+      return `${minute} ${hour} * * *`
+    case 'weekdays':
+      return `${minute} ${hour} * * 1-5`
+    case 'weekly': {
+      const days = spec.daysOfWeek.length > 0 ? [...spec.daysOfWeek].sort((a, b) => a - b).join(',') : '1'
+      return `${minute} ${hour} * * ${days}`
+    }
+    case 'monthly':
+      return `${minute} ${hour} ${spec.dayOfMonth} * *`
+    default:
+      return spec.expression.trim()
+  }
+}
+
+/** Builder state for an expression; ones the builder cannot express come back as `custom`. */
+export function parseCron(cron: string): CronSpec {
+  const spec: CronSpec = { ...DEFAULT_CRON_SPEC, frequency: 'custom', expression: cron }
+  const parts = cron.trim().split(/\s+/)
+  if (parts.length !== 5) return spec
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts
+  const isNumber = (value: string) => /^\d+$/.test(value)
+  if (month !== '*') return spec
+
+  if (minute.startsWith('*/') && isNumber(minute.slice(2)) && hour === '*' && dayOfMonth === '*' && dayOfWeek === '*') {
+    return { ...spec, frequency: 'minutes', interval: Number(minute.slice(2)) }
+  }
+  if (!isNumber(minute)) return spec
+  const timed = { ...spec, minute: Number(minute) }
+
+  if (hour === '*' && dayOfMonth === '*' && dayOfWeek === '*') return { ...timed, frequency: 'hourly' }
+  if (!isNumber(hour)) return spec
+  const daily = { ...timed, hour: Number(hour) }
+
+  if (dayOfMonth === '*' && dayOfWeek === '*') return { ...daily, frequency: 'daily' }
+  if (dayOfMonth === '*' && dayOfWeek === '1-5') return { ...daily, frequency: 'weekdays' }
+  if (dayOfMonth === '*' && /^[0-6](,[0-6])*$/.test(dayOfWeek)) {
+    return { ...daily, frequency: 'weekly', daysOfWeek: dayOfWeek.split(',').map(Number) }
+  }
+  if (isNumber(dayOfMonth) && dayOfWeek === '*') return { ...daily, frequency: 'monthly', dayOfMonth: Number(dayOfMonth) }
+  return spec
+}
+
 // ---------------------------------------------------------------------------
 // React hook
 // ---------------------------------------------------------------------------
@@ -419,7 +555,7 @@ export function useScheduler() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const fetchSchedules = async (params?: { agentId?: string; is_active?: boolean }) => {
+  const fetchSchedules = useCallback(async (params?: { agentId?: string; is_active?: boolean }) => {
     setLoading(true)
     setError(null)
     const result = await listSchedules(params)
@@ -431,9 +567,9 @@ export function useScheduler() {
     }
     setLoading(false)
     return result
-  }
+  }, [])
 
-  const toggleSchedule = async (schedule: Schedule) => {
+  const toggleSchedule = useCallback(async (schedule: Schedule) => {
     setLoading(true)
     setError(null)
     const result = schedule.is_active
@@ -449,9 +585,9 @@ export function useScheduler() {
     }
     setLoading(false)
     return result
-  }
+  }, [])
 
-  const trigger = async (scheduleId: string) => {
+  const trigger = useCallback(async (scheduleId: string) => {
     setLoading(true)
     setError(null)
     const result = await triggerScheduleNow(scheduleId)
@@ -460,9 +596,9 @@ export function useScheduler() {
     }
     setLoading(false)
     return result
-  }
+  }, [])
 
-  const remove = async (scheduleId: string) => {
+  const remove = useCallback(async (scheduleId: string) => {
     setLoading(true)
     setError(null)
     const result = await deleteSchedule(scheduleId)
@@ -474,7 +610,7 @@ export function useScheduler() {
     }
     setLoading(false)
     return result
-  }
+  }, [])
 
   return {
     schedules,
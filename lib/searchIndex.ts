@@ -0,0 +1,295 @@
+/**
+ * Conversation Search Index
+ *
+ * In-memory inverted index over every ChatMessage.content. `update` is
+ * incremental: only messages whose content changed since the last call are
+ * re-tokenized, so it can run on every conversations change.
+ *
+ * Ranking is BM25 over messages. Every query term must match; the last term
+ * also matches as a prefix so results appear while typing. Messages containing
+ * the whole query as a phrase are boosted, and ties go to the newer message.
+ */
+
+import type { Conversation, ChatMessage } from '@/lib/conversations'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SnippetPart {
+  text: string
+  highlight: boolean
+}
+
+export interface SearchResult {
+  conversationId: string
+  conversationTitle: string
+  messageId: string
+  role: ChatMessage['role']
+  timestamp: number
+  score: number
+  snippet: SnippetPart[]
+}
+
+export interface SearchIndex {
+  /** Bring the index in line with the given conversations. */
+  update(conversations: Conversation[]): void
+  search(query: string, limit?: number): SearchResult[]
+}
+
+interface IndexedMessage {
+  conversationId: string
+  messageId: string
+  role: ChatMessage['role']
+  timestamp: number
+  content: string
+  /** term → occurrences in this message */
+  terms: Map<string, number>
+  length: number
+}
+
+// ---------------------------------------------------------------------------
+// Text helpers
+// ---------------------------------------------------------------------------
+
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+const PREFIX_WEIGHT = 0.7
+const PHRASE_BOOST = 1.5
+const SNIPPET_RADIUS = 60
+
+/** Lowercase and strip diacritics so "Café" matches "cafe". */
+function fold(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+}
+
+// Built from a string: the tsconfig target predates regex literal `u` flags
+const WORD = new RegExp('[\\p{L}\\p{N}]+', 'gu')
+
+export function tokenize(text: string): string[] {
+  return fold(text).match(WORD) ?? []
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Cut a window around the first hit and mark every occurrence of the query
+ * terms. Matching runs on folded text, which keeps the same length as the
+ * original for everything except decomposed characters, so offsets are mapped
+ * back through a per-character table.
+ */
+export function buildSnippet(content: string, queryTerms: string[]): SnippetPart[] {
+  // Fold character by character so offsets map back to `content`
+  let folded = ''
+  const origin: number[] = []
+  for (let i = 0; i < content.length; i++) {
+    const piece = fold(content[i])
+    for (let j = 0; j < piece.length; j++) origin.push(i)
+    folded += piece
+  }
+
+  const pattern = queryTerms.filter(Boolean).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')
+  const ranges: [number, number][] = []
+  if (pattern) {
+    const re = new RegExp(pattern, 'g')
+    let match: RegExpExecArray | null
+    while ((match = re.exec(folded)) !== null) {
+      const start = origin[match.index]
+      let end = origin[match.index + match[0].length - 1] + 1
+      // Combining marks fold away; keep the ones after the last letter inside the hit
+      while (end < content.length && fold(content[end]) === '') end++
+      ranges.push([start, end])
+      if (match[0].length === 0) re.lastIndex++
+    }
+  }
+
+  const first = ranges[0]?.[0] ?? 0
+  let from = Math.max(0, first - SNIPPET_RADIUS)
+  let to = Math.min(content.length, first + SNIPPET_RADIUS * 2)
+  // Snap to word boundaries without cutting into the first hit
+  const startSpace = content.indexOf(' ', from)
+  if (from > 0 && startSpace !== -1 && startSpace < first) from = startSpace + 1
+  const endSpace = content.lastIndexOf(' ', to)
+  if (to < content.length && endSpace > (ranges[0]?.[1] ?? from)) to = endSpace
+
+  const parts: SnippetPart[] = []
+  if (from > 0) parts.push({ text: '…', highlight: false })
+  let cursor = from
+  for (const [start, end] of ranges) {
+    if (end <= from || start >= to) continue
+    const s = Math.max(start, cursor)
+    const e = Math.min(end, to)
+    if (s > cursor) parts.push({ text: content.slice(cursor, s), highlight: false })
+    if (e > s) parts.push({ text: content.slice(s, e), highlight: true })
+    cursor = Math.max(cursor, e)
+  }
+  if (cursor < to) parts.push({ text: content.slice(cursor, to), highlight: false })
+  if (to < content.length) parts.push({ text: '…', highlight: false })
+
+  // Collapse whitespace for a one-line preview
+  return parts.map((p) => ({ ...p, text: p.text.replace(/\s+/g, ' ') }))
+}
+
+// ---------------------------------------------------------------------------
+// Index
+// ---------------------------------------------------------------------------
+
+export function createSearchIndex(): SearchIndex {
+  const docs = new Map<string, IndexedMessage>()
+  /** term → doc keys containing it */
+  const postings = new Map<string, Set<string>>()
+  const titles = new Map<string, string>()
+  /** conversation id → doc keys, to drop removed messages/conversations */
+  const byConversation = new Map<string, Set<string>>()
+  /** Last indexed messages array per conversation; updates are immutable, so identity means unchanged */
+  const versions = new Map<string, ChatMessage[]>()
+  let totalLength = 0
+
+  const docKey = (conversationId: string, messageId: string) => `${conversationId}\u0000${messageId}`
+
+  function removeDoc(key: string) {
+    const doc = docs.get(key)
+    if (!doc) return
+    doc.terms.forEach((_count, term) => {
+      const set = postings.get(term)
+      set?.delete(key)
+      if (set && set.size === 0) postings.delete(term)
+    })
+    totalLength -= doc.length
+    docs.delete(key)
+  }
+
+  function addDoc(key: string, conversationId: string, message: ChatMessage) {
+    const tokens = tokenize(message.content)
+    const terms = new Map<string, number>()
+    for (const token of tokens) terms.set(token, (terms.get(token) ?? 0) + 1)
+    terms.forEach((_count, term) => {
+      let set = postings.get(term)
+      if (!set) postings.set(term, (set = new Set()))
+      set.add(key)
+    })
+    docs.set(key, {
+      conversationId,
+      messageId: message.id,
+      role: message.role,
+      timestamp: message.timestamp,
+      content: message.content,
+      terms,
+      length: tokens.length,
+    })
+    totalLength += tokens.length
+  }
+
+  function update(conversations: Conversation[]) {
+    const seen = new Set<string>()
+
+    for (const convo of conversations) {
+      seen.add(convo.id)
+      titles.set(convo.id, convo.title)
+      if (versions.get(convo.id) === convo.messages) continue
+      versions.set(convo.id, convo.messages)
+
+      const previous = byConversation.get(convo.id) ?? new Set<string>()
+      const current = new Set<string>()
+      for (const message of convo.messages) {
+        const key = docKey(convo.id, message.id)
+        current.add(key)
+        const existing = docs.get(key)
+        if (existing && existing.content === message.content) continue
+        removeDoc(key)
+        if (message.content) addDoc(key, convo.id, message)
+      }
+      previous.forEach((key) => {
+        if (!current.has(key)) removeDoc(key)
+      })
+      byConversation.set(convo.id, current)
+    }
+
+    // Conversations that were deleted
+    byConversation.forEach((keys, convoId) => {
+      if (seen.has(convoId)) return
+      keys.forEach(removeDoc)
+      byConversation.delete(convoId)
+      versions.delete(convoId)
+      titles.delete(convoId)
+    })
+  }
+
+  /** Doc keys matching one query term, with the weight of each matched index term. */
+  function matchTerm(term: string, allowPrefix: boolean): Map<string, { term: string; weight: number }[]> {
+    const matches = new Map<string, { term: string; weight: number }[]>()
+    const add = (indexTerm: string, weight: number) => {
+      postings.get(indexTerm)?.forEach((key) => {
+        const list = matches.get(key) ?? []
+        list.push({ term: indexTerm, weight })
+        matches.set(key, list)
+      })
+    }
+    add(term, 1)
+    if (allowPrefix) {
+      postings.forEach((_keys, indexTerm) => {
+        if (indexTerm !== term && indexTerm.startsWith(term)) add(indexTerm, PREFIX_WEIGHT)
+      })
+    }
+    return matches
+  }
+
+  function search(query: string, limit = 50): SearchResult[] {
+    const queryTerms = tokenize(query)
+    if (queryTerms.length === 0 || docs.size === 0) return []
+
+    const docCount = docs.size
+    const avgLength = totalLength / docCount || 1
+    const idf = (term: string) => {
+      const n = postings.get(term)?.size ?? 0
+      return Math.log(1 + (docCount - n + 0.5) / (n + 0.5))
+    }
+
+    // Intersect per-term matches; only the last term may be a prefix
+    let candidates: Map<string, number> | null = null
+    queryTerms.forEach((term, i) => {
+      const matches = matchTerm(term, i === queryTerms.length - 1)
+      const next = new Map<string, number>()
+      matches.forEach((hits, key) => {
+        if (candidates && !candidates.has(key)) return
+        const doc = docs.get(key)!
+        let termScore = 0
+        for (const { term: indexTerm, weight } of hits) {
+          const tf = doc.terms.get(indexTerm) ?? 0
+          const norm = tf + BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / avgLength)
+          termScore = Math.max(termScore, weight * idf(indexTerm) * ((tf * (BM25_K1 + 1)) / norm))
+        }
+        next.set(key, (candidates?.get(key) ?? 0) + termScore)
+      })
+      candidates = next
+    })
+
+    const phrase = queryTerms.length > 1 ? queryTerms.join(' ') : null
+    const results: SearchResult[] = []
+    ;(candidates as Map<string, number> | null)?.forEach((score, key) => {
+      const doc = docs.get(key)!
+      const boosted = phrase && tokenize(doc.content).join(' ').includes(phrase) ? score * PHRASE_BOOST : score
+      results.push({
+        conversationId: doc.conversationId,
+        conversationTitle: titles.get(doc.conversationId) ?? '',
+        messageId: doc.messageId,
+        role: doc.role,
+        timestamp: doc.timestamp,
+        score: boosted,
+        snippet: [],
+      })
+    })
+
+    results.sort((a, b) => b.score - a.score || b.timestamp - a.timestamp)
+    const top = results.slice(0, limit)
+    // Snippets only for what is shown
+    for (const result of top) {
+      result.snippet = buildSnippet(docs.get(docKey(result.conversationId, result.messageId))!.content, queryTerms)
+    }
+    return top
+  }
+
+  return { update, search }
+}
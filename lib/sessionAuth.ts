@@ -0,0 +1,77 @@
+/**
+ * Session ownership and event-stream tickets (server-only)
+ *
+ * A Lyzr session id is bound to the first user_id that uses it. Subscribing to
+ * a session's agent events requires a short-lived signed ticket, which is only
+ * issued to that owner. The signing secret never leaves the server; without
+ * AGENT_EVENTS_SECRET or LYZR_API_KEY no ticket is issued or accepted.
+ *
+ * Knowledge base ids are bound the same way, since every knowledge base is
+ * reached through the one shared API key. Owners are kept in the
+ * OwnershipStore, so a restart does not free an id for someone else to claim.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { getOwnershipStore } from '@/lib/ownershipStore'
+
+const TICKET_TTL_MS = 5 * 60 * 1000
+
+function getSecret(): string {
+  if (process.env.AGENT_EVENTS_SECRET) return process.env.AGENT_EVENTS_SECRET
+  // A well-known fallback would let anyone forge tickets, so refuse to sign instead
+  if (!process.env.LYZR_API_KEY) throw new Error('AGENT_EVENTS_SECRET is not configured on server')
+  // Derive a stable secret from the API key so no extra configuration is required
+  return createHmac('sha256', process.env.LYZR_API_KEY).update('agent-events-ticket').digest('hex')
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getSecret()).update(value).digest('base64url')
+}
+
+/**
+ * Bind a session to a user. Resolves false if another user already owns it.
+ */
+export function claimSession(sessionId: string, userId: string): Promise<boolean> {
+  return getOwnershipStore().claim('session', sessionId, userId)
+}
+
+/**
+ * Bind a knowledge base to a user. Resolves false if another user already owns it.
+ */
+export function claimKnowledgeBase(ragId: string, userId: string): Promise<boolean> {
+  return getOwnershipStore().claim('knowledge_base', ragId, userId)
+}
+
+/**
+ * Issue a ticket that authorizes `userId` to stream events for `sessionId`.
+ * Throws when no signing secret is configured.
+ */
+export function issueEventsTicket(sessionId: string, userId: string): string {
+  const expiresAt = Date.now() + TICKET_TTL_MS
+  const body = Buffer.from(JSON.stringify({ s: sessionId, u: userId, e: expiresAt })).toString('base64url')
+  return `${body}.${sign(body)}`
+}
+
+/**
+ * Verify a ticket for `sessionId`. Returns the ticket's user_id, or null if the
+ * ticket is malformed, expired, forged or was issued for a different session.
+ * Throws when no signing secret is configured.
+ */
+export async function verifyEventsTicket(ticket: string, sessionId: string): Promise<string | null> {
+  const [body, signature] = ticket.split('.')
+  if (!body || !signature) return null
+
+  const expected = Buffer.from(sign(body))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  let claims: { s?: unknown; u?: unknown; e?: unknown }
+  try {
+    claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'))
+  } catch {
+    return null
+  }
+  const { s, u, e } = claims
+  if (s !== sessionId || typeof u !== 'string' || typeof e !== 'number' || e < Date.now()) return null
+  return (await getOwnershipStore().owner('session', sessionId)) === u ? u : null
+}
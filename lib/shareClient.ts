@@ -0,0 +1,66 @@
+'use client'
+
+/**
+ * Share Client Utility
+ *
+ * Client-side wrapper for the /api/share routes: create, list and revoke
+ * read-only links to a conversation snapshot.
+ */
+
+import { Conversation } from '@/lib/conversations'
+import type { ShareSummary } from '@/lib/shareStore'
+
+export type { ShareSummary }
+
+/** Absolute URL of the public page for a share. */
+export function shareUrl(id: string): string {
+  return `${window.location.origin}/share/${encodeURIComponent(id)}`
+}
+
+/** Snapshot a conversation. `expiresInDays` null means the link never expires. */
+export async function createShare(
+  conversation: Conversation,
+  expiresInDays: number | null
+): Promise<{ success: boolean; share?: ShareSummary; error?: string }> {
+  try {
+    const res = await fetch('/api/share', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ conversation, expires_in_days: expiresInDays }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, share: data.share }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Links the user has created for a conversation, newest first. */
+export async function listShares(
+  conversationId: string
+): Promise<{ success: boolean; shares: ShareSummary[]; error?: string }> {
+  try {
+    const params = new URLSearchParams({ conversation_id: conversationId })
+    const res = await fetch(`/api/share?${params}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, shares: [], error: data.error }
+    return { success: true, shares: data.shares || [] }
+  } catch (error) {
+    return { success: false, shares: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Revoke a link; its page stops working immediately. */
+export async function revokeShare(shareId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const res = await fetch(`/api/share/${encodeURIComponent(shareId)}`, {
+      method: 'DELETE',
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
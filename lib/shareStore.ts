@@ -0,0 +1,215 @@
+/**
+ * Share Store (server-only)
+ *
+ * Read-only snapshots of conversations behind the /api/share routes and the
+ * /share/[id] page. A share is a copy taken at creation time: later edits to
+ * the conversation do not reach it. Ids are 128-bit random tokens, so a link
+ * cannot be guessed. Adapters mirror the ConversationStore:
+ *   - file   (default) one JSON document per share under SHARE_STORE_DIR
+ *   - memory           process-local, for tests and ephemeral deployments
+ * CONVERSATION_STORE selects the adapter for both stores.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomBytes } from 'crypto'
+import { Conversation, getActivePath, isMessageTree } from '@/lib/conversations'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SharedConversation {
+  id: string
+  ownerId: string
+  conversationId: string
+  /** Snapshot of the displayed branch */
+  conversation: Conversation
+  createdAt: number
+  /** Epoch ms after which the link stops working; null never expires */
+  expiresAt: number | null
+}
+
+/** What the owner sees when listing links; the snapshot itself is omitted. */
+export type ShareSummary = Omit<SharedConversation, 'ownerId' | 'conversation'>
+
+export interface ShareStore {
+  create(ownerId: string, conversation: Conversation, expiresAt: number | null): Promise<SharedConversation>
+  get(id: string): Promise<SharedConversation | null>
+  /** Links the owner created for one conversation, newest first. */
+  list(ownerId: string, conversationId: string): Promise<ShareSummary[]>
+  /** Delete a share; false if it does not exist or belongs to someone else. */
+  revoke(ownerId: string, id: string): Promise<boolean>
+}
+
+interface ShareBackend {
+  read(id: string): Promise<SharedConversation | null>
+  write(share: SharedConversation): Promise<void>
+  remove(id: string): Promise<void>
+  all(): Promise<SharedConversation[]>
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{22}$/
+
+export function isShareId(id: string): boolean {
+  return SHARE_ID_PATTERN.test(id)
+}
+
+export function isShareExpired(share: Pick<SharedConversation, 'expiresAt'>, now = Date.now()): boolean {
+  return share.expiresAt !== null && share.expiresAt <= now
+}
+
+export function toShareSummary({ id, conversationId, createdAt, expiresAt }: SharedConversation): ShareSummary {
+  return { id, conversationId, createdAt, expiresAt }
+}
+
+/**
+ * Reduce a conversation to what a viewer should see: the displayed branch
+ * only, no session id and no in-flight streaming flags. Throws when the
+ * parent links do not form a tree, since the branch could not be followed.
+ */
+function snapshot(conversation: Conversation): Conversation {
+  if (!isMessageTree(conversation.messages)) {
+    throw new Error('Conversation messages must form a tree')
+  }
+  const messages = getActivePath(conversation).map(({ streaming: _streaming, ...msg }) => msg)
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    sessionId: '',
+    messages,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    activeLeafId: messages[messages.length - 1]?.id,
+    agentId: conversation.agentId,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Shared implementation
+// ---------------------------------------------------------------------------
+
+function createShareStoreFrom(backend: ShareBackend): ShareStore {
+  return {
+    async create(ownerId, conversation, expiresAt) {
+      const share: SharedConversation = {
+        id: randomBytes(16).toString('base64url'),
+        ownerId,
+        conversationId: conversation.id,
+        conversation: snapshot(conversation),
+        createdAt: Date.now(),
+        expiresAt,
+      }
+      await backend.write(share)
+      return share
+    },
+
+    async get(id) {
+      if (!isShareId(id)) return null
+      return backend.read(id)
+    },
+
+    async list(ownerId, conversationId) {
+      const shares = await backend.all()
+      return shares
+        .filter((s) => s.ownerId === ownerId && s.conversationId === conversationId)
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map(toShareSummary)
+    },
+
+    async revoke(ownerId, id) {
+      if (!isShareId(id)) return false
+      const share = await backend.read(id)
+      if (!share || share.ownerId !== ownerId) return false
+      await backend.remove(id)
+      return true
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Adapters
+// ---------------------------------------------------------------------------
+
+export function createMemoryShareStore(): ShareStore {
+  const shares = new Map<string, SharedConversation>()
+  return createShareStoreFrom({
+    async read(id) {
+      const share = shares.get(id)
+      return share ? structuredClone(share) : null
+    },
+    async write(share) {
+      shares.set(share.id, structuredClone(share))
+    },
+    async remove(id) {
+      shares.delete(id)
+    },
+    async all() {
+      return Array.from(shares.values(), (share) => structuredClone(share))
+    },
+  })
+}
+
+export function createFileShareStore(dir: string): ShareStore {
+  // Ids are validated against SHARE_ID_PATTERN before they reach the file system
+  const fileFor = (id: string) => path.join(dir, `${id}.json`)
+
+  async function readFile(file: string): Promise<SharedConversation | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  return createShareStoreFrom({
+    read: (id) => readFile(fileFor(id)),
+    async write(share) {
+      await fs.mkdir(dir, { recursive: true })
+      const file = fileFor(share.id)
+      const tmp = `${file}.${process.pid}.tmp`
+      await fs.writeFile(tmp, JSON.stringify(share), 'utf8')
+      await fs.rename(tmp, file)
+    },
+    async remove(id) {
+      await fs.rm(fileFor(id), { force: true })
+    },
+    async all() {
+      let names: string[]
+      try {
+        names = await fs.readdir(dir)
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+        throw error
+      }
+      const shares = await Promise.all(
+        names.filter((name) => name.endsWith('.json')).map((name) => readFile(path.join(dir, name)))
+      )
+      return shares.filter((share): share is SharedConversation => share !== null)
+    },
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Configured instance
+// ---------------------------------------------------------------------------
+
+let store: ShareStore | null = null
+
+/**
+ * The store selected by CONVERSATION_STORE ("file" | "memory").
+ */
+export function getShareStore(): ShareStore {
+  if (!store) {
+    store =
+      process.env.CONVERSATION_STORE === 'memory'
+        ? createMemoryShareStore()
+        : createFileShareStore(process.env.SHARE_STORE_DIR || path.join(process.cwd(), '.data', 'shares'))
+  }
+  return store
+}
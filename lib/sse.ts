@@ -0,0 +1,86 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Shared by the API routes (which re-emit upstream streams) and the client
+ * wrappers (which consume them). Implements the subset of the SSE wire format
+ * we rely on: `event:` and `data:` fields separated by blank lines.
+ */
+
+export interface SSEEvent {
+  event: string
+  data: string
+}
+
+/**
+ * Serialize a single SSE event. Objects are JSON-encoded.
+ */
+export function encodeSSE(event: string, data: unknown): string {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data)
+  const dataLines = payload
+    .split('\n')
+    .map((line) => `data: ${line}`)
+    .join('\n')
+  return `event: ${event}\n${dataLines}\n\n`
+}
+
+/**
+ * Parse a byte stream into SSE events as they arrive.
+ * Events without an explicit `event:` field are reported as "message".
+ */
+export async function* parseSSEStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let eventName = ''
+  let dataLines: string[] = []
+
+  const flush = (): SSEEvent | null => {
+    if (dataLines.length === 0) {
+      eventName = ''
+      return null
+    }
+    const evt = { event: eventName || 'message', data: dataLines.join('\n') }
+    eventName = ''
+    dataLines = []
+    return evt
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      let newlineIdx: number
+      while ((newlineIdx = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIdx).replace(/\r$/, '')
+        buffer = buffer.slice(newlineIdx + 1)
+
+        if (line === '') {
+          const evt = flush()
+          if (evt) yield evt
+          continue
+        }
+        if (line.startsWith(':')) continue
+
+        const colonIdx = line.indexOf(':')
+        const field = colonIdx === -1 ? line : line.slice(0, colonIdx)
+        let value = colonIdx === -1 ? '' : line.slice(colonIdx + 1)
+        if (value.startsWith(' ')) value = value.slice(1)
+
+        if (field === 'event') eventName = value
+        else if (field === 'data') dataLines.push(value)
+      }
+    }
+
+    // Stream ended without a trailing blank line
+    buffer += decoder.decode()
+    if (buffer.startsWith('data:')) {
+      dataLines.push(buffer.slice(5).replace(/^ /, '').replace(/\r?\n?$/, ''))
+    }
+    const evt = flush()
+    if (evt) yield evt
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,47 @@
+'use client'
+
+/**
+ * Typed Agent Calls
+ *
+ * Runtime half of the generated clients in lib/agentClients.generated.ts. A
+ * generated wrapper pairs an agent id with a type guard for its declared
+ * result, and this module turns the untyped AIAgentResponse into one whose
+ * `data` is either a value of that type or null.
+ *
+ * Regenerate the wrappers after editing response_schemas/*_response.json:
+ *   npm run generate:agents
+ */
+
+import { callAIAgent, streamAIAgent, type AIAgentResponse, type CallAgentOptions, type StreamAgentOptions } from '@/lib/aiAgent'
+
+export type TypedAgentResponse<T> = AIAgentResponse & {
+  /** The agent's result in its declared shape, or null if it did not conform */
+  data: T | null
+}
+
+export type ResultGuard<T> = (value: unknown) => value is T
+
+/** Pick the conforming payload: the server-validated one first, then the normalized result. */
+export function toTypedResponse<T>(result: AIAgentResponse, guard: ResultGuard<T>): TypedAgentResponse<T> {
+  const candidates = [result.validation?.valid ? result.validation.data : undefined, result.response?.result]
+  const data = result.success ? candidates.find((candidate): candidate is T => guard(candidate)) ?? null : null
+  return { ...result, data }
+}
+
+export async function callTypedAgent<T>(
+  message: string,
+  agent_id: string,
+  guard: ResultGuard<T>,
+  options?: CallAgentOptions
+): Promise<TypedAgentResponse<T>> {
+  return toTypedResponse(await callAIAgent(message, agent_id, options), guard)
+}
+
+export async function streamTypedAgent<T>(
+  message: string,
+  agent_id: string,
+  guard: ResultGuard<T>,
+  options?: StreamAgentOptions
+): Promise<TypedAgentResponse<T>> {
+  return toTypedResponse(await streamAIAgent(message, agent_id, options), guard)
+}
@@ -0,0 +1,175 @@
+/**
+ * User Store (server-only)
+ *
+ * Accounts for credentials sign-in. Passwords are stored as scrypt hashes with
+ * a per-user salt. Adapters:
+ *   - file   (default) one JSON document per user under USER_STORE_DIR
+ *   - memory           process-local, for tests and ephemeral deployments
+ *
+ * Usernames are case-insensitive; the id is a random UUID so renaming or
+ * reusing a username never inherits another account's data.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto'
+import type { AuthUser } from '@/lib/authSession'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface StoredUser extends AuthUser {
+  /** `scrypt$<salt>$<hash>`, both base64url */
+  passwordHash: string
+  createdAt: number
+}
+
+export interface UserStore {
+  /** Returns null when the username is taken. */
+  create(username: string, password: string): Promise<AuthUser | null>
+  /** Returns null for an unknown username or a wrong password. */
+  authenticate(username: string, password: string): Promise<AuthUser | null>
+}
+
+interface UserBackend {
+  read(username: string): Promise<StoredUser | null>
+  /** Writes only if no user has the name yet; returns false otherwise. */
+  insert(user: StoredUser): Promise<boolean>
+}
+
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{2,31}$/
+export const MIN_PASSWORD_LENGTH = 8
+
+/** Lowercased username, or '' if it is not 3–32 letters, digits, '.', '_' or '-'. */
+export function normalizeUsername(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim().toLowerCase() : ''
+  return USERNAME_PATTERN.test(name) ? name : ''
+}
+
+// ---------------------------------------------------------------------------
+// Passwords
+// ---------------------------------------------------------------------------
+
+const KEY_LENGTH = 64
+
+function derive(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) =>
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)))
+  )
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const key = await derive(password, salt)
+  return `scrypt$${salt.toString('base64url')}$${key.toString('base64url')}`
+}
+
+async function checkPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+  const expected = Buffer.from(hash, 'base64url')
+  const actual = await derive(password, Buffer.from(salt, 'base64url'))
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+// A fixed hash to compare against for unknown usernames, so a miss takes as long as a wrong password
+let decoyHash: Promise<string> | null = null
+
+// ---------------------------------------------------------------------------
+// Shared implementation
+// ---------------------------------------------------------------------------
+
+function toAuthUser({ id, username }: StoredUser): AuthUser {
+  return { id, username }
+}
+
+function createUserStoreFrom(backend: UserBackend): UserStore {
+  return {
+    async create(username, password) {
+      const user: StoredUser = {
+        id: randomUUID(),
+        username,
+        passwordHash: await hashPassword(password),
+        createdAt: Date.now(),
+      }
+      return (await backend.insert(user)) ? toAuthUser(user) : null
+    },
+
+    async authenticate(username, password) {
+      const user = await backend.read(username)
+      if (!user) {
+        decoyHash ??= hashPassword(randomUUID())
+        await checkPassword(password, await decoyHash)
+        return null
+      }
+      return (await checkPassword(password, user.passwordHash)) ? toAuthUser(user) : null
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Adapters
+// ---------------------------------------------------------------------------
+
+export function createMemoryUserStore(): UserStore {
+  const users = new Map<string, StoredUser>()
+  return createUserStoreFrom({
+    async read(username) {
+      const user = users.get(username)
+      return user ? structuredClone(user) : null
+    },
+    async insert(user) {
+      if (users.has(user.username)) return false
+      users.set(user.username, structuredClone(user))
+      return true
+    },
+  })
+}
+
+export function createFileUserStore(dir: string): UserStore {
+  // Hash usernames so the file name never depends on raw client input
+  const fileFor = (username: string) =>
+    path.join(dir, `${createHash('sha256').update(username).digest('hex')}.json`)
+
+  return createUserStoreFrom({
+    async read(username) {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(username), 'utf8'))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+    },
+    async insert(user) {
+      await fs.mkdir(dir, { recursive: true })
+      try {
+        // 'wx' fails if the file exists, so two sign-ups cannot claim one name
+        await fs.writeFile(fileFor(user.username), JSON.stringify(user), { encoding: 'utf8', flag: 'wx' })
+        return true
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false
+        throw error
+      }
+    },
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Configured instance
+// ---------------------------------------------------------------------------
+
+let store: UserStore | null = null
+
+/**
+ * The store selected by CONVERSATION_STORE ("file" | "memory").
+ */
+export function getUserStore(): UserStore {
+  if (!store) {
+    store =
+      process.env.CONVERSATION_STORE === 'memory'
+        ? createMemoryUserStore()
+        : createFileUserStore(process.env.USER_STORE_DIR || path.join(process.cwd(), '.data', 'users'))
+  }
+  return store
+}
@@ -0,0 +1,345 @@
+/**
+ * Workflow Runner (server-only)
+ *
+ * Executes the node/edge graph from workflow.json:
+ *   - nodes run in topological order; independent nodes run concurrently (fan-out)
+ *   - a node with several incoming edges waits for all of them (fan-in) and
+ *     receives their outputs combined
+ *   - an edge may carry a `condition` on its source's output; a node whose
+ *     incoming edges are all inactive is skipped
+ *
+ * Agent calls go through an injectable AgentTransport so the runner can be
+ * exercised without the network.
+ */
+
+import workflowDefinition from '@/workflow.json'
+import workflowState from '@/workflow_state.json'
+import { extractText, type AIAgentResponse, type NormalizedAgentResponse } from '@/lib/agentResponse'
+import { callAgentUpstream } from '@/lib/agentUpstream'
+import { generateUUID } from '@/lib/utils'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface WorkflowNode {
+  id: string
+  type: 'Input' | 'Agent' | string
+  label: string
+  nodeCategory?: string
+  agent_id?: string
+}
+
+export interface EdgeCondition {
+  /** Dot path into the source node's `result` object; omit to test the output text */
+  path?: string
+  operator: 'equals' | 'not_equals' | 'contains' | 'not_contains' | 'matches' | 'exists'
+  value?: any
+}
+
+export interface WorkflowEdge {
+  source: string
+  target: string
+  condition?: EdgeCondition
+}
+
+export interface WorkflowDefinition {
+  nodes: WorkflowNode[]
+  edges: WorkflowEdge[]
+}
+
+export type NodeStatus = 'pending' | 'running' | 'success' | 'error' | 'skipped'
+
+export interface NodeRunResult {
+  node_id: string
+  label: string
+  type: string
+  agent_id?: string
+  status: NodeStatus
+  input?: string
+  output?: NormalizedAgentResponse
+  text?: string
+  error?: string
+  started_at?: string
+  finished_at?: string
+  duration_ms?: number
+}
+
+/** An entry of workflow_state.json, annotated with this run's outcome. */
+export interface WorkflowStateAgent {
+  name: string
+  agent_id: string
+  type?: string
+  [key: string]: any
+  last_run?: Pick<NodeRunResult, 'status' | 'text' | 'error' | 'duration_ms'>
+}
+
+export interface WorkflowRunState {
+  agents: WorkflowStateAgent[]
+  run: {
+    run_id: string
+    status: 'success' | 'error'
+    input: string
+    started_at: string
+    finished_at: string
+    duration_ms: number
+  }
+  nodes: Record<string, NodeRunResult>
+  /** Node ids in the order they finished */
+  order: string[]
+  /** Results of nodes with no outgoing edges */
+  outputs: NodeRunResult[]
+}
+
+export interface AgentTransportRequest {
+  message: string
+  agent_id: string
+  user_id: string
+  session_id: string
+}
+
+export type AgentTransport = (request: AgentTransportRequest) => Promise<AIAgentResponse>
+
+export class WorkflowError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WorkflowError'
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+export const defaultWorkflow: WorkflowDefinition = workflowDefinition
+
+/** Size limits for graphs posted by clients; each Agent node is one upstream call */
+export const MAX_WORKFLOW_NODES = 50
+export const MAX_WORKFLOW_AGENT_NODES = 10
+
+/**
+ * Bounds on `matches` conditions. Posted graphs may not use `matches` at all
+ * (see /api/workflow/run); these keep a slow pattern in workflow.json cheap.
+ */
+export const MAX_MATCH_PATTERN_LENGTH = 200
+export const MAX_MATCH_INPUT_LENGTH = 10_000
+
+/** Session id an Agent node runs under: one per node, derived from the run's session id. */
+export function nodeSessionId(runSessionId: string, nodeId: string): string {
+  return `${runSessionId}-${nodeId}`
+}
+
+/** Calls each agent's configured provider through the same path as /api/agent. */
+export const upstreamTransport: AgentTransport = async (request) => {
+  const { body } = await callAgentUpstream(request)
+  return body
+}
+
+// ---------------------------------------------------------------------------
+// Graph helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate the graph and return its nodes in topological order.
+ * Throws WorkflowError on duplicate node ids, unknown node references or cycles.
+ */
+export function topologicalOrder(workflow: WorkflowDefinition): WorkflowNode[] {
+  const byId = new Map<string, WorkflowNode>()
+  for (const node of workflow.nodes) {
+    if (byId.has(node.id)) throw new WorkflowError(`Workflow has more than one node with id "${node.id}"`)
+    byId.set(node.id, node)
+  }
+  const indegree = new Map(workflow.nodes.map((n) => [n.id, 0]))
+
+  for (const edge of workflow.edges) {
+    if (!byId.has(edge.source)) throw new WorkflowError(`Edge references unknown source node "${edge.source}"`)
+    if (!byId.has(edge.target)) throw new WorkflowError(`Edge references unknown target node "${edge.target}"`)
+    indegree.set(edge.target, (indegree.get(edge.target) ?? 0) + 1)
+  }
+
+  const queue = workflow.nodes.filter((n) => indegree.get(n.id) === 0)
+  const ordered: WorkflowNode[] = []
+  while (queue.length > 0) {
+    const node = queue.shift()!
+    ordered.push(node)
+    for (const edge of workflow.edges) {
+      if (edge.source !== node.id) continue
+      const remaining = (indegree.get(edge.target) ?? 0) - 1
+      indegree.set(edge.target, remaining)
+      if (remaining === 0) queue.push(byId.get(edge.target)!)
+    }
+  }
+
+  if (ordered.length !== workflow.nodes.length) {
+    throw new WorkflowError('Workflow graph contains a cycle')
+  }
+  return ordered
+}
+
+function readPath(source: Record<string, any> | undefined, path: string): any {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), source)
+}
+
+/** Whether an edge passes its source node's output downstream. */
+export function evaluateCondition(condition: EdgeCondition | undefined, source: NodeRunResult): boolean {
+  if (!condition) return true
+  const actual = condition.path ? readPath(source.output?.result, condition.path) : source.text
+  const asText = actual == null ? '' : typeof actual === 'string' ? actual : JSON.stringify(actual)
+
+  switch (condition.operator) {
+    case 'exists':
+      return actual !== undefined && actual !== null && actual !== ''
+    case 'equals':
+      return actual === condition.value || asText === String(condition.value)
+    case 'not_equals':
+      return !(actual === condition.value || asText === String(condition.value))
+    case 'contains':
+      return asText.toLowerCase().includes(String(condition.value ?? '').toLowerCase())
+    case 'not_contains':
+      return !asText.toLowerCase().includes(String(condition.value ?? '').toLowerCase())
+    case 'matches': {
+      const pattern = String(condition.value ?? '')
+      if (pattern.length > MAX_MATCH_PATTERN_LENGTH) return false
+      try {
+        return new RegExp(pattern).test(asText.slice(0, MAX_MATCH_INPUT_LENGTH))
+      } catch {
+        return false
+      }
+    }
+    default:
+      return false
+  }
+}
+
+/** Combine upstream outputs into one agent input. A single input passes through as-is. */
+function combineInputs(inputs: NodeRunResult[]): string {
+  if (inputs.length === 1) return inputs[0].text ?? ''
+  return inputs.map((r) => `### ${r.label}\n${r.text ?? ''}`).join('\n\n')
+}
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+export async function runWorkflow(
+  input: string,
+  options?: {
+    workflow?: WorkflowDefinition
+    transport?: AgentTransport
+    user_id?: string
+    session_id?: string
+  }
+): Promise<WorkflowRunState> {
+  const workflow = options?.workflow ?? defaultWorkflow
+  const transport = options?.transport ?? upstreamTransport
+  const userId = options?.user_id || `user-${generateUUID()}`
+  const runId = generateUUID()
+  const runSessionId = options?.session_id || runId
+
+  const ordered = topologicalOrder(workflow)
+  const incoming = new Map<string, WorkflowEdge[]>(workflow.nodes.map((n) => [n.id, []]))
+  for (const edge of workflow.edges) incoming.get(edge.target)!.push(edge)
+
+  const results: Record<string, NodeRunResult> = {}
+  for (const node of workflow.nodes) {
+    results[node.id] = { node_id: node.id, label: node.label, type: node.type, agent_id: node.agent_id, status: 'pending' }
+  }
+
+  const finishOrder: string[] = []
+  const runStarted = Date.now()
+
+  const executeNode = async (node: WorkflowNode): Promise<void> => {
+    const result = results[node.id]
+    const edges = incoming.get(node.id)!
+
+    // Upstream outputs that reach this node through an active edge
+    const activeInputs = edges
+      .filter((edge) => results[edge.source].status === 'success' && evaluateCondition(edge.condition, results[edge.source]))
+      .map((edge) => results[edge.source])
+
+    if (edges.length > 0 && activeInputs.length === 0) {
+      result.status = 'skipped'
+      finishOrder.push(node.id)
+      return
+    }
+
+    const nodeInput = edges.length === 0 ? input : combineInputs(activeInputs)
+    const started = Date.now()
+    result.status = 'running'
+    result.input = nodeInput
+    result.started_at = new Date(started).toISOString()
+
+    try {
+      if (node.type === 'Agent') {
+        if (!node.agent_id) throw new WorkflowError(`Agent node "${node.id}" has no agent_id`)
+        const response = await transport({
+          message: nodeInput,
+          agent_id: node.agent_id,
+          user_id: userId,
+          session_id: nodeSessionId(runSessionId, node.id),
+        })
+        result.output = response.response
+        if (!response.success || response.response?.status === 'error') {
+          throw new Error(response.error || response.response?.message || 'Agent call failed')
+        }
+        result.text = extractText(response.response)
+      } else {
+        // Input and pass-through nodes forward their input unchanged
+        result.output = { status: 'success', result: { text: nodeInput }, message: nodeInput }
+        result.text = nodeInput
+      }
+      result.status = 'success'
+    } catch (error) {
+      result.status = 'error'
+      result.error = error instanceof Error ? error.message : String(error)
+    } finally {
+      const finished = Date.now()
+      result.finished_at = new Date(finished).toISOString()
+      result.duration_ms = finished - started
+      finishOrder.push(node.id)
+    }
+  }
+
+  // Run in waves: every node whose upstream nodes have all settled runs concurrently
+  const settled = new Set<string>()
+  let remaining = ordered
+  while (remaining.length > 0) {
+    const ready = remaining.filter((node) => incoming.get(node.id)!.every((edge) => settled.has(edge.source)))
+    await Promise.all(ready.map(executeNode))
+    ready.forEach((node) => settled.add(node.id))
+    remaining = remaining.filter((node) => !settled.has(node.id))
+  }
+
+  const runFinished = Date.now()
+  const hasOutgoing = new Set(workflow.edges.map((e) => e.source))
+
+  const agents: WorkflowStateAgent[] = workflowState.agents.map((agent) => {
+    const nodeResult = Object.values(results).find((r) => r.agent_id === agent.agent_id && r.status !== 'pending')
+    return nodeResult
+      ? {
+          ...agent,
+          last_run: {
+            status: nodeResult.status,
+            text: nodeResult.text,
+            error: nodeResult.error,
+            duration_ms: nodeResult.duration_ms,
+          },
+        }
+      : { ...agent }
+  })
+
+  return {
+    agents,
+    run: {
+      run_id: runId,
+      status: Object.values(results).some((r) => r.status === 'error') ? 'error' : 'success',
+      input,
+      started_at: new Date(runStarted).toISOString(),
+      finished_at: new Date(runFinished).toISOString(),
+      duration_ms: runFinished - runStarted,
+    },
+    nodes: results,
+    order: finishOrder,
+    outputs: workflow.nodes.filter((n) => !hasOutgoing.has(n.id)).map((n) => results[n.id]),
+  }
+}
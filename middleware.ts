@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { consumeQuota, limitHeaders, takeToken, type LimitDecision, type LimitedRoute, type QuotaKind } from '@/lib/rateLimit'
+import { SESSION_COOKIE, USER_ID_HEADER, USER_NAME_HEADER, verifySession, type AuthUser } from '@/lib/authSession'
+// Type-only: the runner itself is server-only and never reaches the edge bundle
+import type { WorkflowNode } from '@/lib/workflowRunner'
+import defaultWorkflow from '@/workflow.json'
+
+const LIMITED_ROUTES: ReadonlySet<string> = new Set<LimitedRoute>(['agent', 'upload', 'rag', 'scheduler'])
+/** Workflow runs call agents with the same keys, so they share the agent limits */
+const WORKFLOW_RUN_PATH = '/api/workflow/run'
+/** Sign-in and registration, limited per client IP */
+const CREDENTIAL_PATHS: ReadonlySet<string> = new Set(['/api/auth/session', '/api/auth/register'])
+
+/**
+ * Every API route except sign-in, the health check and public share reads
+ * requires a signed-in session; the verified user is forwarded to the route
+ * in USER_ID_HEADER / USER_NAME_HEADER. Pages redirect to /login instead.
+ *
+ * The routes that spend the shared upstream API keys are also throttled per user,
+ * and credential checks per client IP. Rejections use the AIAgentResponse error shape so both the chat client and
+ * the plain `{ success, error }` clients can read them.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  const user = await verifySession(request.cookies.get(SESSION_COOKIE)?.value)
+
+  if (!pathname.startsWith('/api/')) {
+    if (user) return NextResponse.next()
+    const login = new URL('/login', request.url)
+    login.searchParams.set('next', pathname + request.nextUrl.search)
+    return NextResponse.redirect(login)
+  }
+
+  // Never let a client supply the identity headers itself
+  const headers = new Headers(request.headers)
+  headers.delete(USER_ID_HEADER)
+  headers.delete(USER_NAME_HEADER)
+
+  if (request.method === 'POST' && CREDENTIAL_PATHS.has(pathname)) {
+    const bucket = takeToken('auth', `ip:${clientIp(request)}`)
+    if (bucket && !bucket.allowed) {
+      return reject(bucket, 'rate_limited', 'Too many sign-in attempts. Please wait a minute and try again.')
+    }
+  }
+  if (isPublicApi(request)) return NextResponse.next({ request: { headers } })
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'Sign in required' }, { status: 401 })
+  }
+  headers.set(USER_ID_HEADER, user.id)
+  headers.set(USER_NAME_HEADER, encodeURIComponent(user.username))
+
+  if (pathname === WORKFLOW_RUN_PATH && request.method === 'POST') {
+    return throttle('agent', user, headers, await workflowAgentCount(request))
+  }
+  const route = pathname.split('/')[2]
+  if (!LIMITED_ROUTES.has(route)) return NextResponse.next({ request: { headers } })
+  if (route === 'agent' && request.method === 'POST') {
+    return throttle('agent', user, headers, 1, await agentQuotaKind(request))
+  }
+  return throttle(route as LimitedRoute, user, headers, 0)
+}
+
+export const config = {
+  matcher: ['/', '/schedules', '/api/:path*'],
+}
+
+function isPublicApi(request: NextRequest): boolean {
+  const { pathname } = request.nextUrl
+  if (pathname.startsWith('/api/auth/') || pathname === '/api/health') return true
+  // Reading a shared snapshot is public; creating, listing and revoking are not
+  return request.method === 'GET' && /^\/api\/share\/[^/]+$/.test(pathname)
+}
+
+function clientIp(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+  return request.ip || forwarded || request.headers.get('x-real-ip') || 'unknown'
+}
+
+/**
+ * Agent calls a workflow run makes: one per Agent node of the posted graph,
+ * or of workflow.json when none is posted. Malformed bodies count once and
+ * are rejected by the route.
+ */
+async function workflowAgentCount(request: NextRequest): Promise<number> {
+  const body = await request.clone().json().catch(() => null)
+  const workflow = body?.workflow ?? defaultWorkflow
+  // Posted nodes are unchecked here, so entries may be anything, null included
+  const nodes: (WorkflowNode | null)[] = Array.isArray(workflow?.nodes) ? workflow.nodes : []
+  return Math.max(1, nodes.filter((node) => node?.type === 'Agent').length)
+}
+
+/** Background summary calls (`purpose: "summary"`) are charged to their own quota. */
+async function agentQuotaKind(request: NextRequest): Promise<QuotaKind> {
+  const body = await request.clone().json().catch(() => null)
+  return body?.purpose === 'summary' ? 'summaries' : 'messages'
+}
+
+/** Take a token from the user's bucket for `route` and `messages` from their daily `kind` quota. */
+function throttle(route: LimitedRoute, user: AuthUser, headers: Headers, messages: number, kind: QuotaKind = 'messages') {
+  const caller = `user:${user.id}`
+
+  const bucket = takeToken(route, caller)
+  if (bucket && !bucket.allowed) {
+    return reject(bucket, 'rate_limited', 'Too many requests. Please wait a moment and try again.')
+  }
+
+  const quota = messages > 0 ? consumeQuota(caller, Date.now(), messages, kind) : null
+  if (quota && !quota.allowed) {
+    const message =
+      kind === 'summaries'
+        ? `You have used all ${quota.limit} conversation summaries for today.`
+        : quota.remaining > 0
+          ? `This needs ${messages} messages, but only ${quota.remaining} of your ${quota.limit} for today are left.`
+          : `You have used all ${quota.limit} messages for today.`
+    return reject(quota, 'quota_exceeded', message, bucket)
+  }
+
+  const response = NextResponse.next({ request: { headers } })
+  if (bucket) applyHeaders(response, limitHeaders(bucket))
+  if (quota) applyHeaders(response, limitHeaders(quota, 'X-Quota'))
+  return response
+}
+
+function reject(decision: LimitDecision, code: 'rate_limited' | 'quota_exceeded', message: string, bucket?: LimitDecision | null) {
+  const response = NextResponse.json(
+    {
+      success: false,
+      response: { status: 'error', result: {}, message },
+      error: message,
+      error_code: code,
+      retry_at: decision.retryAt,
+    },
+    { status: 429 }
+  )
+  if (bucket) applyHeaders(response, limitHeaders(bucket))
+  applyHeaders(response, limitHeaders(decision, code === 'quota_exceeded' ? 'X-Quota' : 'X-RateLimit'))
+  return response
+}
+
+function applyHeaders(response: NextResponse, headers: Record<string, string>) {
+  for (const name of Object.keys(headers)) response.headers.set(name, headers[name])
+}
@@ -20,6 +20,9 @@ const nextConfig = {
 
   // Enable experimental features for faster dev
   experimental: {
+    // Keep the native WebSocket client out of the server bundle
+    serverComponentsExternalPackages: ['ws'],
+
     // Optimize package imports for faster builds
     optimizePackageImports: [
       'lucide-react',
@@ -0,0 +1,43 @@
+import { defineConfig, devices } from '@playwright/test'
+
+const MOCK_PORT = 4010
+const APP_PORT = 3917
+
+/**
+ * Browser tests against the app running on the offline mock Lyzr server
+ * (scripts/mock-lyzr-server.mjs), so no API key or network is needed.
+ * Run with `npm run test:e2e` after `npx playwright install chromium`.
+ */
+export default defineConfig({
+  testDir: 'e2e',
+  timeout: 60_000,
+  fullyParallel: false,
+  workers: 1,
+  retries: process.env.CI ? 1 : 0,
+  use: {
+    baseURL: `http://localhost:${APP_PORT}`,
+    trace: 'retain-on-failure',
+  },
+  projects: [{ name: 'chromium', use: { ...devices['Desktop Chrome'] } }],
+  webServer: [
+    {
+      command: `node scripts/mock-lyzr-server.mjs --port ${MOCK_PORT}`,
+      port: MOCK_PORT,
+      reuseExistingServer: !process.env.CI,
+    },
+    {
+      command: `npx next dev -p ${APP_PORT}`,
+      url: `http://localhost:${APP_PORT}/api/health`,
+      timeout: 180_000,
+      reuseExistingServer: !process.env.CI,
+      env: {
+        LYZR_BASE_URL: `http://localhost:${MOCK_PORT}`,
+        LYZR_API_KEY: 'e2e-key',
+        AGENT_PROVIDER: 'lyzr',
+        CONVERSATION_STORE: 'memory',
+        USER_STORE_DIR: '.data/e2e/users',
+        SHARE_STORE_DIR: '.data/e2e/shares',
+      },
+    },
+  ],
+})
@@ -0,0 +1,303 @@
+#!/usr/bin/env node
+/**
+ * Agent Client Generator
+ *
+ * Reads response_schemas/*_response.json and writes lib/agentClients.generated.ts
+ * with, for every agent:
+ *   - a result interface           (ChatAgentResult)
+ *   - a runtime type guard          (isChatAgentResult)
+ *   - typed call/stream wrappers    (callChatAgent, streamChatAgent)
+ *
+ * Usage:
+ *   node scripts/generate-agent-clients.mjs           write the file
+ *   node scripts/generate-agent-clients.mjs --check   exit 1 if it is out of date
+ *
+ * Also importable: `generateAgentClients(schemaFiles)` returns the source text.
+ *
+ * Both schema forms found in response_schemas/ are understood: JSON Schema
+ * (`{ type: "object", properties, required }`) and the shorthand
+ * `{ field: "string" }`, where every listed field is required.
+ */
+
+import { readFileSync, readdirSync, writeFileSync, existsSync } from 'node:fs'
+import { join, dirname, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..')
+const SCHEMA_DIR = join(ROOT, 'response_schemas')
+const OUTPUT_FILE = join(ROOT, 'lib', 'agentClients.generated.ts')
+
+// ---------------------------------------------------------------------------
+// Schema normalization
+// ---------------------------------------------------------------------------
+
+const SHORTHAND_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null', 'any']
+
+/** Convert the `{ field: "type" }` shorthand into JSON Schema. */
+function fromShorthand(value) {
+  if (typeof value === 'string') {
+    if (value.endsWith('[]')) return { type: 'array', items: fromShorthand(value.slice(0, -2)) }
+    return SHORTHAND_TYPES.includes(value) && value !== 'any' ? { type: value } : {}
+  }
+  if (Array.isArray(value)) return { type: 'array', items: value.length > 0 ? fromShorthand(value[0]) : {} }
+  if (value && typeof value === 'object') {
+    const properties = {}
+    for (const [key, child] of Object.entries(value)) properties[key] = fromShorthand(child)
+    return { type: 'object', properties, required: Object.keys(properties) }
+  }
+  return {}
+}
+
+function isJsonSchema(schema) {
+  return !!schema && typeof schema.type === 'string' && (schema.type !== 'object' || typeof schema.properties === 'object')
+}
+
+function toJsonSchema(schema) {
+  return isJsonSchema(schema) ? schema : fromShorthand(schema)
+}
+
+// ---------------------------------------------------------------------------
+// Emitters
+// ---------------------------------------------------------------------------
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/
+
+function quote(text) {
+  return `'${String(text).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+function literal(value) {
+  return typeof value === 'string' ? quote(value) : JSON.stringify(value)
+}
+
+function propertyKey(key) {
+  return IDENTIFIER.test(key) ? key : quote(key)
+}
+
+function propertyAccess(expr, key) {
+  return IDENTIFIER.test(key) ? `${expr}.${key}` : `${expr}[${quote(key)}]`
+}
+
+/** Parenthesize an expression that would not bind tightly inside `&&`. */
+function group(expr) {
+  return /\|\||\?/.test(expr) ? `(${expr})` : expr
+}
+
+function pascalCase(text) {
+  return text
+    .replace(/[^A-Za-z0-9]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+}
+
+function tsType(schema, indent) {
+  if (!schema || typeof schema !== 'object') return 'unknown'
+  let type
+  if ('const' in schema) type = literal(schema.const)
+  else if (Array.isArray(schema.enum)) type = schema.enum.map(literal).join(' | ')
+  else if (Array.isArray(schema.anyOf ?? schema.oneOf)) type = (schema.anyOf ?? schema.oneOf).map((s) => tsType(s, indent)).join(' | ')
+  else if (Array.isArray(schema.type)) type = schema.type.map((t) => tsType({ ...schema, type: t }, indent)).join(' | ')
+  else {
+    switch (schema.type) {
+      case 'string':
+        type = 'string'
+        break
+      case 'number':
+      case 'integer':
+        type = 'number'
+        break
+      case 'boolean':
+        type = 'boolean'
+        break
+      case 'null':
+        type = 'null'
+        break
+      case 'array': {
+        const item = tsType(schema.items, indent)
+        type = /^[\w.]+$/.test(item) ? `${item}[]` : `Array<${item}>`
+        break
+      }
+      case 'object':
+        type = objectBody(schema, indent)
+        break
+      default:
+        type = 'unknown'
+    }
+  }
+  return schema.nullable === true ? `${type} | null` : type
+}
+
+function objectBody(schema, indent) {
+  const entries = Object.entries(schema.properties ?? {})
+  if (entries.length === 0) return 'Record<string, unknown>'
+  const required = new Set(schema.required ?? [])
+  const pad = '  '.repeat(indent + 1)
+  const lines = entries.map(([key, child]) => {
+    const doc = child?.description ? `${pad}/** ${child.description} */\n` : ''
+    return `${doc}${pad}${propertyKey(key)}${required.has(key) ? '' : '?'}: ${tsType(child, indent + 1)}`
+  })
+  return `{\n${lines.join('\n')}\n${'  '.repeat(indent)}}`
+}
+
+/** A boolean expression checking `expr` against `schema`; top-level checks go one per line. */
+function guardExpr(schema, expr, nested = false) {
+  if (!schema || typeof schema !== 'object') return 'true'
+  let check
+  if ('const' in schema) check = `${expr} === ${literal(schema.const)}`
+  else if (Array.isArray(schema.enum)) check = `[${schema.enum.map(literal).join(', ')}].includes(${expr})`
+  else if (Array.isArray(schema.anyOf ?? schema.oneOf)) check = (schema.anyOf ?? schema.oneOf).map((s) => `(${guardExpr(s, expr, true)})`).join(' || ')
+  else if (Array.isArray(schema.type)) check = schema.type.map((t) => `(${guardExpr({ ...schema, type: t }, expr, true)})`).join(' || ')
+  else {
+    switch (schema.type) {
+      case 'string':
+      case 'boolean':
+        check = `typeof ${expr} === '${schema.type}'`
+        break
+      case 'number':
+        check = `typeof ${expr} === 'number'`
+        break
+      case 'integer':
+        check = `Number.isInteger(${expr})`
+        break
+      case 'null':
+        check = `${expr} === null`
+        break
+      case 'array':
+        check = `Array.isArray(${expr})`
+        if (schema.items && guardExpr(schema.items, 'item', true) !== 'true') {
+          check += ` && (${expr} as unknown[]).every((item: any) => ${guardExpr(schema.items, 'item', true)})`
+        }
+        break
+      case 'object': {
+        const required = new Set(schema.required ?? [])
+        const parts = [`isObject(${expr})`]
+        for (const [key, child] of Object.entries(schema.properties ?? {})) {
+          const access = propertyAccess(expr, key)
+          const inner = guardExpr(child, access, true)
+          if (inner === 'true') {
+            if (required.has(key)) parts.push(`${quote(key)} in ${expr}`)
+          } else {
+            parts.push(required.has(key) ? group(inner) : `(${access} === undefined || ${group(inner)})`)
+          }
+        }
+        check = parts.join(nested ? ' && ' : ' &&\n    ')
+        break
+      }
+      default:
+        check = 'true'
+    }
+  }
+  return schema.nullable === true ? `${expr} === null || (${check})` : check
+}
+
+// ---------------------------------------------------------------------------
+// Generator
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the generated module from parsed *_response.json files.
+ * Each file needs `agent_name`, `agent_id` and `response_schema`.
+ */
+export function generateAgentClients(schemaFiles) {
+  const seen = new Set()
+  const blocks = []
+
+  for (const file of schemaFiles) {
+    if (!file?.agent_id || !file.response_schema) continue
+    const base = pascalCase(file.agent_name || `Agent ${file.agent_id}`)
+    if (seen.has(base)) throw new Error(`Two response schemas map to the same name "${base}"`)
+    seen.add(base)
+
+    const schema = toJsonSchema(file.response_schema)
+    const resultType = `${base}Result`
+    const idConst = `${base.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}_ID`
+    const description = file.description ? `\n/** ${file.description} */` : ''
+    const body = schema.type === 'object' ? objectBody(schema, 0) : tsType(schema, 0)
+
+    blocks.push(
+      [
+        `// ---------------------------------------------------------------------------`,
+        `// ${file.agent_name || base}`,
+        `// ---------------------------------------------------------------------------`,
+        ``,
+        `export const ${idConst} = ${quote(file.agent_id)}`,
+        ``,
+        schema.type === 'object' && body.startsWith('{')
+          ? `export interface ${resultType} ${body}`
+          : `export type ${resultType} = ${body}`,
+        ``,
+        `export function is${resultType}(value: unknown): value is ${resultType} {`,
+        `  const v = value as any`,
+        `  return ${guardExpr(schema, 'v')}`,
+        `}`,
+        `${description}`,
+        `export function call${base}(message: string, options?: CallAgentOptions): Promise<TypedAgentResponse<${resultType}>> {`,
+        `  return callTypedAgent(message, ${idConst}, is${resultType}, options)`,
+        `}`,
+        ``,
+        `export function stream${base}(message: string, options?: StreamAgentOptions): Promise<TypedAgentResponse<${resultType}>> {`,
+        `  return streamTypedAgent(message, ${idConst}, is${resultType}, options)`,
+        `}`,
+      ]
+        .join('\n')
+        .replace(/\n\n\n/g, '\n\n')
+    )
+  }
+
+  return [
+    `'use client'`,
+    ``,
+    `// Generated by scripts/generate-agent-clients.mjs from response_schemas/*_response.json.`,
+    `// Do not edit by hand; run \`npm run generate:agents\` instead.`,
+    ``,
+    `/* eslint-disable */`,
+    ``,
+    `import { callTypedAgent, streamTypedAgent, type TypedAgentResponse } from '@/lib/typedAgent'`,
+    `import type { CallAgentOptions, StreamAgentOptions } from '@/lib/aiAgent'`,
+    ``,
+    `export type { TypedAgentResponse }`,
+    ``,
+    `function isObject(value: unknown): value is Record<string, any> {`,
+    `  return !!value && typeof value === 'object' && !Array.isArray(value)`,
+    `}`,
+    ``,
+    blocks.join('\n\n'),
+    ``,
+  ].join('\n')
+}
+
+function readSchemaFiles(dir) {
+  return readdirSync(dir)
+    .filter((name) => name.endsWith('_response.json'))
+    .sort()
+    .map((name) => {
+      try {
+        return JSON.parse(readFileSync(join(dir, name), 'utf8'))
+      } catch (error) {
+        throw new Error(`${name}: ${error.message}`)
+      }
+    })
+}
+
+function main() {
+  const check = process.argv.includes('--check')
+  const source = generateAgentClients(readSchemaFiles(SCHEMA_DIR))
+  const current = existsSync(OUTPUT_FILE) ? readFileSync(OUTPUT_FILE, 'utf8') : ''
+
+  if (check) {
+    if (current !== source) {
+      console.error('lib/agentClients.generated.ts is out of date; run `npm run generate:agents`')
+      process.exit(1)
+    }
+    return
+  }
+
+  if (current !== source) writeFileSync(OUTPUT_FILE, source)
+  console.log(`Wrote ${OUTPUT_FILE.slice(ROOT.length + 1)}`)
+}
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main()
+}
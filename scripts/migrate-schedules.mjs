@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+/**
+ * Migrate Schedules
+ *
+ * Schedules created before sign-in existed were stored upstream with the
+ * shared LYZR_API_KEY as their user_id. /api/scheduler now only shows a user
+ * the schedules whose user_id is their account id, so those older schedules
+ * are invisible to everyone. This script hands them to one account.
+ *
+ * The scheduler API cannot change a schedule's user_id, so each schedule is
+ * re-created under the account (paused again if it was paused) and the old
+ * one is deleted. Run history does not carry over.
+ *
+ * Usage:
+ *   node scripts/migrate-schedules.mjs --user <username> [--dry-run]
+ *   node scripts/migrate-schedules.mjs --user-id <account id> [--dry-run]
+ *
+ * Reads LYZR_API_KEY, LYZR_SCHEDULER_BASE_URL / LYZR_BASE_URL and
+ * USER_STORE_DIR (default .data/users) like the app does.
+ *
+ * Also importable: `migrateSchedules({ baseUrl, apiKey, toUserId, dryRun, log })`
+ * resolves to `{ migrated, failed }` lists of the old schedule ids.
+ */
+
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const PRODUCTION_SCHEDULER_URL = 'https://scheduler.studio.lyzr.ai'
+const PAGE_SIZE = 100
+
+// ---------------------------------------------------------------------------
+// Upstream calls
+// ---------------------------------------------------------------------------
+
+function client(baseUrl, apiKey) {
+  const base = baseUrl.replace(/\/+$/, '')
+  const headers = { 'Content-Type': 'application/json', accept: 'application/json', 'x-api-key': apiKey }
+
+  const call = async (method, path, body) => {
+    const response = await fetch(`${base}${path}`, { method, headers, ...(body && { body: JSON.stringify(body) }) })
+    if (!response.ok) {
+      throw new Error(`${method} ${path} failed: ${response.status} ${await response.text()}`)
+    }
+    return response.status === 204 ? null : response.json()
+  }
+
+  return {
+    async listFor(userId) {
+      const schedules = []
+      for (let skip = 0; ; skip += PAGE_SIZE) {
+        const query = new URLSearchParams({ user_id: userId, skip: String(skip), limit: String(PAGE_SIZE) })
+        const page = await call('GET', `/schedules/?${query}`)
+        const items = page?.schedules ?? []
+        schedules.push(...items)
+        if (items.length < PAGE_SIZE) return schedules
+      }
+    },
+    create: (body) => call('POST', '/schedules/', body),
+    pause: (id) => call('POST', `/schedules/${encodeURIComponent(id)}/pause`),
+    remove: (id) => call('DELETE', `/schedules/${encodeURIComponent(id)}`),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Migration
+// ---------------------------------------------------------------------------
+
+export async function migrateSchedules({ baseUrl, apiKey, toUserId, dryRun = false, log = () => {} }) {
+  if (!apiKey) throw new Error('LYZR_API_KEY is required')
+  if (!toUserId) throw new Error('A target account is required')
+
+  const api = client(baseUrl, apiKey)
+  // Only schedules the old route created: user_id was the API key itself
+  const legacy = (await api.listFor(apiKey)).filter((schedule) => schedule.user_id === apiKey)
+  const migrated = []
+  const failed = []
+
+  for (const schedule of legacy) {
+    const label = `${schedule.id} (${schedule.cron_expression}, agent ${schedule.agent_id})`
+    if (dryRun) {
+      log(`would migrate ${label}`)
+      migrated.push(schedule.id)
+      continue
+    }
+    try {
+      const created = await api.create({
+        agent_id: schedule.agent_id,
+        cron_expression: schedule.cron_expression,
+        message: schedule.message,
+        timezone: schedule.timezone || 'UTC',
+        user_id: toUserId,
+        max_retries: schedule.max_retries ?? 3,
+        retry_delay: schedule.retry_delay ?? 300,
+      })
+      if (schedule.is_active === false) await api.pause(created.id)
+      await api.remove(schedule.id)
+      log(`migrated ${label} → ${created.id}`)
+      migrated.push(schedule.id)
+    } catch (error) {
+      log(`failed ${label}: ${error.message}`)
+      failed.push(schedule.id)
+    }
+  }
+
+  return { migrated, failed }
+}
+
+// ---------------------------------------------------------------------------
+// CLI
+// ---------------------------------------------------------------------------
+
+function argValue(name) {
+  const index = process.argv.indexOf(name)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+/** The account id for a username, read from the file user store */
+function userIdFor(username) {
+  const dir = process.env.USER_STORE_DIR || join(process.cwd(), '.data', 'users')
+  const name = username.trim().toLowerCase()
+  const file = join(dir, `${createHash('sha256').update(name).digest('hex')}.json`)
+  try {
+    return JSON.parse(readFileSync(file, 'utf8')).id
+  } catch {
+    throw new Error(`No account named "${name}" in ${dir}`)
+  }
+}
+
+async function main() {
+  const username = argValue('--user')
+  const toUserId = argValue('--user-id') ?? (username ? userIdFor(username) : undefined)
+  if (!toUserId) {
+    throw new Error('Usage: node scripts/migrate-schedules.mjs --user <username> | --user-id <id> [--dry-run]')
+  }
+  const baseUrl =
+    process.env.LYZR_SCHEDULER_BASE_URL || process.env.LYZR_BASE_URL || PRODUCTION_SCHEDULER_URL
+  const dryRun = process.argv.includes('--dry-run')
+
+  const { migrated, failed } = await migrateSchedules({
+    baseUrl,
+    apiKey: process.env.LYZR_API_KEY || '',
+    toUserId,
+    dryRun,
+    log: (line) => console.log(line),
+  })
+  console.log(`${dryRun ? 'Would migrate' : 'Migrated'} ${migrated.length} schedule(s); ${failed.length} failed`)
+  if (failed.length > 0) process.exit(1)
+}
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main().catch((error) => {
+    console.error(error.message)
+    process.exit(1)
+  })
+}
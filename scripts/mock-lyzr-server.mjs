@@ -0,0 +1,453 @@
+#!/usr/bin/env node
+/**
+ * Mock Lyzr Server
+ *
+ * An offline stand-in for every Lyzr API the app calls, so the whole app (and
+ * integration tests) run without network access. One HTTP server implements:
+ *   - inference        POST /v3/inference/chat/      POST /v3/inference/stream/
+ *   - assets upload    POST /v3/assets/upload
+ *   - RAG              GET  /v3/rag/documents/{rag_id}/
+ *                      POST /v3/train/{pdf|docx|txt}/?rag_id=
+ *                      DELETE /v3/rag/{rag_id}/docs/
+ *                      POST /api/v1/rag/crawl
+ *   - scheduler        /schedules/...  (list, get, by-agent, logs, recent,
+ *                      create, pause, resume, trigger, delete)
+ *   - session events   WebSocket /session/{session_id}
+ *
+ * State is kept in memory. Replies are scripted by a fixtures file (default
+ * scripts/mock-lyzr-fixtures.json) mapping a message to
+ *   { reply?, status?, error?, delay_ms?, chunk_delay_ms?, retry_after? }
+ * where "*" is the fallback and "{{message}}" in a reply is replaced by the
+ * message. Schedules never fire on their cron; `trigger` runs one immediately.
+ *
+ * Usage:
+ *   npm run mock:lyzr                      listen on MOCK_LYZR_PORT (4010)
+ *   node scripts/mock-lyzr-server.mjs --port 4011 --fixtures my-fixtures.json
+ *
+ * Then start the app with LYZR_BASE_URL=http://localhost:4010 and any
+ * LYZR_API_KEY (or the one in MOCK_LYZR_API_KEY, when set).
+ *
+ * Also importable: `startMockLyzrServer({ port, fixtures, apiKey })` resolves
+ * to `{ url, reset(), close() }`; port 0 picks a free one.
+ */
+
+import { createServer } from 'node:http'
+import { randomUUID } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { dirname, join, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { WebSocketServer } from 'ws'
+
+const DEFAULT_FIXTURES_FILE = join(dirname(fileURLToPath(import.meta.url)), 'mock-lyzr-fixtures.json')
+const DEFAULT_PORT = 4010
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const sleep = (ms) => new Promise((done) => setTimeout(done, ms))
+const now = () => new Date().toISOString()
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  res.end(JSON.stringify(body))
+}
+
+async function readBody(req) {
+  const chunks = []
+  for await (const chunk of req) chunks.push(chunk)
+  return Buffer.concat(chunks)
+}
+
+async function readJson(req) {
+  const body = await readBody(req)
+  return body.length > 0 ? JSON.parse(body.toString('utf8')) : {}
+}
+
+/** Parse a multipart body with the platform's own FormData parser. */
+async function readFormData(req) {
+  const body = await readBody(req)
+  return new Request('http://mock.local/', {
+    method: 'POST',
+    headers: { 'content-type': req.headers['content-type'] || '' },
+    body,
+  }).formData()
+}
+
+/** SSE data lines for one chunk; newlines inside it become separate data lines. */
+function sseData(text) {
+  return `${text.split('\n').map((line) => `data: ${line}`).join('\n')}\n\n`
+}
+
+function fill(value, message) {
+  if (typeof value === 'string') return value.replaceAll('{{message}}', message)
+  if (Array.isArray(value)) return value.map((item) => fill(item, message))
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fill(item, message)]))
+  }
+  return value
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+export function startMockLyzrServer(options = {}) {
+  const fixtures = options.fixtures ?? JSON.parse(readFileSync(DEFAULT_FIXTURES_FILE, 'utf8'))
+  const apiKey = options.apiKey ?? process.env.MOCK_LYZR_API_KEY ?? ''
+  const log = options.log ?? (() => {})
+
+  let state
+  const reset = () => {
+    state = {
+      /** rag_id → Set of stored file paths */
+      documents: new Map(),
+      /** schedule id → schedule */
+      schedules: new Map(),
+      executions: [],
+    }
+  }
+  reset()
+
+  /** session id → connected WebSockets */
+  const sockets = new Map()
+
+  function fixtureFor(message) {
+    const entry = fixtures[message] ?? fixtures['*'] ?? { reply: { response: 'Mock reply to: {{message}}' } }
+    return fill(entry, message)
+  }
+
+  function answerText(fixture) {
+    const reply = fixture.reply ?? ''
+    return typeof reply === 'string' ? reply : JSON.stringify(reply)
+  }
+
+  function emitEvent(request, status, eventType, message) {
+    const peers = sockets.get(request.session_id)
+    if (!peers || peers.size === 0) return
+    const event = JSON.stringify({
+      feature: 'llm_generation',
+      level: 'INFO',
+      status,
+      message,
+      timestamp: now(),
+      event_type: eventType,
+      run_id: request.run_id,
+      trace_id: request.run_id,
+      session_id: request.session_id,
+      log_id: randomUUID(),
+      agent_id: request.agent_id,
+      user_id: request.user_id,
+      agent_name: 'Mock Agent',
+      provider: 'mock',
+      model: 'mock-model',
+      ...(eventType === 'thinking_log' && { thinking: message }),
+    })
+    peers.forEach((ws) => ws.send(event))
+  }
+
+  /** Apply a fixture's scripted failure; returns true when it answered. */
+  function scriptedFailure(res, fixture) {
+    if (!fixture.status || fixture.status < 400) return false
+    const headers = fixture.retry_after !== undefined ? { 'Retry-After': String(fixture.retry_after) } : {}
+    sendJson(res, fixture.status, { detail: fixture.error || `Mock error ${fixture.status}` }, headers)
+    return true
+  }
+
+  // ── Inference ──────────────────────────────────────────────────────────────
+
+  async function inference(req, res, stream) {
+    const body = await readJson(req)
+    if (!body.message || !body.agent_id) {
+      return sendJson(res, 422, { detail: 'message and agent_id are required' })
+    }
+    const request = { ...body, run_id: randomUUID() }
+    const fixture = fixtureFor(body.message)
+
+    emitEvent(request, 'in_progress', 'llm_generation', 'Generating a response')
+    if (fixture.delay_ms) await sleep(fixture.delay_ms)
+    if (scriptedFailure(res, fixture)) {
+      emitEvent(request, 'failed', 'llm_generation', fixture.error || 'Generation failed')
+      return
+    }
+    emitEvent(request, 'in_progress', 'thinking_log', `Thinking about: ${body.message}`)
+
+    const answer = answerText(fixture)
+    if (!stream) {
+      sendJson(res, 200, { response: answer, module_outputs: {}, session_id: body.session_id })
+    } else {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' })
+      for (const chunk of answer.match(/[\s\S]{1,16}/g) ?? []) {
+        if (res.destroyed) return
+        res.write(sseData(chunk))
+        if (fixture.chunk_delay_ms) await sleep(fixture.chunk_delay_ms)
+      }
+      res.end(sseData('[DONE]'))
+    }
+    emitEvent(request, 'completed', 'llm_generation', 'Response generated')
+  }
+
+  // ── Assets & RAG ───────────────────────────────────────────────────────────
+
+  async function uploadAssets(req, res) {
+    const form = await readFormData(req)
+    const files = form.getAll('files').filter((file) => typeof file !== 'string')
+    const results = files.map((file) => ({ asset_id: `asset-${randomUUID()}`, file_name: file.name, success: true }))
+    sendJson(res, 200, {
+      results,
+      total_files: files.length,
+      successful_uploads: files.length,
+      failed_uploads: 0,
+    })
+  }
+
+  function documentsOf(ragId) {
+    if (!state.documents.has(ragId)) state.documents.set(ragId, new Set())
+    return state.documents.get(ragId)
+  }
+
+  async function train(req, res, url) {
+    const ragId = url.searchParams.get('rag_id')
+    if (!ragId) return sendJson(res, 422, { detail: 'rag_id is required' })
+    const file = (await readFormData(req)).get('file')
+    if (!file || typeof file === 'string') return sendJson(res, 422, { detail: 'file is required' })
+    documentsOf(ragId).add(`storage/${file.name}`)
+    sendJson(res, 200, { success: true, document_count: Math.max(1, Math.ceil(file.size / 1000)) })
+  }
+
+  async function deleteDocuments(req, res, ragId) {
+    const names = await readJson(req)
+    if (!Array.isArray(names)) return sendJson(res, 422, { detail: 'Body must be an array of file names' })
+    const docs = documentsOf(ragId)
+    for (const path of Array.from(docs)) {
+      if (names.includes(path) || names.includes(path.split('/').pop())) docs.delete(path)
+    }
+    sendJson(res, 200, { success: true })
+  }
+
+  async function crawl(req, res) {
+    const { url, rag_id: ragId } = await readJson(req)
+    if (!url || !ragId) return sendJson(res, 422, { detail: 'url and rag_id are required' })
+    documentsOf(ragId).add(`storage/${new URL(url).hostname}.txt`)
+    sendJson(res, 200, { status: 'started' })
+  }
+
+  // ── Scheduler ──────────────────────────────────────────────────────────────
+
+  function findSchedule(res, id) {
+    const schedule = state.schedules.get(id)
+    if (!schedule) sendJson(res, 404, { detail: 'Schedule not found' })
+    return schedule
+  }
+
+  function page(items, url) {
+    const skip = Number(url.searchParams.get('skip') || 0)
+    const limit = Number(url.searchParams.get('limit') || 50)
+    return items.slice(skip, skip + limit)
+  }
+
+  async function createSchedule(req, res) {
+    const body = await readJson(req)
+    if (!body.agent_id || !body.cron_expression || !body.message || !body.user_id) {
+      return sendJson(res, 422, { detail: 'agent_id, cron_expression, message and user_id are required' })
+    }
+    const schedule = {
+      id: randomUUID(),
+      user_id: body.user_id,
+      agent_id: body.agent_id,
+      message: body.message,
+      cron_expression: body.cron_expression,
+      timezone: body.timezone || 'UTC',
+      max_retries: body.max_retries ?? 3,
+      retry_delay: body.retry_delay ?? 300,
+      is_active: true,
+      created_at: now(),
+      updated_at: now(),
+      next_run_time: null,
+      last_run_at: null,
+      last_run_success: null,
+    }
+    state.schedules.set(schedule.id, schedule)
+    sendJson(res, 201, schedule)
+  }
+
+  function setActive(res, schedule, active) {
+    if (schedule.is_active === active) {
+      return sendJson(res, 400, { detail: `Schedule is already ${active ? 'active' : 'paused'}` })
+    }
+    Object.assign(schedule, { is_active: active, updated_at: now() })
+    sendJson(res, 200, schedule)
+  }
+
+  function trigger(res, schedule) {
+    const fixture = fixtureFor(schedule.message)
+    const failed = !!fixture.status && fixture.status >= 400
+    const execution = {
+      id: randomUUID(),
+      schedule_id: schedule.id,
+      agent_id: schedule.agent_id,
+      user_id: schedule.user_id,
+      session_id: `${schedule.agent_id}-${randomUUID().slice(0, 12)}`,
+      executed_at: now(),
+      attempt: 1,
+      max_attempts: schedule.max_retries + 1,
+      success: !failed,
+      payload_message: schedule.message,
+      response_status: failed ? fixture.status : 200,
+      response_output: failed ? '' : answerText(fixture),
+      error_message: failed ? fixture.error || `Mock error ${fixture.status}` : null,
+    }
+    state.executions.unshift(execution)
+    Object.assign(schedule, { last_run_at: execution.executed_at, last_run_success: execution.success })
+    res.writeHead(202, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify('Schedule triggered'))
+  }
+
+  function recentExecutions(res, url) {
+    const agentId = url.searchParams.get('agent_id')
+    const success = url.searchParams.get('success')
+    const hours = Number(url.searchParams.get('hours') || 0) + Number(url.searchParams.get('days') || 0) * 24
+    const since = hours > 0 ? Date.now() - hours * 3600_000 : 0
+    const executions = state.executions.filter(
+      (e) =>
+        (!agentId || e.agent_id === agentId) &&
+        (success === null || String(e.success) === success) &&
+        Date.parse(e.executed_at) >= since
+    )
+    sendJson(res, 200, { executions: page(executions, url), total: executions.length })
+  }
+
+  async function scheduler(req, res, url, parts) {
+    const [, id, sub] = parts
+    const method = req.method
+
+    if (!id && method === 'GET') {
+      const userId = url.searchParams.get('user_id')
+      const agentId = url.searchParams.get('agent_id')
+      const active = url.searchParams.get('is_active')
+      const schedules = Array.from(state.schedules.values()).filter(
+        (s) => (!userId || s.user_id === userId) && (!agentId || s.agent_id === agentId) && (active === null || String(s.is_active) === active)
+      )
+      return sendJson(res, 200, { schedules: page(schedules, url), total: schedules.length })
+    }
+    if (!id && method === 'POST') return createSchedule(req, res)
+    if (id === 'executions' && sub === 'recent') return recentExecutions(res, url)
+    if (id === 'by-agent' && sub) {
+      const schedules = Array.from(state.schedules.values()).filter((s) => s.agent_id === sub)
+      return sendJson(res, 200, { agent_id: sub, schedules, webhooks: [] })
+    }
+
+    const schedule = findSchedule(res, id)
+    if (!schedule) return
+    if (!sub && method === 'GET') return sendJson(res, 200, schedule)
+    if (!sub && method === 'DELETE') {
+      state.schedules.delete(id)
+      res.writeHead(204)
+      return res.end()
+    }
+    if (sub === 'logs' && method === 'GET') {
+      const executions = state.executions.filter((e) => e.schedule_id === id)
+      return sendJson(res, 200, { executions: page(executions, url), total: executions.length })
+    }
+    if (sub === 'pause' && method === 'POST') return setActive(res, schedule, false)
+    if (sub === 'resume' && method === 'POST') return setActive(res, schedule, true)
+    if (sub === 'trigger' && method === 'POST') return trigger(res, schedule)
+    sendJson(res, 404, { detail: 'Not found' })
+  }
+
+  // ── Routing ────────────────────────────────────────────────────────────────
+
+  async function route(req, res) {
+    const url = new URL(req.url, 'http://mock.local')
+    const parts = url.pathname.split('/').filter(Boolean)
+    const path = `/${parts.join('/')}`
+
+    if (apiKey ? req.headers['x-api-key'] !== apiKey : !req.headers['x-api-key']) {
+      return sendJson(res, 401, { detail: 'Invalid or missing API key' })
+    }
+
+    if (req.method === 'POST' && path === '/v3/inference/chat') return inference(req, res, false)
+    if (req.method === 'POST' && path === '/v3/inference/stream') return inference(req, res, true)
+    if (req.method === 'POST' && path === '/v3/assets/upload') return uploadAssets(req, res)
+    if (req.method === 'GET' && parts[0] === 'v3' && parts[1] === 'rag' && parts[2] === 'documents' && parts[3]) {
+      return sendJson(res, 200, Array.from(documentsOf(decodeURIComponent(parts[3]))))
+    }
+    if (req.method === 'POST' && parts[0] === 'v3' && parts[1] === 'train' && parts[2]) return train(req, res, url)
+    if (req.method === 'DELETE' && parts[0] === 'v3' && parts[1] === 'rag' && parts[3] === 'docs') {
+      return deleteDocuments(req, res, decodeURIComponent(parts[2]))
+    }
+    if (req.method === 'POST' && path === '/api/v1/rag/crawl') return crawl(req, res)
+    if (parts[0] === 'schedules') return scheduler(req, res, url, parts)
+    sendJson(res, 404, { detail: `No mock for ${req.method} ${url.pathname}` })
+  }
+
+  const server = createServer((req, res) => {
+    res.on('finish', () => log(`${req.method} ${req.url} → ${res.statusCode}`))
+    route(req, res).catch((error) => {
+      if (!res.headersSent) sendJson(res, 500, { detail: error.message })
+      else res.end()
+    })
+  })
+
+  // ── Session events ─────────────────────────────────────────────────────────
+
+  const wss = new WebSocketServer({ noServer: true })
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url, 'http://mock.local')
+    const [prefix, sessionId] = url.pathname.split('/').filter(Boolean)
+    const key = url.searchParams.get('x-api-key')
+    if (prefix !== 'session' || !sessionId || (apiKey ? key !== apiKey : !key)) {
+      socket.destroy()
+      return
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const id = decodeURIComponent(sessionId)
+      if (!sockets.has(id)) sockets.set(id, new Set())
+      sockets.get(id).add(ws)
+      ws.on('close', () => sockets.get(id)?.delete(ws))
+    })
+  })
+
+  return new Promise((ready, fail) => {
+    server.once('error', fail)
+    server.listen(options.port ?? DEFAULT_PORT, () => {
+      const { port } = server.address()
+      ready({
+        url: `http://localhost:${port}`,
+        reset,
+        close: () =>
+          new Promise((done) => {
+            wss.clients.forEach((ws) => ws.terminate())
+            server.closeAllConnections?.()
+            server.close(() => done())
+          }),
+      })
+    })
+  })
+}
+
+// ---------------------------------------------------------------------------
+// CLI
+// ---------------------------------------------------------------------------
+
+function argValue(name) {
+  const index = process.argv.indexOf(name)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+async function main() {
+  const fixturesFile = argValue('--fixtures') ?? process.env.MOCK_LYZR_FIXTURES
+  const fixtures = fixturesFile ? JSON.parse(readFileSync(resolve(fixturesFile), 'utf8')) : undefined
+  const port = Number(argValue('--port') ?? process.env.MOCK_LYZR_PORT ?? DEFAULT_PORT)
+
+  const { url } = await startMockLyzrServer({ port, fixtures, log: (line) => console.log(line) })
+  console.log(`Mock Lyzr server listening on ${url}`)
+  console.log(`Start the app with LYZR_BASE_URL=${url} and any LYZR_API_KEY`)
+}
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main().catch((error) => {
+    console.error(error.message)
+    process.exit(1)
+  })
+}
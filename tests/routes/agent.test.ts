@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/agent/route'
+import { DEFAULT_AGENT_ID } from '@/lib/agentRegistry'
+import { USER_ID_HEADER, USER_NAME_HEADER } from '@/lib/authSession'
+import { resetCircuitBreakers } from '@/lib/resilientFetch'
+
+function post(body: unknown) {
+  return POST(
+    new NextRequest('http://localhost/api/agent', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', [USER_ID_HEADER]: 'user-1', [USER_NAME_HEADER]: 'alice' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    })
+  )
+}
+
+let messages: string[]
+
+beforeEach(() => {
+  resetCircuitBreakers()
+  messages = []
+  // The first answer misses the schema's required `response`; a re-ask fixes it
+  vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+    messages.push(JSON.parse(String(init.body)).message)
+    const answer = messages.length === 1 ? { reply: 'wrong shape' } : { response: 'right shape' }
+    return new Response(JSON.stringify({ response: answer }), { status: 200 })
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('POST /api/agent schema repair', () => {
+  it('reports a non-conforming reply without re-asking by default', async () => {
+    const response = await post({ message: 'hi', agent_id: DEFAULT_AGENT_ID, session_id: 'repair-1' })
+    const result = await response.json()
+
+    expect(messages).toEqual(['hi'])
+    expect(result.validation).toMatchObject({ valid: false })
+    expect(result.validation.repaired).toBeUndefined()
+  })
+
+  it('re-asks once when the caller opts in', async () => {
+    const response = await post({ message: 'hi', agent_id: DEFAULT_AGENT_ID, session_id: 'repair-2', repair: true })
+    const result = await response.json()
+
+    expect(messages).toHaveLength(2)
+    expect(result.response.result).toEqual({ text: 'right shape' })
+    expect(result.validation).toMatchObject({ valid: true, repaired: true })
+  })
+})
+
+describe('POST /api/agent request validation', () => {
+  it.each([
+    ['malformed JSON', '{"message": '],
+    ['a JSON value that is not an object', '"hi"'],
+  ])('answers %s with 400 without calling upstream', async (_case, body) => {
+    const response = await post(body)
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ success: false, error: 'Request body must be a JSON object' })
+    expect(messages).toEqual([])
+  })
+
+  it('requires a message and an agent id', async () => {
+    expect((await post({ message: 'hi' })).status).toBe(400)
+  })
+})
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from '@/app/api/agent-events/stream/route'
+import { claimSession, issueEventsTicket } from '@/lib/sessionAuth'
+import { USER_ID_HEADER, USER_NAME_HEADER } from '@/lib/authSession'
+
+// The relay would open a WebSocket to Lyzr
+vi.mock('@/lib/agentEventsRelay', () => ({ subscribeToSession: vi.fn(() => () => {}) }))
+
+function stream(sessionId: string, ticket: string, user: string | null) {
+  const headers: Record<string, string> = {}
+  if (user) {
+    headers[USER_ID_HEADER] = user
+    headers[USER_NAME_HEADER] = user
+  }
+  const query = new URLSearchParams({ session_id: sessionId, ticket })
+  return GET(new NextRequest(`http://localhost/api/agent-events/stream?${query}`, { headers }))
+}
+
+describe('GET /api/agent-events/stream', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('streams events to the user the ticket was issued to', async () => {
+    await claimSession('events-1', 'alice')
+    const response = await stream('events-1', issueEventsTicket('events-1', 'alice'), 'alice')
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream')
+    await response.body?.cancel()
+  })
+
+  it('refuses a ticket presented by another signed-in user', async () => {
+    await claimSession('events-2', 'alice')
+    const response = await stream('events-2', issueEventsTicket('events-2', 'alice'), 'mallory')
+    expect(response.status).toBe(403)
+    expect(await response.json()).toEqual({ success: false, error: 'Ticket was issued to another user' })
+  })
+
+  it('requires a signed-in user and a valid ticket', async () => {
+    await claimSession('events-3', 'alice')
+    const ticket = issueEventsTicket('events-3', 'alice')
+    expect((await stream('events-3', ticket, null)).status).toBe(401)
+    expect((await stream('events-3', `${ticket}x`, 'alice')).status).toBe(401)
+    expect((await stream('other-session', ticket, 'alice')).status).toBe(401)
+  })
+
+  it('fails closed when no signing secret is configured', async () => {
+    await claimSession('events-4', 'alice')
+    const ticket = issueEventsTicket('events-4', 'alice')
+    vi.stubEnv('LYZR_API_KEY', '')
+    vi.stubEnv('AGENT_EVENTS_SECRET', '')
+
+    expect(() => issueEventsTicket('events-4', 'alice')).toThrow('AGENT_EVENTS_SECRET is not configured')
+    const response = await stream('events-4', ticket, 'alice')
+    expect(response.status).toBe(500)
+  })
+})
@@ -0,0 +1,84 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/agent/route'
+import { callAIAgent, streamAIAgent } from '@/lib/aiAgent'
+import { DEFAULT_AGENT_ID } from '@/lib/agentRegistry'
+import { USER_ID_HEADER, USER_NAME_HEADER } from '@/lib/authSession'
+import { resetCircuitBreakers } from '@/lib/resilientFetch'
+import { startMockLyzrServer } from '../../scripts/mock-lyzr-server.mjs'
+
+/** LYZR_BASE_URL in vitest.config.ts; calls to it are sent to the mock server */
+const UPSTREAM = 'http://upstream.test'
+const realFetch = globalThis.fetch
+
+describe('streaming through /api/agent against the mock Lyzr server', () => {
+  let server: { url: string; close(): Promise<void> }
+  let upstreamCalls: string[]
+
+  beforeAll(async () => {
+    server = await startMockLyzrServer({ port: 0 })
+  })
+
+  afterAll(async () => {
+    await server.close()
+  })
+
+  beforeEach(() => {
+    resetCircuitBreakers()
+    upstreamCalls = []
+    // The browser's /api/agent calls go to the route handler, the route's upstream calls to the mock
+    vi.stubGlobal('fetch', async (input: string, init?: RequestInit) => {
+      if (input === '/api/agent') {
+        const headers = new Headers(init?.headers)
+        headers.set(USER_ID_HEADER, 'user-1')
+        headers.set(USER_NAME_HEADER, 'alice')
+        return POST(new NextRequest(`http://localhost${input}`, { ...init, headers } as any))
+      }
+      if (input.startsWith(UPSTREAM)) {
+        upstreamCalls.push(new URL(input).pathname)
+        return realFetch(server.url + input.slice(UPSTREAM.length), init)
+      }
+      return realFetch(input, init)
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('delivers the reply token by token, then the same payload as a buffered call', async () => {
+    const tokens: string[] = []
+    const streamed = await streamAIAgent('hello', DEFAULT_AGENT_ID, {
+      session_id: 'stream-session',
+      onToken: (text, accumulated) => tokens.push(accumulated),
+    })
+    expect(upstreamCalls).toContain('/v3/inference/stream/')
+
+    const reply = 'Hello! This reply comes from the mock Lyzr server.'
+    expect(tokens.length).toBeGreaterThan(1)
+    expect(tokens[tokens.length - 1]).toContain(reply)
+    expect(streamed).toMatchObject({ success: true, response: { status: 'success', result: { text: reply } } })
+
+    const buffered = await callAIAgent('hello', DEFAULT_AGENT_ID, { session_id: 'stream-session' })
+    expect(upstreamCalls).toContain('/v3/inference/chat/')
+    expect(streamed.response).toEqual(buffered.response)
+  })
+
+  it('answers a failed upstream with a JSON error instead of a stream', async () => {
+    const tokens: string[] = []
+    const result = await streamAIAgent('fail', DEFAULT_AGENT_ID, { onToken: (text) => tokens.push(text) })
+    expect(tokens).toEqual([])
+    expect(result.success).toBe(false)
+    expect(JSON.stringify(result)).toContain('Mock upstream failure')
+  })
+
+  it('reports a cancelled stream as cancelled', async () => {
+    const controller = new AbortController()
+    const result = await streamAIAgent('slow stream', DEFAULT_AGENT_ID, {
+      signal: controller.signal,
+      onToken: () => controller.abort(),
+    })
+    expect(result.success).toBe(false)
+    expect(result.response?.message).toMatch(/cancel/i)
+  })
+})
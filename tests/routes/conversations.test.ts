@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as list, POST as sync } from '@/app/api/conversations/route'
+import { DELETE as remove, GET as get, PUT as put } from '@/app/api/conversations/[id]/route'
+import { USER_ID_HEADER, USER_NAME_HEADER } from '@/lib/authSession'
+import type { Conversation } from '@/lib/conversations'
+
+// Each test uses its own user ids: the memory store is shared across the file
+let nextUser = 0
+function users() {
+  nextUser += 1
+  return { alice: `alice-${nextUser}`, bob: `bob-${nextUser}` }
+}
+
+function conversation(id: string, updatedAt: number, title = id, createdAt = 1): Conversation {
+  return {
+    id,
+    title,
+    sessionId: `session-${id}`,
+    messages: [{ id: 'm1', role: 'user', content: 'hi', timestamp: 1, parentId: null }],
+    createdAt,
+    updatedAt,
+  }
+}
+
+function request(url: string, user: string | null, init: { method?: string; body?: unknown } = {}) {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (user) {
+    headers[USER_ID_HEADER] = user
+    headers[USER_NAME_HEADER] = user
+  }
+  return new NextRequest(`http://localhost${url}`, {
+    method: init.method ?? 'GET',
+    headers,
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  })
+}
+
+const params = (id: string) => ({ params: { id } })
+
+describe('/api/conversations', () => {
+  it('requires a signed-in user', async () => {
+    expect((await list(request('/api/conversations', null))).status).toBe(401)
+    expect((await get(request('/api/conversations/c1', null), params('c1'))).status).toBe(401)
+  })
+
+  it('only lists and serves the caller\'s own conversations', async () => {
+    const { alice, bob } = users()
+    await put(request('/api/conversations/c1', alice, { method: 'PUT', body: { conversation: conversation('c1', 10) } }), params('c1'))
+
+    const own = await (await list(request('/api/conversations', alice))).json()
+    expect(own.conversations.map((c: Conversation) => c.id)).toEqual(['c1'])
+
+    expect((await (await list(request('/api/conversations', bob))).json()).conversations).toEqual([])
+    expect((await get(request('/api/conversations/c1', bob), params('c1'))).status).toBe(404)
+
+    // Deleting as another user leaves the owner's copy in place
+    await remove(request('/api/conversations/c1', bob, { method: 'DELETE' }), params('c1'))
+    expect((await get(request('/api/conversations/c1', alice), params('c1'))).status).toBe(200)
+  })
+
+  it('returns the newer server copy and flags a conflict on a stale PUT', async () => {
+    const { alice } = users()
+    const url = '/api/conversations/c1'
+    await put(request(url, alice, { method: 'PUT', body: { conversation: conversation('c1', 20, 'server') } }), params('c1'))
+
+    const response = await put(
+      request(url, alice, { method: 'PUT', body: { conversation: conversation('c1', 10, 'stale') } }),
+      params('c1')
+    )
+    expect(await response.json()).toMatchObject({ success: true, conflict: true, conversation: { title: 'server' } })
+  })
+
+  it('merges a sync with the stored conversations, newer copy winning', async () => {
+    const { alice } = users()
+    await sync(request('/api/conversations', alice, { method: 'POST', body: { conversations: [conversation('a', 20, 'server a')] } }))
+
+    const response = await sync(
+      request('/api/conversations', alice, {
+        method: 'POST',
+        body: { conversations: [conversation('a', 10, 'local a'), conversation('b', 30, 'local b', 2)] },
+      })
+    )
+    const { conversations } = await response.json()
+    expect(conversations.map((c: Conversation) => c.title)).toEqual(['local b', 'server a'])
+  })
+
+  it('answers 410 when a stale copy of a deleted conversation is written back', async () => {
+    const { alice } = users()
+    const url = '/api/conversations/c1'
+    await put(request(url, alice, { method: 'PUT', body: { conversation: conversation('c1', 10) } }), params('c1'))
+    await remove(request(url, alice, { method: 'DELETE' }), params('c1'))
+
+    const response = await put(request(url, alice, { method: 'PUT', body: { conversation: conversation('c1', 10) } }), params('c1'))
+    expect(response.status).toBe(410)
+  })
+
+  it.each([
+    ['a missing conversation', {}],
+    ['a conversation without messages', { conversation: { ...conversation('c1', 10), messages: undefined } }],
+    ['cyclic parent links', {
+      conversation: {
+        ...conversation('c1', 10),
+        messages: [
+          { id: 'x', role: 'user', content: 'x', timestamp: 1, parentId: 'y' },
+          { id: 'y', role: 'user', content: 'y', timestamp: 1, parentId: 'x' },
+        ],
+      },
+    }],
+  ])('rejects a PUT with %s', async (_case, body) => {
+    const { alice } = users()
+    const response = await put(request('/api/conversations/c1', alice, { method: 'PUT', body }), params('c1'))
+    expect(response.status).toBe(400)
+  })
+
+  it('rejects a PUT whose id does not match the URL', async () => {
+    const { alice } = users()
+    const response = await put(
+      request('/api/conversations/other', alice, { method: 'PUT', body: { conversation: conversation('c1', 10) } }),
+      params('other')
+    )
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toBe('conversation.id does not match the URL')
+  })
+
+  it('rejects a sync without an array or with malformed entries, storing nothing', async () => {
+    const { alice } = users()
+    expect((await sync(request('/api/conversations', alice, { method: 'POST', body: {} }))).status).toBe(400)
+
+    const response = await sync(
+      request('/api/conversations', alice, {
+        method: 'POST',
+        body: { conversations: [conversation('good', 10), { id: 'bad' }] },
+      })
+    )
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toBe('1 conversation(s) are malformed')
+    expect((await (await list(request('/api/conversations', alice))).json()).conversations).toEqual([])
+  })
+})
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { DELETE, GET, POST } from '@/app/api/scheduler/route'
+import { resetCircuitBreakers } from '@/lib/resilientFetch'
+import { USER_ID_HEADER, USER_NAME_HEADER } from '@/lib/authSession'
+
+const UPSTREAM = 'http://upstream.test/schedules'
+
+const SCHEDULE = {
+  id: 's1',
+  user_id: 'user-1',
+  agent_id: 'agent-1',
+  message: 'Daily digest',
+  cron_expression: '0 9 * * *',
+  timezone: 'UTC',
+  is_active: true,
+}
+
+type Handler = (url: string, init: RequestInit) => Response
+
+/** Upstream calls as "METHOD url", answered by the first handler whose key matches */
+let calls: string[]
+let handlers: Record<string, Handler>
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+function request(method: string, path: string, body?: unknown, userId: string | null = 'user-1') {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (userId) {
+    headers[USER_ID_HEADER] = userId
+    headers[USER_NAME_HEADER] = 'alice'
+  }
+  return new NextRequest(`http://localhost${path}`, {
+    method,
+    headers,
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  })
+}
+
+beforeEach(() => {
+  calls = []
+  handlers = {}
+  resetCircuitBreakers()
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (url: string, init: RequestInit = {}) => {
+      const call = `${init.method ?? 'GET'} ${url}`
+      calls.push(call)
+      const key = Object.keys(handlers).find((prefix) => call.startsWith(prefix))
+      return key ? handlers[key](url, init) : json({ detail: 'Not Found' }, 404)
+    })
+  )
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('GET /api/scheduler', () => {
+  it('requires a signed-in user', async () => {
+    const response = await GET(request('GET', '/api/scheduler', undefined, null))
+    expect(response.status).toBe(401)
+    expect(calls).toEqual([])
+  })
+
+  it("lists only the caller's schedules", async () => {
+    handlers[`GET ${UPSTREAM}/?`] = () => json({ schedules: [SCHEDULE], total: 1 })
+    const response = await GET(request('GET', '/api/scheduler?action=list&user_id=someone-else'))
+    expect(await response.json()).toEqual({ success: true, schedules: [SCHEDULE], total: 1 })
+    expect(calls).toEqual([`GET ${UPSTREAM}/?user_id=user-1`])
+  })
+
+  it("hides another user's schedule", async () => {
+    handlers[`GET ${UPSTREAM}/s1`] = () => json({ ...SCHEDULE, user_id: 'user-2' })
+    const response = await GET(request('GET', '/api/scheduler?action=get&scheduleId=s1'))
+    expect(response.status).toBe(404)
+    expect(await response.json()).toEqual({ success: false, error: 'Schedule not found' })
+  })
+
+  it('returns logs for an owned schedule with paging', async () => {
+    handlers[`GET ${UPSTREAM}/s1/logs`] = () => json({ executions: [{ id: 'e1', success: true }], total: 1 })
+    handlers[`GET ${UPSTREAM}/s1`] = () => json(SCHEDULE)
+    const response = await GET(request('GET', '/api/scheduler?action=logs&scheduleId=s1&skip=20&limit=10'))
+    expect(await response.json()).toEqual({ success: true, executions: [{ id: 'e1', success: true }], total: 1 })
+    expect(calls).toContain(`GET ${UPSTREAM}/s1/logs?skip=20&limit=10`)
+  })
+
+  it('passes upstream errors through with their status', async () => {
+    handlers[`GET ${UPSTREAM}/?`] = () => new Response('boom', { status: 503 })
+    const response = await GET(request('GET', '/api/scheduler'))
+    expect(response.status).toBe(503)
+    expect(await response.json()).toEqual({ success: false, error: 'Scheduler API error: 503', details: 'boom' })
+  })
+})
+
+describe('POST /api/scheduler', () => {
+  it('creates a schedule owned by the caller', async () => {
+    handlers[`POST ${UPSTREAM}/`] = (_url, init) => json({ ...JSON.parse(init.body as string), id: 's2' }, 201)
+    const response = await POST(
+      request('POST', '/api/scheduler', {
+        action: 'create',
+        agent_id: 'agent-1',
+        cron_expression: '0 9 * * *',
+        message: 'hi',
+        user_id: 'someone-else',
+      })
+    )
+    expect(await response.json()).toMatchObject({ success: true, id: 's2', user_id: 'user-1', timezone: 'UTC', max_retries: 3 })
+  })
+
+  it('validates the create fields', async () => {
+    const response = await POST(request('POST', '/api/scheduler', { action: 'create', agent_id: 'agent-1' }))
+    expect(response.status).toBe(400)
+    expect(calls).toEqual([])
+  })
+
+  it('pauses an owned schedule', async () => {
+    handlers[`GET ${UPSTREAM}/s1`] = () => json(SCHEDULE)
+    handlers[`POST ${UPSTREAM}/s1/pause`] = () => json({ ...SCHEDULE, is_active: false })
+    const response = await POST(request('POST', '/api/scheduler', { action: 'pause', scheduleId: 's1' }))
+    expect(await response.json()).toMatchObject({ success: true, is_active: false })
+  })
+
+  it('returns the upstream detail when a schedule is already paused', async () => {
+    handlers[`GET ${UPSTREAM}/s1`] = () => json(SCHEDULE)
+    handlers[`POST ${UPSTREAM}/s1/pause`] = () => json({ detail: 'Schedule is already paused' }, 400)
+    const response = await POST(request('POST', '/api/scheduler', { action: 'pause', scheduleId: 's1' }))
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'Scheduler API error: 400',
+      details: '{"detail":"Schedule is already paused"}',
+    })
+  })
+
+  it("does not trigger another user's schedule", async () => {
+    handlers[`GET ${UPSTREAM}/s1`] = () => json({ ...SCHEDULE, user_id: 'user-2' })
+    const response = await POST(request('POST', '/api/scheduler', { action: 'trigger', scheduleId: 's1' }))
+    expect(response.status).toBe(404)
+    expect(calls).toEqual([`GET ${UPSTREAM}/s1`])
+  })
+
+  it('reports an accepted trigger', async () => {
+    handlers[`GET ${UPSTREAM}/s1`] = () => json(SCHEDULE)
+    handlers[`POST ${UPSTREAM}/s1/trigger`] = () => new Response('"accepted"', { status: 202 })
+    const response = await POST(request('POST', '/api/scheduler', { action: 'trigger', scheduleId: 's1' }))
+    expect(await response.json()).toEqual({ success: true, message: 'Schedule triggered successfully' })
+  })
+
+  it('acts on the same encoded schedule id it checked', async () => {
+    const encoded = `${UPSTREAM}/s1%2F..%2Fs2`
+    handlers[`GET ${encoded}`] = () => json(SCHEDULE)
+    handlers[`POST ${encoded}/pause`] = () => json({ ...SCHEDULE, is_active: false })
+    const response = await POST(request('POST', '/api/scheduler', { action: 'pause', scheduleId: 's1/../s2' }))
+    expect(response.status).toBe(200)
+    expect(calls).toEqual([`GET ${encoded}`, `POST ${encoded}/pause`])
+  })
+})
+
+describe('DELETE /api/scheduler', () => {
+  it('deletes an owned schedule', async () => {
+    handlers[`GET ${UPSTREAM}/s1`] = () => json(SCHEDULE)
+    handlers[`DELETE ${UPSTREAM}/s1`] = () => new Response(null, { status: 204 })
+    const response = await DELETE(request('DELETE', '/api/scheduler', { scheduleId: 's1' }))
+    expect(await response.json()).toEqual({ success: true, message: 'Schedule deleted successfully', scheduleId: 's1' })
+    expect(calls).toEqual([`GET ${UPSTREAM}/s1`, `DELETE ${UPSTREAM}/s1`])
+  })
+
+  it('requires a schedule id', async () => {
+    const response = await DELETE(request('DELETE', '/api/scheduler', {}))
+    expect(response.status).toBe(400)
+  })
+
+  it("refuses another user's schedule", async () => {
+    handlers[`GET ${UPSTREAM}/s1`] = () => json({ ...SCHEDULE, user_id: 'user-2' })
+    const response = await DELETE(request('DELETE', '/api/scheduler', { scheduleId: 's1' }))
+    expect(response.status).toBe(404)
+    expect(calls).not.toContain(`DELETE ${UPSTREAM}/s1`)
+  })
+
+  it('deletes the same encoded schedule id it checked', async () => {
+    const encoded = `${UPSTREAM}/s1%3Fforce%3Dtrue`
+    handlers[`GET ${encoded}`] = () => json(SCHEDULE)
+    handlers[`DELETE ${encoded}`] = () => new Response(null, { status: 204 })
+    const response = await DELETE(request('DELETE', '/api/scheduler', { scheduleId: 's1?force=true' }))
+    expect(response.status).toBe(200)
+    expect(calls).toEqual([`GET ${encoded}`, `DELETE ${encoded}`])
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/share/route'
+import { getShareStore } from '@/lib/shareStore'
+import { USER_ID_HEADER, USER_NAME_HEADER } from '@/lib/authSession'
+import type { ChatMessage, Conversation } from '@/lib/conversations'
+
+function message(id: string, parentId: string | null): ChatMessage {
+  return { id, role: 'user', content: id, timestamp: 1, parentId }
+}
+
+function conversation(messages: ChatMessage[], activeLeafId?: string): Conversation {
+  return { id: 'c1', title: 'Shared', sessionId: 'secret-session', messages, createdAt: 1, updatedAt: 2, activeLeafId }
+}
+
+function post(body: unknown) {
+  return POST(
+    new NextRequest('http://localhost/api/share', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', [USER_ID_HEADER]: 'user-1', [USER_NAME_HEADER]: 'alice' },
+      body: JSON.stringify(body),
+    })
+  )
+}
+
+describe('POST /api/share', () => {
+  it('snapshots the displayed branch without the session id', async () => {
+    const convo = conversation([message('a', null), message('b', 'a'), message('c', 'a')], 'b')
+    const response = await post({ conversation: convo })
+    expect(response.status).toBe(200)
+    const { share } = await response.json()
+
+    const stored = await getShareStore().get(share.id)
+    expect(stored?.conversation.messages.map((m) => m.id)).toEqual(['a', 'b'])
+    expect(stored?.conversation.sessionId).toBe('')
+  })
+
+  it.each([
+    ['cyclic parent links', [message('a', 'b'), message('b', 'a')]],
+    ['a self-parented message', [message('a', 'a')]],
+    ['a parent that does not exist', [message('a', null), message('b', 'missing')]],
+  ])('rejects %s', async (_case, messages) => {
+    const response = await post({ conversation: conversation(messages, 'a') })
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ success: false, error: 'A valid conversation is required' })
+  })
+
+  it('never stores a snapshot of a broken tree', async () => {
+    await expect(
+      getShareStore().create('user-1', conversation([message('a', 'b'), message('b', 'a')]), null)
+    ).rejects.toThrow('must form a tree')
+  })
+})
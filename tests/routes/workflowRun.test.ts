@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/workflow/run/route'
+import { USER_ID_HEADER, USER_NAME_HEADER } from '@/lib/authSession'
+import { claimSession } from '@/lib/sessionAuth'
+
+function request(body: unknown) {
+  return new NextRequest('http://localhost/api/workflow/run', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [USER_ID_HEADER]: 'user-1', [USER_NAME_HEADER]: 'alice' },
+    body: JSON.stringify(body),
+  })
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('POST /api/workflow/run', () => {
+  it('refuses posted graphs that use the matches operator', async () => {
+    const fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+    const workflow = {
+      nodes: [
+        { id: 'in', type: 'Input', label: 'Input' },
+        { id: 'a', type: 'Agent', label: 'A', agent_id: 'agent-1' },
+      ],
+      edges: [{ source: 'in', target: 'a', condition: { operator: 'matches', value: '^(a+)+$' } }],
+    }
+
+    const response = await POST(request({ message: 'hi', workflow }))
+    expect(response.status).toBe(400)
+    await expect(response.json()).resolves.toEqual({
+      success: false,
+      error: 'the matches operator is only available in the bundled workflow',
+    })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('reports duplicate node ids in a posted graph', async () => {
+    const workflow = {
+      nodes: [
+        { id: 'in', type: 'Input', label: 'Input' },
+        { id: 'in', type: 'Input', label: 'Input again' },
+      ],
+      edges: [],
+    }
+    const response = await POST(request({ message: 'hi', workflow }))
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toBe('Workflow has more than one node with id "in"')
+  })
+
+  it('refuses a session id whose per-node sessions belong to another user', async () => {
+    const fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+    expect(await claimSession('victim-session-a', 'user-2')).toBe(true)
+    const workflow = {
+      nodes: [
+        { id: 'in', type: 'Input', label: 'Input' },
+        { id: 'a', type: 'Agent', label: 'A', agent_id: 'agent-1' },
+      ],
+      edges: [{ source: 'in', target: 'a' }],
+    }
+
+    const response = await POST(request({ message: 'hi', session_id: 'victim-session', workflow }))
+    expect(response.status).toBe(403)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { spawnSync } from 'child_process'
+import { cpSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import os from 'os'
+import path from 'path'
+import { generateAgentClients } from '../../scripts/generate-agent-clients.mjs'
+
+const REPO = path.resolve(__dirname, '../..')
+const GENERATED = path.join('lib', 'agentClients.generated.ts')
+
+describe('generate-agent-clients --check', () => {
+  // A copy of the script resolves response_schemas/ and lib/ next to itself
+  let root: string
+
+  const run = (...args: string[]) =>
+    spawnSync(process.execPath, [path.join(root, 'scripts', 'generate-agent-clients.mjs'), ...args], {
+      encoding: 'utf8',
+      timeout: 30_000,
+    })
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(os.tmpdir(), 'agent-clients-'))
+    cpSync(path.join(REPO, 'scripts', 'generate-agent-clients.mjs'), path.join(root, 'scripts', 'generate-agent-clients.mjs'))
+    cpSync(path.join(REPO, 'response_schemas'), path.join(root, 'response_schemas'), { recursive: true })
+    cpSync(path.join(REPO, GENERATED), path.join(root, GENERATED))
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('passes for the checked-in generated file', () => {
+    const result = run('--check')
+    expect(result.stderr).toBe('')
+    expect(result.status).toBe(0)
+  })
+
+  it('fails without writing when a schema changed, until the file is regenerated', () => {
+    const schemaFile = path.join(root, 'response_schemas', 'chat_agent_response.json')
+    const schema = JSON.parse(readFileSync(schemaFile, 'utf8'))
+    schema.response_schema = { ...schema.response_schema, mood: 'string' }
+    writeFileSync(schemaFile, JSON.stringify(schema))
+    const before = readFileSync(path.join(root, GENERATED), 'utf8')
+
+    const stale = run('--check')
+    expect(stale.status).toBe(1)
+    expect(stale.stderr).toContain('lib/agentClients.generated.ts is out of date')
+    expect(readFileSync(path.join(root, GENERATED), 'utf8')).toBe(before)
+
+    expect(run().status).toBe(0)
+    expect(readFileSync(path.join(root, GENERATED), 'utf8')).toContain('mood')
+    expect(run('--check').status).toBe(0)
+  })
+
+  it('fails when the generated file is missing', () => {
+    rmSync(path.join(root, GENERATED))
+    expect(run('--check').status).toBe(1)
+  })
+})
+
+describe('generateAgentClients', () => {
+  it('treats every shorthand field as required', () => {
+    const source = generateAgentClients([
+      { agent_name: 'Mood Agent', agent_id: 'a1', response_schema: { mood: 'string', tags: 'string[]' } },
+    ])
+    expect(source).toContain("export const MOOD_AGENT_ID = 'a1'")
+    expect(source).toContain('export interface MoodAgentResult {')
+    expect(source).toMatch(/mood: string\n/)
+    expect(source).toMatch(/tags: string\[\]\n/)
+  })
+
+  it('refuses two agents that map to the same name', () => {
+    const file = { agent_name: 'Mood agent', agent_id: 'a1', response_schema: { mood: 'string' } }
+    expect(() => generateAgentClients([file, { ...file, agent_name: 'mood-agent', agent_id: 'a2' }])).toThrow(
+      'Two response schemas map to the same name "MoodAgent"'
+    )
+  })
+})
@@ -0,0 +1,64 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { startMockLyzrServer } from '../../scripts/mock-lyzr-server.mjs'
+import { migrateSchedules } from '../../scripts/migrate-schedules.mjs'
+
+const API_KEY = 'legacy-key'
+
+describe('migrateSchedules', () => {
+  let server: { url: string; reset(): void; close(): Promise<void> }
+
+  async function call(method: string, path: string, body?: unknown) {
+    const response = await fetch(`${server.url}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'x-api-key': API_KEY },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    })
+    return response.status === 204 ? null : response.json()
+  }
+
+  const schedule = (user_id: string, message: string) => ({
+    agent_id: 'agent-1',
+    cron_expression: '0 9 * * *',
+    message,
+    timezone: 'Europe/Berlin',
+    user_id,
+  })
+
+  beforeAll(async () => {
+    server = await startMockLyzrServer({ port: 0, fixtures: {} })
+  })
+
+  afterAll(async () => {
+    await server.close()
+  })
+
+  beforeEach(() => {
+    server.reset()
+  })
+
+  it('re-creates legacy schedules under the account and deletes the originals', async () => {
+    await call('POST', '/schedules/', schedule(API_KEY, 'active one'))
+    const paused = await call('POST', '/schedules/', schedule(API_KEY, 'paused one'))
+    await call('POST', `/schedules/${paused.id}/pause`)
+    await call('POST', '/schedules/', schedule('someone', 'not legacy'))
+
+    const result = await migrateSchedules({ baseUrl: server.url, apiKey: API_KEY, toUserId: 'user-1' })
+    expect(result.migrated).toHaveLength(2)
+    expect(result.failed).toEqual([])
+
+    expect((await call('GET', `/schedules/?user_id=${API_KEY}`)).schedules).toEqual([])
+    const owned = (await call('GET', '/schedules/?user_id=user-1')).schedules
+    expect(owned.map((s: any) => [s.message, s.is_active, s.timezone]).sort()).toEqual([
+      ['active one', true, 'Europe/Berlin'],
+      ['paused one', false, 'Europe/Berlin'],
+    ])
+    expect((await call('GET', '/schedules/?user_id=someone')).schedules).toHaveLength(1)
+  })
+
+  it('changes nothing on a dry run', async () => {
+    await call('POST', '/schedules/', schedule(API_KEY, 'legacy'))
+    const result = await migrateSchedules({ baseUrl: server.url, apiKey: API_KEY, toUserId: 'user-1', dryRun: true })
+    expect(result.migrated).toHaveLength(1)
+    expect((await call('GET', `/schedules/?user_id=${API_KEY}`)).schedules).toHaveLength(1)
+  })
+})
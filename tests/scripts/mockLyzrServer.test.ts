@@ -0,0 +1,126 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { WebSocket } from 'ws'
+import { startMockLyzrServer } from '../../scripts/mock-lyzr-server.mjs'
+
+const API_KEY = 'mock-key'
+
+const FIXTURES = {
+  '*': { reply: { response: 'Echo: {{message}}' } },
+  long: { reply: 'x'.repeat(40) },
+  busy: { status: 429, error: 'Slow down', retry_after: 2 },
+}
+
+describe('mock Lyzr server', () => {
+  let server: { url: string; reset(): void; close(): Promise<void> }
+
+  async function call(method: string, path: string, body?: unknown, key: string | null = API_KEY) {
+    return fetch(`${server.url}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...(key !== null && { 'x-api-key': key }) },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    })
+  }
+
+  const inference = (message: string, stream = false) =>
+    call('POST', `/v3/inference/${stream ? 'stream' : 'chat'}/`, { message, agent_id: 'agent-1', user_id: 'u1', session_id: 's1' })
+
+  beforeAll(async () => {
+    server = await startMockLyzrServer({ port: 0, fixtures: FIXTURES, apiKey: API_KEY })
+  })
+
+  afterAll(async () => {
+    await server.close()
+  })
+
+  beforeEach(() => {
+    server.reset()
+  })
+
+  it('rejects requests without the configured API key', async () => {
+    expect((await call('GET', '/schedules/', undefined, null)).status).toBe(401)
+    expect((await call('GET', '/schedules/', undefined, 'wrong')).status).toBe(401)
+  })
+
+  it('answers chat from the fixtures, filling in the message', async () => {
+    const response = await inference('hi there')
+    expect(await response.json()).toEqual({ response: '{"response":"Echo: hi there"}', module_outputs: {}, session_id: 's1' })
+    expect((await call('POST', '/v3/inference/chat/', { message: 'no agent' })).status).toBe(422)
+  })
+
+  it('streams the reply as SSE chunks ending in [DONE]', async () => {
+    const response = await inference('long', true)
+    expect(response.headers.get('content-type')).toBe('text/event-stream')
+    const events = (await response.text()).split('\n\n').filter(Boolean)
+    expect(events).toEqual([`data: ${'x'.repeat(16)}`, `data: ${'x'.repeat(16)}`, `data: ${'x'.repeat(8)}`, 'data: [DONE]'])
+  })
+
+  it('replays scripted failures with their status and Retry-After', async () => {
+    const response = await inference('busy')
+    expect(response.status).toBe(429)
+    expect(response.headers.get('retry-after')).toBe('2')
+    expect(await response.json()).toEqual({ detail: 'Slow down' })
+  })
+
+  it('publishes session events to WebSocket subscribers during inference', async () => {
+    const ws = new WebSocket(`${server.url.replace(/^http/, 'ws')}/session/s1?x-api-key=${API_KEY}`)
+    await new Promise((resolve, reject) => {
+      ws.once('open', resolve)
+      ws.once('error', reject)
+    })
+    const events: any[] = []
+    ws.on('message', (data) => events.push(JSON.parse(String(data))))
+
+    await (await inference('hi')).text()
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    ws.close()
+
+    expect(events.map((e) => [e.event_type, e.status])).toEqual([
+      ['llm_generation', 'in_progress'],
+      ['thinking_log', 'in_progress'],
+      ['llm_generation', 'completed'],
+    ])
+    expect(events[0]).toMatchObject({ session_id: 's1', agent_id: 'agent-1', user_id: 'u1' })
+  })
+
+  it('keeps knowledge base documents in memory until reset', async () => {
+    const form = new FormData()
+    form.append('file', new File(['x'.repeat(2500)], 'guide.txt'))
+    const trained = await fetch(`${server.url}/v3/train/txt/?rag_id=kb1`, { method: 'POST', headers: { 'x-api-key': API_KEY }, body: form })
+    expect(await trained.json()).toEqual({ success: true, document_count: 3 })
+
+    await call('POST', '/api/v1/rag/crawl', { url: 'https://example.com/docs', rag_id: 'kb1' })
+    expect(await (await call('GET', '/v3/rag/documents/kb1/')).json()).toEqual(['storage/guide.txt', 'storage/example.com.txt'])
+
+    await call('DELETE', '/v3/rag/kb1/docs/', ['guide.txt'])
+    expect(await (await call('GET', '/v3/rag/documents/kb1/')).json()).toEqual(['storage/example.com.txt'])
+
+    server.reset()
+    expect(await (await call('GET', '/v3/rag/documents/kb1/')).json()).toEqual([])
+  })
+
+  it('runs the schedule lifecycle, recording triggered executions', async () => {
+    const created = await call('POST', '/schedules/', { agent_id: 'agent-1', cron_expression: '0 9 * * *', message: 'busy', user_id: 'u1' })
+    expect(created.status).toBe(201)
+    const schedule = await created.json()
+
+    expect((await call('POST', `/schedules/${schedule.id}/pause`)).status).toBe(200)
+    expect(await (await call('POST', `/schedules/${schedule.id}/pause`)).json()).toEqual({ detail: 'Schedule is already paused' })
+    expect((await call('POST', `/schedules/${schedule.id}/trigger`)).status).toBe(202)
+
+    const logs = await (await call('GET', `/schedules/${schedule.id}/logs`)).json()
+    expect(logs.total).toBe(1)
+    expect(logs.executions[0]).toMatchObject({ success: false, response_status: 429, error_message: 'Slow down' })
+
+    const listed = await (await call('GET', '/schedules/?user_id=u1&is_active=false')).json()
+    expect(listed.schedules.map((s: { id: string }) => s.id)).toEqual([schedule.id])
+
+    expect((await call('DELETE', `/schedules/${schedule.id}`)).status).toBe(204)
+    expect((await call('GET', `/schedules/${schedule.id}`)).status).toBe(404)
+  })
+
+  it('answers unknown routes with 404', async () => {
+    const response = await call('GET', '/v9/nothing')
+    expect(response.status).toBe(404)
+    expect(await response.json()).toEqual({ detail: 'No mock for GET /v9/nothing' })
+  })
+})
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getAgentProvider, getProviderConfig, LYZR_API_URL } from '@/lib/agentProviders'
+import { resetCircuitBreakers } from '@/lib/resilientFetch'
+import type { AgentUpstreamRequest } from '@/lib/agentUpstream'
+
+const signal = new AbortController().signal
+
+function request(message: string, session_id = 'session-1', agent_id = 'agent-1'): AgentUpstreamRequest {
+  return { message, agent_id, user_id: 'user-1', session_id }
+}
+
+function completion(content: string) {
+  return new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 })
+}
+
+let calls: { url: string; body: any }[]
+
+beforeEach(() => {
+  resetCircuitBreakers()
+  calls = []
+  vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+    const body = JSON.parse(String(init.body))
+    calls.push({ url, body })
+    return url === LYZR_API_URL
+      ? new Response(JSON.stringify({ response: `Lyzr: ${body.message}` }), { status: 200 })
+      : completion(`Reply to ${body.messages[body.messages.length - 1].content}`)
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.unstubAllEnvs()
+})
+
+describe('provider selection', () => {
+  it('uses Lyzr by default', async () => {
+    const result = await getAgentProvider('agent-1').send(request('hi'), signal)
+    expect(calls.map((c) => c.url)).toEqual([LYZR_API_URL])
+    expect(result).toMatchObject({ reply: { answer: 'Lyzr: hi' } })
+  })
+
+  it('follows AGENT_PROVIDER for agents without an override', async () => {
+    vi.stubEnv('AGENT_PROVIDER', 'echo')
+    const result = await getAgentProvider('agent-1').send(request('hi'), signal)
+    expect(calls).toEqual([])
+    expect(result).toMatchObject({ reply: { answer: 'Echo: hi' } })
+  })
+
+  it('routes an overridden agent to its OpenAI-compatible endpoint and model', async () => {
+    vi.stubEnv('AGENT_PROVIDERS', JSON.stringify({ 'agent-2': { provider: 'openai', baseUrl: 'http://llm.test/v1/', model: 'local-model' } }))
+    expect(getProviderConfig('agent-1')).toEqual({ provider: 'lyzr' })
+
+    const result = await getAgentProvider('agent-2').send(request('hi', 'session-1', 'agent-2'), signal)
+    expect(calls[0].url).toBe('http://llm.test/v1/chat/completions')
+    expect(calls[0].body).toMatchObject({ model: 'local-model', stream: false, user: 'user-1' })
+    expect(result).toMatchObject({ reply: { answer: 'Reply to hi' } })
+  })
+
+  it('reports an invalid configuration instead of throwing', () => {
+    vi.stubEnv('AGENT_PROVIDER', 'bogus')
+    expect(getAgentProvider('agent-1').configError()).toMatch(/Unknown agent provider/)
+
+    vi.stubEnv('AGENT_PROVIDER', 'lyzr')
+    vi.stubEnv('AGENT_PROVIDERS', '[1]')
+    expect(getAgentProvider('agent-1').configError()).toMatch(/must be a JSON object/)
+  })
+
+  it('shares one provider across agents with the same configuration', () => {
+    expect(getAgentProvider('unknown-a')).toBe(getAgentProvider('unknown-b'))
+
+    vi.stubEnv('AGENT_PROVIDERS', JSON.stringify({ 'agent-2': 'echo' }))
+    expect(getAgentProvider('agent-2')).not.toBe(getAgentProvider('unknown-a'))
+  })
+})
+
+describe('OpenAI-compatible history', () => {
+  beforeEach(() => {
+    vi.stubEnv('AGENT_PROVIDER', 'openai')
+    vi.stubEnv('OPENAI_BASE_URL', 'http://llm.test/v1')
+  })
+
+  it('resends at most the last 20 turns of a session', async () => {
+    const provider = getAgentProvider('agent-1')
+    for (let i = 1; i <= 15; i++) {
+      await provider.send(request(`message ${i}`, 'capped-session'), signal)
+    }
+
+    const messages = calls[calls.length - 1].body.messages.filter((m: any) => m.role !== 'system')
+    expect(messages).toHaveLength(21)
+    expect(messages[0]).toEqual({ role: 'user', content: 'message 5' })
+    expect(messages[1]).toEqual({ role: 'assistant', content: 'Reply to message 5' })
+    expect(messages[20]).toEqual({ role: 'user', content: 'message 15' })
+  })
+
+  it('keeps sessions apart and forgets the least recently used one past 1000', async () => {
+    const provider = getAgentProvider('agent-1')
+    await provider.send(request('first', 'lru-0'), signal)
+    for (let i = 1; i <= 1000; i++) {
+      await provider.send(request('hi', `lru-${i}`), signal)
+    }
+    expect(calls[1].body.messages.filter((m: any) => m.role !== 'system')).toHaveLength(1)
+
+    await provider.send(request('again', 'lru-0'), signal)
+    const messages = calls[calls.length - 1].body.messages.filter((m: any) => m.role !== 'system')
+    expect(messages).toEqual([{ role: 'user', content: 'again' }])
+  })
+})
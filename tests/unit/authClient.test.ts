@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { safeNextPath } from '@/lib/authClient'
+
+describe('safeNextPath', () => {
+  it.each(['/', '/schedules', '/schedules?tab=logs#top', '/share/abc'])('keeps the same-site path %s', (path) => {
+    expect(safeNextPath(path)).toBe(path)
+  })
+
+  it.each([
+    null,
+    '',
+    'https://evil.com',
+    '//evil.com',
+    '/\\evil.com',
+    '/\\/evil.com',
+    '/\t/evil.com',
+    '/\n/evil.com',
+    'javascript:alert(1)',
+    'schedules',
+  ])('falls back to / for %j', (value) => {
+    expect(safeNextPath(value)).toBe('/')
+  })
+
+  it('normalizes dot segments without leaving the site', () => {
+    expect(safeNextPath('/a/../schedules')).toBe('/schedules')
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { mergeImported, parseJsonExport, toJsonExport } from '@/lib/conversationExport'
+import type { Conversation } from '@/lib/conversations'
+
+function conversation(id: string, sessionId: string, updatedAt: number): Conversation {
+  return {
+    id,
+    title: `Conversation ${id}`,
+    sessionId,
+    messages: [{ id: `${id}-m1`, role: 'user', content: 'Hello', timestamp: updatedAt, parentId: null }],
+    createdAt: 1,
+    updatedAt,
+  }
+}
+
+/** Round-trip through the JSON export, as an import from someone else's file would */
+function importFrom(conversations: Conversation[]): Conversation[] {
+  const result = parseJsonExport(toJsonExport(conversations))
+  expect(result.success).toBe(true)
+  return result.conversations
+}
+
+describe('mergeImported', () => {
+  it('starts a new agent session for conversations new to this user', () => {
+    const imported = importFrom([conversation('c1', 'their-session', 10)])
+    const result = mergeImported([], imported, () => 'fresh-session')
+    expect(result.added).toBe(1)
+    expect(result.conversations).toHaveLength(1)
+    expect(result.conversations[0]).toMatchObject({ id: 'c1', sessionId: 'fresh-session' })
+  })
+
+  it('keeps the existing session when an import replaces a conversation', () => {
+    const existing = [conversation('c1', 'my-session', 10)]
+    const imported = importFrom([conversation('c1', 'their-session', 20)])
+    const result = mergeImported(existing, imported, () => 'fresh-session')
+    expect(result.updated).toBe(1)
+    expect(result.conversations[0]).toMatchObject({ updatedAt: 20, sessionId: 'my-session' })
+  })
+
+  it('leaves newer local copies untouched', () => {
+    const existing = [conversation('c1', 'my-session', 30)]
+    const result = mergeImported(existing, importFrom([conversation('c1', 'their-session', 20)]))
+    expect(result).toMatchObject({ added: 0, updated: 0 })
+    expect(result.conversations[0]).toBe(existing[0])
+  })
+
+  it('gives each new conversation its own session', () => {
+    const imported = importFrom([conversation('c1', 'shared', 10), conversation('c2', 'shared', 11)])
+    const sessions = mergeImported([], imported).conversations.map((c) => c.sessionId)
+    expect(new Set(sessions).size).toBe(2)
+    expect(sessions).not.toContain('shared')
+  })
+})
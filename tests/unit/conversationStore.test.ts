@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  ConversationStore,
+  createFileConversationStore,
+  createMemoryConversationStore,
+} from '@/lib/conversationStore'
+import type { Conversation } from '@/lib/conversations'
+
+function conversation(id: string, updatedAt: number, title = id, createdAt = 1): Conversation {
+  return { id, title, sessionId: `session-${id}`, messages: [], createdAt, updatedAt }
+}
+
+let dir: string
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'conversation-store-'))
+})
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+describe.each([
+  ['memory', () => createMemoryConversationStore()],
+  ['file', () => createFileConversationStore(dir)],
+])('%s conversation store', (_name, create: () => ConversationStore) => {
+  it('scopes conversations to their owner', async () => {
+    const store = create()
+    await store.put('alice', conversation('c1', 10))
+
+    expect(await store.get('alice', 'c1')).toMatchObject({ id: 'c1' })
+    expect(await store.get('bob', 'c1')).toBeNull()
+    expect(await store.list('bob')).toEqual([])
+    expect(await store.delete('bob', 'c1')).toBe(false)
+    expect(await store.get('alice', 'c1')).not.toBeNull()
+  })
+
+  it('keeps the newer copy when an older one is written', async () => {
+    const store = create()
+    await store.put('alice', conversation('c1', 20, 'newer'))
+
+    const stored = await store.put('alice', conversation('c1', 10, 'older'))
+    expect(stored?.title).toBe('newer')
+    expect((await store.get('alice', 'c1'))?.title).toBe('newer')
+
+    await store.put('alice', conversation('c1', 30, 'newest'))
+    expect((await store.get('alice', 'c1'))?.title).toBe('newest')
+  })
+
+  it('lists the most recently created conversations first', async () => {
+    const store = create()
+    await store.put('alice', conversation('old', 20, 'old', 1))
+    await store.put('alice', conversation('new', 10, 'new', 2))
+    expect((await store.list('alice')).map((c) => c.id)).toEqual(['new', 'old'])
+  })
+
+  it('does not revive a deleted conversation from a stale copy', async () => {
+    const store = create()
+    await store.put('alice', conversation('c1', 10))
+    expect(await store.delete('alice', 'c1')).toBe(true)
+
+    expect(await store.put('alice', conversation('c1', 10))).toBeNull()
+    expect(await store.get('alice', 'c1')).toBeNull()
+
+    const edited = conversation('c1', Date.now() + 1000)
+    expect(await store.put('alice', edited)).toEqual(edited)
+  })
+
+  it('serializes concurrent writes for the same user', async () => {
+    const store = create()
+    await Promise.all(['a', 'b', 'c', 'd'].map((id, i) => store.put('alice', conversation(id, i + 1))))
+    expect((await store.list('alice')).map((c) => c.id).sort()).toEqual(['a', 'b', 'c', 'd'])
+  })
+})
+
+describe('file conversation store', () => {
+  it('persists across instances under hashed file names', async () => {
+    await createFileConversationStore(dir).put('../alice', conversation('c1', 10))
+
+    const files = await fs.readdir(dir)
+    expect(files).toHaveLength(1)
+    expect(files[0]).toMatch(/^[0-9a-f]{64}\.json$/)
+    expect(await createFileConversationStore(dir).get('../alice', 'c1')).toMatchObject({ id: 'c1' })
+  })
+})
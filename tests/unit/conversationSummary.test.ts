@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { summarizeConversation } from '@/lib/conversationSummary'
+import type { Conversation } from '@/lib/conversations'
+
+const CONVERSATION: Conversation = {
+  id: 'c1',
+  title: 'hello',
+  sessionId: 's1',
+  messages: [
+    { id: 'm1', role: 'user', content: 'How do I bake bread?', timestamp: 1, parentId: null },
+    { id: 'm2', role: 'assistant', content: 'Mix flour, water, salt and yeast.', timestamp: 2, parentId: 'm1' },
+  ],
+  createdAt: 1,
+  updatedAt: 2,
+  autoTitled: true,
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('summarizeConversation', () => {
+  it('asks without schema repair and charges the summary quota', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) =>
+      Response.json({
+        success: true,
+        response: { status: 'success', result: { title: 'Baking bread', summary: 'Basic bread ingredients.' } },
+      })
+    )
+    vi.stubGlobal('fetch', fetchMock)
+
+    await expect(summarizeConversation(CONVERSATION)).resolves.toEqual({
+      success: true,
+      title: 'Baking bread',
+      summary: 'Basic bread ingredients.',
+    })
+    const body = JSON.parse(fetchMock.mock.calls[0][1]?.body as string)
+    expect(body).toMatchObject({ repair: false, purpose: 'summary', session_id: 's1-summary' })
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getActivePath,
+  getLatestLeaf,
+  isConversation,
+  isMessageTree,
+  type ChatMessage,
+  type Conversation,
+} from '@/lib/conversations'
+import { parseJsonExport, toJsonExport } from '@/lib/conversationExport'
+
+function message(id: string, parentId?: string | null): ChatMessage {
+  return { id, role: 'user', content: id, timestamp: 1, ...(parentId !== undefined && { parentId }) }
+}
+
+function conversation(messages: ChatMessage[], activeLeafId?: string): Conversation {
+  return { id: 'c1', title: 'Test', sessionId: 's1', messages, createdAt: 1, updatedAt: 1, activeLeafId }
+}
+
+const CYCLE = [message('a', 'b'), message('b', 'a')]
+
+describe('isMessageTree', () => {
+  it('accepts branches and legacy linear history', () => {
+    expect(isMessageTree([message('a', null), message('b', 'a'), message('c', 'a'), message('d', 'c')])).toBe(true)
+    expect(isMessageTree([message('a'), message('b'), message('c')])).toBe(true)
+    expect(isMessageTree([])).toBe(true)
+  })
+
+  it('rejects cycles, self-parents, missing parents and duplicate ids', () => {
+    expect(isMessageTree(CYCLE)).toBe(false)
+    expect(isMessageTree([message('root', null), message('a', 'c'), message('b', 'a'), message('c', 'b')])).toBe(false)
+    expect(isMessageTree([message('a', 'a')])).toBe(false)
+    expect(isMessageTree([message('a', null), message('b', 'gone')])).toBe(false)
+    expect(isMessageTree([message('a', null), message('a', null)])).toBe(false)
+  })
+})
+
+describe('tree walks on cyclic data', () => {
+  it('getActivePath stops at the first revisited message', () => {
+    expect(getActivePath(conversation(CYCLE, 'a')).map((m) => m.id)).toEqual(['b', 'a'])
+  })
+
+  it('getLatestLeaf stops at the first revisited message', () => {
+    expect(getLatestLeaf(conversation(CYCLE), 'a')).toBe('b')
+  })
+
+  it('still follow the newest branch in a valid tree', () => {
+    const convo = conversation([message('a', null), message('b', 'a'), message('c', 'a'), message('d', 'c')], 'b')
+    expect(getActivePath(convo).map((m) => m.id)).toEqual(['a', 'b'])
+    expect(getLatestLeaf(convo, 'a')).toBe('d')
+  })
+})
+
+describe('untrusted conversations', () => {
+  it('isConversation rejects cyclic parent links', () => {
+    expect(isConversation(conversation([message('a', null), message('b', 'a')]))).toBe(true)
+    expect(isConversation(conversation(CYCLE))).toBe(false)
+  })
+
+  it('isConversation checks message attachments', () => {
+    const attachment = { assetId: 'asset-1', name: 'photo.png', mimeType: 'image/png', size: 2048, thumbnail: 'data:image/png;base64,AA' }
+    const withAttachments = (attachments: unknown) =>
+      conversation([{ ...message('a', null), attachments } as ChatMessage])
+
+    expect(isConversation(withAttachments([attachment]))).toBe(true)
+    expect(isConversation(withAttachments([{ ...attachment, thumbnail: undefined }]))).toBe(true)
+    expect(isConversation(withAttachments([{ ...attachment, size: '2 KB' }]))).toBe(false)
+    expect(isConversation(withAttachments([{ name: 'photo.png' }]))).toBe(false)
+    expect(isConversation(withAttachments(attachment))).toBe(false)
+  })
+
+  it('imports keep message attachments', () => {
+    const attachment = { assetId: 'asset-1', name: 'notes.txt', mimeType: 'text/plain', size: 5 }
+    const result = parseJsonExport(toJsonExport([conversation([{ ...message('a', null), attachments: [attachment] }])]))
+    expect(result.success).toBe(true)
+    expect(result.conversations?.[0].messages[0].attachments).toEqual([attachment])
+  })
+
+  it('imports reject cyclic parent links', () => {
+    const result = parseJsonExport(toJsonExport([conversation(CYCLE)]))
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Invalid export file at conversations.0.messages: message parent links must form a tree')
+  })
+})
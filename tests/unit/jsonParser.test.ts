@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import parseLLMJson from '@/lib/jsonParser'
+
+const NOT_FOUND = { success: false, data: null, error: 'No valid JSON found in the response', rawJson: null }
+
+describe('parseLLMJson', () => {
+  it('parses plain JSON', () => {
+    expect(parseLLMJson('{"a":1}')).toEqual({ a: 1 })
+  })
+
+  it('extracts JSON from a fenced code block surrounded by prose', () => {
+    expect(parseLLMJson('Here you go:\n```json\n{"response":"hi"}\n```')).toEqual({ response: 'hi' })
+  })
+
+  it('repairs unquoted keys, single quotes, Python literals and trailing commas', () => {
+    expect(parseLLMJson("{response: 'hi', ok: True, missing: None,}")).toEqual({ response: 'hi', ok: true, missing: null })
+  })
+
+  it('decodes JSON that was stringified twice', () => {
+    expect(parseLLMJson('"{\\"a\\":1}"')).toEqual({ a: 1 })
+  })
+
+  it('unwraps a JSON string under a known envelope key', () => {
+    expect(parseLLMJson({ response: '{"answer":"x"}' })).toEqual({ answer: 'x' })
+  })
+
+  it('prefers the first of several JSON blocks', () => {
+    expect(parseLLMJson('before {"x":1} middle {"y":2}')).toEqual({ x: 1 })
+  })
+
+  it('reports plain text and truncated JSON as not found', () => {
+    expect(parseLLMJson('just text')).toEqual(NOT_FOUND)
+    expect(parseLLMJson('{"a": [1, 2,')).toEqual(NOT_FOUND)
+  })
+
+  it('returns null for empty input', () => {
+    expect(parseLLMJson('')).toBeNull()
+    expect(parseLLMJson('   ')).toBeNull()
+    expect(parseLLMJson(null)).toBeNull()
+    expect(parseLLMJson(undefined)).toBeNull()
+  })
+
+  it('ignores options that are not an object', () => {
+    expect(parseLLMJson('{"a":1}', null)).toEqual({ a: 1 })
+  })
+})
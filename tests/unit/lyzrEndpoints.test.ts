@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+// The URLs are read once at load, so each case imports a fresh copy
+async function load(env: Record<string, string>) {
+  vi.resetModules()
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value)
+  return import('@/lib/lyzrEndpoints')
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('lyzrEndpoints', () => {
+  it('defaults every service to production', async () => {
+    const urls = await load({ LYZR_BASE_URL: '' })
+    expect(urls.LYZR_AGENT_BASE_URL).toBe('https://agent-prod.studio.lyzr.ai')
+    expect(urls.LYZR_SCHEDULER_BASE_URL).toBe('https://scheduler.studio.lyzr.ai')
+    expect(urls.LYZR_METRICS_WS_URL).toBe('wss://metrics.studio.lyzr.ai')
+  })
+
+  it('points every service at LYZR_BASE_URL, with WebSockets on the same host', async () => {
+    const urls = await load({ LYZR_BASE_URL: 'http://localhost:4010/' })
+    expect([urls.LYZR_AGENT_BASE_URL, urls.LYZR_RAG_BASE_URL, urls.LYZR_SCHEDULER_BASE_URL, urls.RAG_CRAWL_BASE_URL]).toEqual(
+      Array(4).fill('http://localhost:4010')
+    )
+    expect(urls.LYZR_METRICS_WS_URL).toBe('ws://localhost:4010')
+  })
+
+  it('lets one service override the shared base URL', async () => {
+    const urls = await load({ LYZR_BASE_URL: 'http://localhost:4010', LYZR_RAG_BASE_URL: 'https://rag.example.com//' })
+    expect(urls.LYZR_RAG_BASE_URL).toBe('https://rag.example.com')
+    expect(urls.LYZR_AGENT_BASE_URL).toBe('http://localhost:4010')
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { createElement } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import { MarkdownRenderer } from '@/components/MarkdownRenderer'
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'markdown')
+
+function fixture(name: string): string {
+  return readFileSync(path.join(FIXTURES, name), 'utf8')
+}
+
+function render(content: string): string {
+  return renderToStaticMarkup(createElement(MarkdownRenderer, { content }))
+}
+
+/** Text of rendered markup; highlighting spans split code, so tags are dropped without a gap */
+function textOf(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, '')
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, '>')
+}
+
+describe('MarkdownRenderer', () => {
+  it('renders GFM tables with header, alignment and inline formatting', () => {
+    const html = render(fixture('table.md'))
+    expect(html).toContain('<table')
+    expect(html.match(/<th /g)).toHaveLength(3)
+    expect(html.match(/<tr>/g)).toHaveLength(3)
+    expect(html).toMatch(/<td style="text-align:right"[^>]*><strong[^>]*>980<\/strong><\/td>/)
+    expect(html).toMatch(/<td style="text-align:center"[^>]*><code[^>]*>-2%<\/code><\/td>/)
+  })
+
+  it('renders fenced code as a highlighted block and inline code as a pill', () => {
+    const html = render(fixture('code-fence.md'))
+    expect(html).toContain('>ts</span>')
+    expect(html).toContain('Copy')
+    expect(html).toMatch(/<pre[^>]*><code class="hljs language-ts">/)
+    expect(html).toContain('hljs-keyword')
+    expect(textOf(html)).toContain('const total = items.reduce((sum, item) => sum + item.price, 0)')
+    expect(html).toMatch(/<code class="px-1\.5[^"]*">total<\/code>/)
+  })
+
+  it('keeps nested lists and task items at their depth', () => {
+    const html = render(fixture('nested-list.md'))
+    expect(html.startsWith('<div class="markdown-body')).toBe(true)
+    expect(html.match(/<ol /g)).toHaveLength(1)
+    expect(html.match(/<ul /g)).toHaveLength(3)
+    // sales.csv sits two lists below "Prepare"
+    expect(html).toMatch(/Prepare[\s\S]*<ul [^>]*>[\s\S]*Gather the data[\s\S]*<ul [^>]*>[\s\S]*sales\.csv/)
+    const checkboxes = html.match(/<input type="checkbox"[^>]*>/g) ?? []
+    expect(checkboxes).toHaveLength(2)
+    expect(checkboxes[0]).toContain('checked=""')
+    expect(checkboxes[1]).not.toContain('checked')
+  })
+
+  it('renders every prefix of a streamed reply without throwing', () => {
+    const content = fixture('streaming-partial.md')
+    for (let end = 1; end <= content.length; end++) {
+      expect(() => render(content.slice(0, end))).not.toThrow()
+    }
+  })
+
+  it('shows unfinished tables and code fences as they stream in', () => {
+    const html = render(fixture('streaming-partial.md'))
+    expect(html).toContain('<table')
+    expect(html).toMatch(/<td[^>]*>Ada<\/td><td[^>]*>9<\/td>/)
+    // An unclosed fence still renders as a code block running to the end
+    expect(html).toMatch(/<code class="hljs language-python">/)
+    expect(textOf(html)).toContain('return row["points"')
+  })
+
+  it('renders nothing for empty content', () => {
+    expect(render('')).toBe('')
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeResponse } from '@/lib/agentUpstream'
+
+describe('normalizeResponse', () => {
+  it('reports an empty reply as an error', () => {
+    expect(normalizeResponse(null)).toEqual({ status: 'error', result: {}, message: 'Empty response from agent' })
+    expect(normalizeResponse('')).toEqual({ status: 'error', result: {}, message: 'Empty response from agent' })
+  })
+
+  it('wraps plain text and other primitives', () => {
+    expect(normalizeResponse('hi')).toEqual({ status: 'success', result: { text: 'hi' }, message: 'hi' })
+    expect(normalizeResponse(42)).toEqual({ status: 'success', result: { value: 42 }, message: '42' })
+  })
+
+  it('keeps an already normalized response', () => {
+    const response = { status: 'error', result: { x: 1 }, message: 'bad', metadata: { agent_name: 'A' } }
+    expect(normalizeResponse(response)).toEqual(response)
+  })
+
+  it('treats any status other than "error" as success and keeps the other fields as the result', () => {
+    expect(normalizeResponse({ status: 'ok', foo: 1, message: 'done' })).toEqual({
+      status: 'success',
+      result: { foo: 1 },
+      message: 'done',
+    })
+  })
+
+  it('takes the message from a string or text-like result', () => {
+    expect(normalizeResponse({ result: 'text' })).toEqual({ status: 'success', result: { text: 'text' }, message: 'text' })
+    expect(normalizeResponse({ result: { answer: 'A' } })).toMatchObject({ result: { answer: 'A' }, message: 'A' })
+    expect(normalizeResponse({ result: { items: [] } }).message).toBeUndefined()
+  })
+
+  it('wraps a bare message', () => {
+    expect(normalizeResponse({ message: 'm' })).toEqual({ status: 'success', result: { text: 'm' }, message: 'm' })
+  })
+
+  it('unwraps a nested response envelope', () => {
+    expect(normalizeResponse({ response: { message: 'deep' } })).toEqual({
+      status: 'success',
+      result: { text: 'deep' },
+      message: 'deep',
+    })
+  })
+
+  it('uses any other object as the result', () => {
+    expect(normalizeResponse({ a: 1 })).toMatchObject({ status: 'success', result: { a: 1 }, message: undefined })
+  })
+})
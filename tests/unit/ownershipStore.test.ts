@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { createFileOwnershipStore, createMemoryOwnershipStore } from '@/lib/ownershipStore'
+
+describe('ownership store', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'owners-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('gives an id to its first claimant only', async () => {
+    const store = createMemoryOwnershipStore()
+    expect(await store.claim('session', 's1', 'alice')).toBe(true)
+    expect(await store.claim('session', 's1', 'alice')).toBe(true)
+    expect(await store.claim('session', 's1', 'bob')).toBe(false)
+    expect(await store.owner('session', 's1')).toBe('alice')
+  })
+
+  it('keeps sessions and knowledge bases apart', async () => {
+    const store = createMemoryOwnershipStore()
+    expect(await store.claim('session', 'shared-id', 'alice')).toBe(true)
+    expect(await store.claim('knowledge_base', 'shared-id', 'bob')).toBe(true)
+  })
+
+  it('keeps owners across restarts and between instances sharing a directory', async () => {
+    expect(await createFileOwnershipStore(dir).claim('knowledge_base', 'rag-1', 'alice')).toBe(true)
+
+    const restarted = createFileOwnershipStore(dir)
+    expect(await restarted.owner('knowledge_base', 'rag-1')).toBe('alice')
+    expect(await restarted.claim('knowledge_base', 'rag-1', 'bob')).toBe(false)
+  })
+
+  it('lets only one of two concurrent claims win', async () => {
+    const first = createFileOwnershipStore(dir)
+    const second = createFileOwnershipStore(dir)
+    const results = await Promise.all([first.claim('session', 's2', 'alice'), second.claim('session', 's2', 'bob')])
+    expect(results.filter(Boolean)).toHaveLength(1)
+  })
+})
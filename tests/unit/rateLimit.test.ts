@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { consumeQuota, DAILY_MESSAGE_QUOTA, DAILY_SUMMARY_QUOTA, ROUTE_LIMITS, takeToken } from '@/lib/rateLimit'
+
+const NOON = Date.UTC(2026, 0, 15, 12)
+
+describe('consumeQuota', () => {
+  it('takes several messages at once, or none when they do not all fit', () => {
+    const caller = 'user:bulk'
+    expect(consumeQuota(caller, NOON, DAILY_MESSAGE_QUOTA - 2)).toMatchObject({ allowed: true, remaining: 2 })
+
+    const rejected = consumeQuota(caller, NOON, 3)
+    expect(rejected).toMatchObject({ allowed: false, remaining: 2 })
+    expect(rejected?.retryAt).toBe(Date.UTC(2026, 0, 16))
+
+    expect(consumeQuota(caller, NOON, 2)).toMatchObject({ allowed: true, remaining: 0 })
+    expect(consumeQuota(caller, NOON)).toMatchObject({ allowed: false })
+  })
+
+  it('counts summaries apart from messages', () => {
+    const caller = 'user:summaries'
+    expect(consumeQuota(caller, NOON, DAILY_SUMMARY_QUOTA, 'summaries')).toMatchObject({ allowed: true, remaining: 0 })
+    expect(consumeQuota(caller, NOON, 1, 'summaries')).toMatchObject({ allowed: false, limit: DAILY_SUMMARY_QUOTA })
+    expect(consumeQuota(caller, NOON)).toMatchObject({ allowed: true, remaining: DAILY_MESSAGE_QUOTA - 1 })
+  })
+
+  it('starts over on a new UTC day', () => {
+    const caller = 'user:daily'
+    consumeQuota(caller, NOON, DAILY_MESSAGE_QUOTA)
+    expect(consumeQuota(caller, NOON + 24 * 60 * 60 * 1000)).toMatchObject({ allowed: true })
+  })
+})
+
+describe('takeToken', () => {
+  it('limits credential attempts per client IP', () => {
+    const limit = ROUTE_LIMITS.auth
+    for (let i = 0; i < limit; i++) expect(takeToken('auth', 'ip:203.0.113.5', NOON)?.allowed).toBe(true)
+    expect(takeToken('auth', 'ip:203.0.113.5', NOON)).toMatchObject({ allowed: false, retryAt: NOON + 60_000 / limit })
+    expect(takeToken('auth', 'ip:198.51.100.7', NOON)?.allowed).toBe(true)
+  })
+})
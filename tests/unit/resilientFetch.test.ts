@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  CircuitOpenError,
+  backoffDelay,
+  getCircuitState,
+  parseRetryAfter,
+  resetCircuitBreakers,
+  resilientFetch,
+  upstreamErrorStatus,
+} from '@/lib/resilientFetch'
+
+const URL = 'http://upstream.test/thing'
+const FAST = { upstream: 'fake', baseDelayMs: 1, maxDelayMs: 1 }
+
+/**
+ * A fake upstream answering each call with the next reply (the last one repeats).
+ * A number is a bare status, an Error a network failure.
+ */
+function fakeUpstream(...replies: Array<number | Error | (() => Response)>) {
+  const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+    if (init?.signal?.aborted) throw new DOMException('Aborted', 'AbortError')
+    const reply = replies.length > 1 ? replies.shift()! : replies[0]
+    if (reply instanceof Error) throw reply
+    return typeof reply === 'number' ? new Response(`status ${reply}`, { status: reply }) : reply()
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+beforeEach(() => {
+  resetCircuitBreakers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe('resilientFetch retries', () => {
+  it('returns the first non-retryable response', async () => {
+    const fetchMock = fakeUpstream(404)
+    const response = await resilientFetch(URL, {}, { ...FAST, retries: 2 })
+    expect(response.status).toBe(404)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('retries gateway errors until one succeeds', async () => {
+    const fetchMock = fakeUpstream(502, 503, 200)
+    const response = await resilientFetch(URL, {}, { ...FAST, retries: 2 })
+    expect(response.status).toBe(200)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it('returns the last response once retries run out', async () => {
+    const fetchMock = fakeUpstream(500)
+    const response = await resilientFetch(URL, {}, { ...FAST, retries: 2 })
+    expect(response.status).toBe(500)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it('retries network errors and rethrows the last one', async () => {
+    const fetchMock = fakeUpstream(new TypeError('fetch failed'))
+    await expect(resilientFetch(URL, {}, { ...FAST, retries: 1 })).rejects.toThrow('fetch failed')
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('waits out a short Retry-After and returns a long one as-is', async () => {
+    const fetchMock = fakeUpstream(() => new Response('', { status: 429, headers: { 'Retry-After': '0' } }), 200)
+    expect((await resilientFetch(URL, {}, { ...FAST, retries: 1 })).status).toBe(200)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+
+    const slow = fakeUpstream(() => new Response('', { status: 429, headers: { 'Retry-After': '3600' } }))
+    expect((await resilientFetch(URL, {}, { ...FAST, retries: 1 })).status).toBe(429)
+    expect(slow).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('resilientFetch with non-idempotent calls', () => {
+  const once = { ...FAST, retries: 2, idempotent: false }
+
+  it('does not repeat a call the upstream may have processed', async () => {
+    const fetchMock = fakeUpstream(502, 200)
+    expect((await resilientFetch(URL, { method: 'POST' }, once)).status).toBe(502)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not repeat after a network error', async () => {
+    const fetchMock = fakeUpstream(new TypeError('socket hang up'), 200)
+    await expect(resilientFetch(URL, { method: 'POST' }, once)).rejects.toThrow('socket hang up')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('repeats a call the upstream says it did not process', async () => {
+    const fetchMock = fakeUpstream(429, 503, 201)
+    expect((await resilientFetch(URL, { method: 'POST' }, once)).status).toBe(201)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+})
+
+describe('resilientFetch circuit breaker', () => {
+  it('opens after repeated failures and fails fast', async () => {
+    const fetchMock = fakeUpstream(500)
+    for (let i = 0; i < 5; i++) await resilientFetch(URL, {}, { ...FAST, retries: 0 })
+    expect(getCircuitState('fake')).toBe('open')
+
+    const error = await resilientFetch(URL, {}, { ...FAST, retries: 0 }).catch((e) => e)
+    expect(error).toBeInstanceOf(CircuitOpenError)
+    expect(upstreamErrorStatus(error)).toBe(503)
+    expect(fetchMock).toHaveBeenCalledTimes(5)
+    // Other upstreams have their own breaker
+    expect(getCircuitState('other')).toBe('closed')
+  })
+
+  it('lets one probe through after the cooldown and closes on success', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    fakeUpstream(500)
+    for (let i = 0; i < 5; i++) await resilientFetch(URL, {}, { ...FAST, retries: 0 })
+
+    vi.setSystemTime(Date.now() + 30_000)
+    fakeUpstream(200)
+    expect((await resilientFetch(URL, {}, { ...FAST, retries: 0 })).status).toBe(200)
+    expect(getCircuitState('fake')).toBe('closed')
+  })
+
+  it('reopens when the probe fails', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    fakeUpstream(500)
+    for (let i = 0; i < 5; i++) await resilientFetch(URL, {}, { ...FAST, retries: 0 })
+
+    vi.setSystemTime(Date.now() + 30_000)
+    await resilientFetch(URL, {}, { ...FAST, retries: 0 })
+    expect(getCircuitState('fake')).toBe('open')
+  })
+
+  it('neither retries nor counts a caller abort', async () => {
+    const fetchMock = fakeUpstream(200)
+    const controller = new AbortController()
+    controller.abort()
+    for (let i = 0; i < 6; i++) {
+      await expect(resilientFetch(URL, { signal: controller.signal }, { ...FAST, retries: 2 })).rejects.toThrow()
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(6)
+    expect(getCircuitState('fake')).toBe('closed')
+  })
+})
+
+describe('backoff helpers', () => {
+  it('parses Retry-After seconds and dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z')
+    expect(parseRetryAfter('5', now)).toBe(5000)
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', now)).toBe(10_000)
+    expect(parseRetryAfter('soon', now)).toBeNull()
+    expect(parseRetryAfter(null, now)).toBeNull()
+  })
+
+  it('keeps jittered delays under the exponential ceiling', () => {
+    for (let attempt = 0; attempt < 6; attempt++) {
+      const delay = backoffDelay(attempt, 100, 1000)
+      expect(delay).toBeGreaterThanOrEqual(0)
+      expect(delay).toBeLessThanOrEqual(Math.min(1000, 100 * 2 ** attempt))
+    }
+  })
+})
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { buildRepairPrompt, jsonSchemaToZod, validateAgentOutput } from '@/lib/responseSchema'
+import { repairAgentResponse } from '@/lib/agentUpstream'
+import { DEFAULT_AGENT_ID } from '@/lib/agentRegistry'
+import { resetCircuitBreakers } from '@/lib/resilientFetch'
+import type { AIAgentResponse } from '@/lib/agentResponse'
+
+describe('jsonSchemaToZod', () => {
+  it('requires only the listed properties and keeps unknown ones', () => {
+    const schema = jsonSchemaToZod({
+      type: 'object',
+      properties: { name: { type: 'string' }, age: { type: 'integer' } },
+      required: ['name'],
+    })
+    expect(schema.parse({ name: 'a', extra: true })).toEqual({ name: 'a', extra: true })
+    expect(schema.safeParse({ age: 1 }).success).toBe(false)
+    expect(schema.safeParse({ name: 'a', age: 1.5 }).success).toBe(false)
+  })
+
+  it('rejects unknown properties when additionalProperties is false', () => {
+    const schema = jsonSchemaToZod({ type: 'object', properties: { a: { type: 'number' } }, additionalProperties: false })
+    expect(schema.safeParse({ a: 1 }).success).toBe(true)
+    expect(schema.safeParse({ a: 1, b: 2 }).success).toBe(false)
+  })
+
+  it('supports enum, const, anyOf, type lists and nullable', () => {
+    expect(jsonSchemaToZod({ enum: ['low', 'high'] }).safeParse('mid').success).toBe(false)
+    expect(jsonSchemaToZod({ const: 3 }).safeParse(3).success).toBe(true)
+
+    const either = jsonSchemaToZod({ anyOf: [{ type: 'string' }, { type: 'number' }] })
+    expect([either.safeParse('x').success, either.safeParse(1).success, either.safeParse(true).success]).toEqual([true, true, false])
+
+    const list = jsonSchemaToZod({ type: ['string', 'null'] })
+    expect([list.safeParse(null).success, list.safeParse(1).success]).toEqual([true, false])
+
+    expect(jsonSchemaToZod({ type: 'boolean', nullable: true }).safeParse(null).success).toBe(true)
+  })
+
+  it('checks array items and accepts anything for unsupported types', () => {
+    const tags = jsonSchemaToZod({ type: 'array', items: { type: 'string' } })
+    expect(tags.safeParse(['a', 'b']).success).toBe(true)
+    expect(tags.safeParse(['a', 1]).success).toBe(false)
+    expect(jsonSchemaToZod({ type: 'mystery' }).safeParse(Symbol.iterator).success).toBe(true)
+    expect(jsonSchemaToZod(undefined).safeParse(42).success).toBe(true)
+  })
+})
+
+describe('validateAgentOutput', () => {
+  it('validates against the agent\'s declared schema with readable issue paths', () => {
+    expect(validateAgentOutput(DEFAULT_AGENT_ID, { response: 'hi' })).toMatchObject({ valid: true, errors: [] })
+
+    const invalid = validateAgentOutput(DEFAULT_AGENT_ID, { response: 42 })
+    expect(invalid?.valid).toBe(false)
+    expect(invalid?.errors).toEqual([expect.objectContaining({ path: 'response', code: 'invalid_type' })])
+    expect(validateAgentOutput(DEFAULT_AGENT_ID, 'text')?.errors[0].path).toBe('(root)')
+  })
+
+  it('skips agents without a schema', () => {
+    expect(validateAgentOutput('not-a-registered-agent', { anything: true })).toBeUndefined()
+  })
+
+  it('lists the problems and the schema in the repair prompt', () => {
+    const validation = validateAgentOutput(DEFAULT_AGENT_ID, {})!
+    const prompt = buildRepairPrompt(DEFAULT_AGENT_ID, validation)
+    expect(prompt).toContain('- response: Required')
+    expect(prompt).toContain('"required": [\n    "response"\n  ]')
+  })
+})
+
+describe('repairAgentResponse', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const request = { message: 'hi', agent_id: DEFAULT_AGENT_ID, user_id: 'user-1', session_id: 'repair-session' }
+  const invalid: AIAgentResponse = {
+    success: true,
+    response: { status: 'success', result: { reply: 'wrong' } },
+    validation: { valid: false, errors: [{ path: 'response', code: 'invalid_type', message: 'Required' }] },
+  }
+
+  it('leaves conforming and failed responses alone', async () => {
+    const fetch = vi.fn()
+    vi.stubGlobal('fetch', fetch)
+    const valid = { ...invalid, validation: { valid: true, errors: [] } }
+    expect(await repairAgentResponse(request, valid)).toBe(valid)
+    expect(await repairAgentResponse(request, { ...invalid, success: false })).toMatchObject({ success: false })
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it('keeps the original response when the re-ask still does not conform', async () => {
+    resetCircuitBreakers()
+    let prompt = ''
+    vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+      prompt = JSON.parse(String(init.body)).message
+      return new Response(JSON.stringify({ response: { still: 'wrong' } }), { status: 200 })
+    })
+
+    const result = await repairAgentResponse(request, invalid)
+    expect(prompt).toContain('did not match the required JSON response format')
+    expect(result.response).toEqual(invalid.response)
+    expect(result.validation).toMatchObject({ valid: false, repaired: true })
+  })
+})
@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { buildCron, cronToHuman, DEFAULT_CRON_SPEC, parseCron, pauseSchedule, replaceSchedule, resumeSchedule } from '@/lib/scheduler'
+
+/** Stub the /api/scheduler proxy with one JSON reply and return the mock */
+function stubScheduler(reply: Record<string, unknown>) {
+  const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify(reply), { headers: { 'Content-Type': 'application/json' } }))
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('cronToHuman', () => {
+  it.each([
+    ['*/15 * * * *', 'Every 15 minutes'],
+    ['5 * * * *', 'Every hour at :05'],
+    ['0 */2 * * *', 'Every 2 hours'],
+    ['30 9 * * *', 'Every day at 9:30'],
+    ['0 9 * * 1-5', 'Weekdays at 9:00'],
+    ['0 10 * * 0,6', 'Weekends at 10:00'],
+    ['0 8 * * 1', 'Every Monday at 8:00'],
+    ['0 8 * * 1,3,5', 'Every Monday, Wednesday and Friday at 8:00'],
+    ['0 8 * * 7', 'Every Sunday at 8:00'],
+    ['0 6 15 * *', 'Day 15 of every month at 6:00'],
+  ])('describes %s', (cron, text) => {
+    expect(cronToHuman(cron)).toBe(text)
+  })
+
+  it('returns expressions it cannot describe unchanged', () => {
+    expect(cronToHuman('0 0 1 1 *')).toBe('0 0 1 1 *')
+    expect(cronToHuman('not a cron')).toBe('not a cron')
+    expect(cronToHuman('')).toBe('')
+  })
+})
+
+describe('cron builder', () => {
+  it.each(['*/10 * * * *', '15 * * * *', '0 9 * * *', '0 9 * * 1-5', '30 7 * * 1,3', '0 6 15 * *'])(
+    'round-trips %s',
+    (cron) => {
+      const spec = parseCron(cron)
+      expect(spec.frequency).not.toBe('custom')
+      expect(buildCron(spec)).toBe(cron)
+    }
+  )
+
+  it('falls back to a custom expression', () => {
+    expect(parseCron('0 */2 * * *')).toMatchObject({ frequency: 'custom', expression: '0 */2 * * *' })
+    expect(parseCron('0 0 1 1 *').frequency).toBe('custom')
+  })
+
+  it('sorts the chosen weekdays', () => {
+    expect(buildCron({ ...DEFAULT_CRON_SPEC, frequency: 'weekly', daysOfWeek: [5, 1] })).toBe('0 9 * * 1,5')
+  })
+})
+
+describe('pause and resume', () => {
+  it('sends the action and schedule id to the proxy', async () => {
+    const fetchMock = stubScheduler({ success: true, id: 's1', is_active: false })
+    await expect(pauseSchedule('s1')).resolves.toMatchObject({ success: true })
+    expect(fetchMock).toHaveBeenCalledWith('/api/scheduler', expect.objectContaining({ method: 'POST' }))
+    const init = fetchMock.mock.calls[0][1] as RequestInit
+    expect(JSON.parse(init.body as string)).toEqual({ action: 'pause', scheduleId: 's1' })
+  })
+
+  it('treats pausing a paused schedule as success', async () => {
+    stubScheduler({ success: false, error: 'Scheduler API error: 400', details: '{"detail":"Schedule is already paused"}' })
+    await expect(pauseSchedule('s1')).resolves.toMatchObject({ success: true })
+  })
+
+  it('treats resuming an active schedule as success', async () => {
+    stubScheduler({ success: false, error: 'Scheduler API error: 400', details: '{"detail":"Schedule is already active"}' })
+    await expect(resumeSchedule('s1')).resolves.toMatchObject({ success: true })
+  })
+
+  it('passes other failures through', async () => {
+    stubScheduler({ success: false, error: 'Schedule not found' })
+    await expect(pauseSchedule('missing')).resolves.toEqual({ success: false, error: 'Schedule not found' })
+    stubScheduler({ success: false, error: 'Scheduler API error: 400', details: 'Schedule is already paused' })
+    await expect(resumeSchedule('s1')).resolves.toMatchObject({ success: false })
+  })
+
+  it('requires a schedule id and reports network errors', async () => {
+    const fetchMock = stubScheduler({ success: true })
+    await expect(resumeSchedule('')).resolves.toEqual({ success: false, error: 'scheduleId is required' })
+    expect(fetchMock).not.toHaveBeenCalled()
+
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new Error('offline')
+    }))
+    await expect(pauseSchedule('s1')).resolves.toEqual({ success: false, error: 'offline' })
+  })
+})
+
+describe('replaceSchedule', () => {
+  const PARAMS = { agent_id: 'agent-1', cron_expression: '0 9 * * 1', message: 'Weekly digest' }
+
+  /** Creates answer with schedule "new"; deletes answer from `deletes` in order */
+  function stubReplace(...deletes: Array<Record<string, unknown>>) {
+    const deleted: string[] = []
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      const body = JSON.parse(init?.body as string)
+      if (init?.method === 'DELETE') {
+        deleted.push(body.scheduleId)
+        return Response.json(deletes.shift() ?? { success: true })
+      }
+      return Response.json({ success: true, id: 'new', ...PARAMS })
+    })
+    vi.stubGlobal('fetch', fetchMock)
+    return deleted
+  }
+
+  it('creates the new schedule and deletes the old one', async () => {
+    const deleted = stubReplace({ success: true })
+    await expect(replaceSchedule('old', PARAMS)).resolves.toMatchObject({ success: true, schedule: { id: 'new' } })
+    expect(deleted).toEqual(['old'])
+  })
+
+  it('deletes the new schedule again when the old one cannot be removed', async () => {
+    const deleted = stubReplace({ success: false, error: 'Scheduler API error: 502' }, { success: true })
+    const result = await replaceSchedule('old', PARAMS)
+    expect(deleted).toEqual(['old', 'new'])
+    expect(result).toEqual({ success: false, error: 'Changes not saved: Scheduler API error: 502' })
+  })
+
+  it('says both schedules exist when the rollback fails too', async () => {
+    const deleted = stubReplace({ success: false, error: 'Scheduler API error: 502' }, { success: false })
+    const result = await replaceSchedule('old', PARAMS)
+    expect(deleted).toEqual(['old', 'new'])
+    expect(result.success).toBe(false)
+    expect(result.schedule?.id).toBe('new')
+    expect(result.error).toContain('both now exist')
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest'
+import { buildSnippet, createSearchIndex, tokenize } from '@/lib/searchIndex'
+import type { ChatMessage, Conversation } from '@/lib/conversations'
+
+function message(id: string, content: string, timestamp = 1): ChatMessage {
+  return { id, role: 'user', content, timestamp }
+}
+
+function conversation(id: string, messages: ChatMessage[], title = id): Conversation {
+  return { id, title, sessionId: `session-${id}`, messages, createdAt: 1, updatedAt: 1 }
+}
+
+const ids = (results: { messageId: string }[]) => results.map((r) => r.messageId)
+
+const highlighted = (content: string, terms: string[]) =>
+  buildSnippet(content, terms)
+    .filter((part) => part.highlight)
+    .map((part) => part.text)
+
+describe('tokenize', () => {
+  it('lowercases, strips diacritics and splits on anything but letters and digits', () => {
+    expect(tokenize('Crème Brûlée, 2× naïve-ÉCOLE')).toEqual(['creme', 'brulee', '2', 'naive', 'ecole'])
+  })
+})
+
+describe('search', () => {
+  it('requires every term and treats only the last one as a prefix', () => {
+    const index = createSearchIndex()
+    index.update([conversation('c1', [message('m1', 'hello world'), message('m2', 'hello there')])])
+
+    expect(ids(index.search('hello wor'))).toEqual(['m1'])
+    expect(ids(index.search('hel'))).toHaveLength(2)
+    expect(index.search('hel world')).toEqual([])
+    expect(index.search('hello moon')).toEqual([])
+  })
+
+  it('ranks an exact term above a prefix match', () => {
+    const index = createSearchIndex()
+    index.update([conversation('c1', [message('prefix', 'testing the build'), message('exact', 'test the build')])])
+    expect(ids(index.search('test'))).toEqual(['exact', 'prefix'])
+  })
+
+  it('boosts the query as a phrase and breaks ties by recency', () => {
+    const index = createSearchIndex()
+    index.update([
+      conversation('c1', [
+        message('scattered', 'apple pie with red sauce', 3),
+        message('phrase', 'red apple pie with sauce', 1),
+        message('older', 'green tea', 1),
+        message('newer', 'green tea', 2),
+      ]),
+    ])
+    expect(ids(index.search('red apple'))).toEqual(['phrase', 'scattered'])
+    expect(ids(index.search('green tea'))).toEqual(['newer', 'older'])
+  })
+
+  it('matches across diacritics and reports where the hit is', () => {
+    const index = createSearchIndex()
+    index.update([conversation('c1', [message('m1', 'Try the crème brûlée')], 'Desserts')])
+    const [result] = index.search('creme')
+    expect(result).toMatchObject({ conversationId: 'c1', conversationTitle: 'Desserts', messageId: 'm1', role: 'user' })
+    expect(result.snippet.filter((p) => p.highlight).map((p) => p.text)).toEqual(['crème'])
+  })
+
+  it('honours the limit', () => {
+    const index = createSearchIndex()
+    index.update([conversation('c1', Array.from({ length: 5 }, (_, i) => message(`m${i}`, 'same words', i)))])
+    expect(ids(index.search('same', 2))).toEqual(['m4', 'm3'])
+  })
+})
+
+describe('incremental update', () => {
+  it('skips conversations whose messages array is unchanged', () => {
+    const index = createSearchIndex()
+    const messages = [message('m1', 'original text')]
+    index.update([conversation('c1', messages)])
+
+    // Conversations are updated immutably, so an in-place edit is never re-read
+    messages[0].content = 'edited text'
+    index.update([conversation('c1', messages)])
+    expect(ids(index.search('original'))).toEqual(['m1'])
+    expect(index.search('edited')).toEqual([])
+  })
+
+  it('re-indexes edited messages and drops removed ones', () => {
+    const index = createSearchIndex()
+    index.update([conversation('c1', [message('m1', 'alpha'), message('m2', 'beta')])])
+    index.update([conversation('c1', [message('m1', 'gamma')])])
+
+    expect(index.search('alpha')).toEqual([])
+    expect(index.search('beta')).toEqual([])
+    expect(ids(index.search('gamma'))).toEqual(['m1'])
+  })
+
+  it('drops deleted conversations and follows renames', () => {
+    const index = createSearchIndex()
+    const kept = [message('m1', 'shared word')]
+    index.update([conversation('c1', kept, 'Old title'), conversation('c2', [message('m2', 'shared word')])])
+    index.update([conversation('c1', kept, 'New title')])
+
+    const results = index.search('shared')
+    expect(results.map((r) => [r.conversationId, r.conversationTitle])).toEqual([['c1', 'New title']])
+  })
+
+  it('does not index empty messages', () => {
+    const index = createSearchIndex()
+    index.update([conversation('c1', [message('m1', '')])])
+    expect(index.search('anything')).toEqual([])
+  })
+})
+
+describe('buildSnippet', () => {
+  it('maps hits in folded text back to the original characters', () => {
+    expect(highlighted('Café au lait', ['cafe'])).toEqual(['Café'])
+    // Decomposed: the combining accent stays inside the highlight
+    expect(highlighted('Cafe\u0301 au lait', ['cafe'])).toEqual(['Cafe\u0301'])
+    // "ﬁ" folds to two letters but is one character of the original
+    expect(highlighted('the ﬁnal word', ['final'])).toEqual(['ﬁnal'])
+    expect(highlighted('naïve NAÏVE', ['naive'])).toEqual(['naïve', 'NAÏVE'])
+  })
+
+  it('prefers the longest term where terms overlap', () => {
+    expect(highlighted('reading', ['read', 'reading'])).toEqual(['reading'])
+  })
+
+  it('windows long content around the first hit on word boundaries', () => {
+    const before = 'lorem '.repeat(30)
+    const after = ' ipsum'.repeat(40)
+    const parts = buildSnippet(`${before}needle${after}`, ['needle'])
+
+    expect(parts[0]).toEqual({ text: '…', highlight: false })
+    expect(parts[parts.length - 1]).toEqual({ text: '…', highlight: false })
+    expect(parts.find((p) => p.highlight)?.text).toBe('needle')
+    const text = parts.map((p) => p.text).join('')
+    expect(text).toMatch(/^…lorem /)
+    expect(text).toMatch(/ ipsum…$/)
+  })
+
+  it('returns the start of the content when nothing matches', () => {
+    expect(buildSnippet('short   text\nhere', ['missing'])).toEqual([{ text: 'short text here', highlight: false }])
+  })
+})
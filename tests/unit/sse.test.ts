@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { encodeSSE, parseSSEStream, type SSEEvent } from '@/lib/sse'
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    },
+  })
+}
+
+async function collect(chunks: string[]): Promise<SSEEvent[]> {
+  const events: SSEEvent[] = []
+  for await (const evt of parseSSEStream(streamOf(chunks))) events.push(evt)
+  return events
+}
+
+describe('encodeSSE', () => {
+  it('JSON-encodes objects and splits multi-line strings into data lines', () => {
+    expect(encodeSSE('done', { ok: true })).toBe('event: done\ndata: {"ok":true}\n\n')
+    expect(encodeSSE('delta', 'a\nb')).toBe('event: delta\ndata: a\ndata: b\n\n')
+  })
+})
+
+describe('parseSSEStream', () => {
+  it('round-trips encoded events', async () => {
+    const events = await collect([encodeSSE('delta', 'line one\nline two'), encodeSSE('done', { text: 'x' })])
+    expect(events).toEqual([
+      { event: 'delta', data: 'line one\nline two' },
+      { event: 'done', data: '{"text":"x"}' },
+    ])
+  })
+
+  it('reassembles events split across chunks and accepts CRLF line endings', async () => {
+    const events = await collect(['event: del', 'ta\r\ndata: he', 'llo\r\n', '\r\n: comment\n', 'data: plain\n\n'])
+    expect(events).toEqual([
+      { event: 'delta', data: 'hello' },
+      { event: 'message', data: 'plain' },
+    ])
+  })
+
+  it('emits a final event that has no trailing blank line', async () => {
+    expect(await collect(['data: first\n\n', 'data: last'])).toEqual([
+      { event: 'message', data: 'first' },
+      { event: 'message', data: 'last' },
+    ])
+  })
+})
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { uploadFile } from '@/lib/aiAgent'
+
+/** Just enough of XMLHttpRequest for uploadFile; each test drives the last instance */
+class FakeXHR {
+  static last: FakeXHR
+  method = ''
+  url = ''
+  responseType = ''
+  response: unknown = null
+  status = 0
+  sent: FormData | null = null
+  upload: { onprogress?: (e: { lengthComputable: boolean; loaded: number; total: number }) => void } = {}
+  onload?: () => void
+  onerror?: () => void
+  onabort?: () => void
+
+  constructor() {
+    FakeXHR.last = this
+  }
+
+  open(method: string, url: string) {
+    this.method = method
+    this.url = url
+  }
+
+  send(body: FormData) {
+    this.sent = body
+  }
+
+  abort() {
+    this.onabort?.()
+  }
+
+  respond(status: number, response: unknown) {
+    this.status = status
+    this.response = response
+    this.onload?.()
+  }
+}
+
+const file = new File(['hello'], 'notes.txt', { type: 'text/plain' })
+
+function uploaded(overrides: Record<string, unknown> = {}) {
+  return {
+    success: true,
+    asset_ids: ['asset-1'],
+    files: [{ file_name: 'notes.txt', success: true, asset_id: 'asset-1' }],
+    total_files: 1,
+    successful_uploads: 1,
+    failed_uploads: 0,
+    message: 'Uploaded',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.stubGlobal('XMLHttpRequest', FakeXHR)
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('uploadFile', () => {
+  it('posts the file as multipart form data and reports progress', async () => {
+    const progress: number[] = []
+    const pending = uploadFile(file, { onProgress: (fraction) => progress.push(fraction) })
+    const xhr = FakeXHR.last
+
+    expect([xhr.method, xhr.url, xhr.responseType]).toEqual(['POST', '/api/upload', 'json'])
+    expect((xhr.sent?.get('files') as File).name).toBe('notes.txt')
+
+    xhr.upload.onprogress?.({ lengthComputable: true, loaded: 2, total: 5 })
+    xhr.upload.onprogress?.({ lengthComputable: false, loaded: 3, total: 0 })
+    xhr.respond(200, uploaded())
+
+    expect(progress).toEqual([0.4])
+    expect(await pending).toMatchObject({ success: true, asset_ids: ['asset-1'] })
+  })
+
+  it('fails an upload whose file the upstream rejected', async () => {
+    const pending = uploadFile(file)
+    FakeXHR.last.respond(200, uploaded({ files: [{ file_name: 'notes.txt', success: false, error: 'Unsupported type' }] }))
+    expect(await pending).toMatchObject({ success: false, error: 'Unsupported type' })
+  })
+
+  it('reports a response without a JSON body by its status', async () => {
+    const pending = uploadFile(file)
+    FakeXHR.last.respond(502, null)
+    expect(await pending).toMatchObject({ success: false, failed_uploads: 1, error: 'Upload failed with status 502' })
+  })
+
+  it('resolves network errors instead of throwing', async () => {
+    const pending = uploadFile(file)
+    FakeXHR.last.onerror?.()
+    expect(await pending).toMatchObject({ success: false, error: 'Network error during upload' })
+  })
+
+  it('cancels through the signal, including one aborted before sending', async () => {
+    const controller = new AbortController()
+    const pending = uploadFile(file, { signal: controller.signal })
+    controller.abort()
+    expect(await pending).toMatchObject({ success: false, error: 'Upload cancelled' })
+
+    const aborted = uploadFile(file, { signal: AbortSignal.abort() })
+    expect(await aborted).toMatchObject({ success: false, error: 'Upload cancelled' })
+    expect(FakeXHR.last.sent).toBeNull()
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import {
+  evaluateCondition,
+  MAX_MATCH_INPUT_LENGTH,
+  MAX_MATCH_PATTERN_LENGTH,
+  topologicalOrder,
+  type NodeRunResult,
+  type WorkflowDefinition,
+} from '@/lib/workflowRunner'
+
+function source(text: string): NodeRunResult {
+  return { node_id: 'a', label: 'A', type: 'Agent', status: 'success', text }
+}
+
+const node = (id: string) => ({ id, type: 'Agent', label: id })
+
+describe('topologicalOrder', () => {
+  it('orders nodes after everything that feeds them', () => {
+    const workflow: WorkflowDefinition = {
+      nodes: [node('c'), node('b'), node('a')],
+      edges: [
+        { source: 'a', target: 'b' },
+        { source: 'b', target: 'c' },
+      ],
+    }
+    expect(topologicalOrder(workflow).map((n) => n.id)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('reports duplicate node ids as duplicates, not as a cycle', () => {
+    const workflow: WorkflowDefinition = { nodes: [node('a'), node('b'), node('a')], edges: [{ source: 'a', target: 'b' }] }
+    expect(() => topologicalOrder(workflow)).toThrow('more than one node with id "a"')
+  })
+
+  it('reports cycles and unknown nodes', () => {
+    expect(() =>
+      topologicalOrder({
+        nodes: [node('a'), node('b')],
+        edges: [
+          { source: 'a', target: 'b' },
+          { source: 'b', target: 'a' },
+        ],
+      })
+    ).toThrow('contains a cycle')
+    expect(() => topologicalOrder({ nodes: [node('a')], edges: [{ source: 'a', target: 'z' }] })).toThrow(
+      'unknown target node "z"'
+    )
+  })
+})
+
+describe('evaluateCondition matches', () => {
+  it('tests the output text against the pattern', () => {
+    expect(evaluateCondition({ operator: 'matches', value: '^APPROVED\\b' }, source('APPROVED: ship it'))).toBe(true)
+    expect(evaluateCondition({ operator: 'matches', value: '^APPROVED\\b' }, source('Not approved'))).toBe(false)
+  })
+
+  it('treats invalid and over-long patterns as not matching', () => {
+    expect(evaluateCondition({ operator: 'matches', value: '(' }, source('('))).toBe(false)
+    const long = 'a'.repeat(MAX_MATCH_PATTERN_LENGTH + 1)
+    expect(evaluateCondition({ operator: 'matches', value: long }, source(long))).toBe(false)
+  })
+
+  it('only looks at the start of very long output', () => {
+    const text = 'x'.repeat(MAX_MATCH_INPUT_LENGTH) + 'needle'
+    expect(evaluateCondition({ operator: 'matches', value: 'needle' }, source(text))).toBe(false)
+    expect(evaluateCondition({ operator: 'matches', value: '^x+$' }, source(text))).toBe(true)
+  })
+})
@@ -0,0 +1,20 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./', import.meta.url)) },
+  },
+  test: {
+    include: ['tests/**/*.test.{ts,tsx}'],
+    environment: 'node',
+    // Routes read these when they load; tests stub fetch, so nothing reaches a real upstream,
+    // and the stores stay in memory
+    env: {
+      LYZR_API_KEY: 'test-key',
+      LYZR_BASE_URL: 'http://upstream.test',
+      UPSTREAM_MAX_RETRIES: '0',
+      CONVERSATION_STORE: 'memory',
+    },
+  },
+})